@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { getAnalysisJob, subscribeToJob, formatJobEvent, isTerminalJobEvent } from '@/lib/analysisJobs'
+
+export const dynamic = 'force-dynamic'
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 15000
+
+/**
+ * Stream a job's events over SSE. Earlier events are replayed first, so a client
+ * that reconnects (EventSource sends Last-Event-ID) picks up where it left off.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.accessToken) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { jobId } = await params
+  const job = getAnalysisJob(jobId, session.user?.login || '')
+  if (!job) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+  }
+
+  const lastEventId = Number(request.headers.get('last-event-id')) || 0
+  const encoder = new TextEncoder()
+  let stop = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false
+      let unsubscribe = () => {}
+      const heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(': heartbeat\n\n'))
+      }, HEARTBEAT_INTERVAL_MS)
+
+      stop = () => {
+        if (closed) return
+        closed = true
+        clearInterval(heartbeat)
+        unsubscribe()
+        try {
+          controller.close()
+        } catch {
+          // Already closed by the client
+        }
+      }
+
+      unsubscribe = subscribeToJob(job, lastEventId, event => {
+        if (closed) return
+        controller.enqueue(encoder.encode(formatJobEvent(event)))
+        if (isTerminalJobEvent(event)) stop()
+      })
+
+      // Finished before this client connected - everything was just replayed
+      if (job.status !== 'running') stop()
+      request.signal.addEventListener('abort', () => stop())
+    },
+    cancel() {
+      stop()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  })
+}
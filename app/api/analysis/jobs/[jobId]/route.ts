@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { getAnalysisJob, cancelAnalysisJob, setAnalysisJobPaused } from '@/lib/analysisJobs'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Cancel a running job (repos it already finished are kept in its events)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.accessToken) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { jobId } = await params
+  const job = getAnalysisJob(jobId, session.user?.login || '')
+  if (!job) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+  }
+
+  cancelAnalysisJob(job)
+  return NextResponse.json({ status: job.status })
+}
+
+/**
+ * Pause ({ paused: true }) or resume the job's queue
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.accessToken) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { jobId } = await params
+  const job = getAnalysisJob(jobId, session.user?.login || '')
+  if (!job) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+  }
+
+  const body = await request.json().catch(() => ({}))
+  if (typeof body.paused !== 'boolean') {
+    return NextResponse.json({ error: 'Missing paused' }, { status: 400 })
+  }
+
+  setAnalysisJobPaused(job, body.paused)
+  return NextResponse.json({ status: job.status, paused: !!job.pause })
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { createLLMClient, resolveLLMConfig, isAIDisabled } from '@/lib/llm'
+import { resolveAccess } from '@/lib/accessPolicy'
+import { AI_QUOTA_EXCEEDED, getQuotaStatus } from '@/lib/aiUsage'
+import { startAnalysisJob } from '@/lib/analysisJobs'
+import { parseWrappedYear } from '@/utils/dateRange'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Start analyzing the selected repositories; progress is streamed from
+ * /api/analysis/jobs/[jobId]/events
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Check allowlist or BYOK up front - the job makes every LLM call with this config
+    // With AI turned off summaries and grouping are built heuristically - no key needed
+    const username = session.user?.login || ''
+    const aiDisabled = isAIDisabled(request.headers)
+    // Server-key usage is metered (per job) - over quota, only the user's own key will do
+    const access = aiDisabled ? null : await resolveAccess({ login: username, accessToken: session.accessToken })
+    const quota = access?.allowed ? getQuotaStatus(username) : null
+    const llmConfig = aiDisabled ? null : resolveLLMConfig(request.headers, { allowServerKeys: !!access?.allowed && !quota?.exceeded, login: username })
+
+    if (!aiDisabled && !llmConfig) {
+      if (quota?.exceeded) {
+        return NextResponse.json({
+          error: 'AI quota exceeded',
+          code: AI_QUOTA_EXCEEDED,
+          message: quota.message,
+          resetsAt: quota.resetsAt,
+        }, { status: 429 })
+      }
+      return NextResponse.json({ 
+        error: 'API key required',
+        code: 'BYOK_REQUIRED',
+        message: 'Please provide your AI provider API key to use AI features'
+      }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const { repositories, completedRepositories = [], authorScope = 'me', userPreferences, previousYear, timeZone } = body
+
+    // Resuming or retrying passes the repos already analyzed; they're regrouped, not re-fetched
+    if (!Array.isArray(repositories) || !Array.isArray(completedRepositories)) {
+      return NextResponse.json({ error: 'Invalid repositories' }, { status: 400 })
+    }
+    if (repositories.length + completedRepositories.length === 0) {
+      return NextResponse.json({ error: 'No repositories provided' }, { status: 400 })
+    }
+    if (repositories.some((repo: any) => !repo?.owner?.login || !repo?.name)) {
+      return NextResponse.json({ error: 'Missing owner or repo' }, { status: 400 })
+    }
+
+    const job = startAnalysisJob({
+      login: username,
+      accessToken: session.accessToken,
+      llm: llmConfig ? createLLMClient(llmConfig) : null,
+      repositories,
+      completedRepositories,
+      year: body.year ? parseWrappedYear(body.year) : null,
+      authorScope,
+      userPreferences,
+      previousYear,
+      timeZone,
+    })
+
+    return NextResponse.json({ jobId: job.id })
+  } catch (error: any) {
+    console.error('Error starting analysis job:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to start analysis' },
+      { status: 500 }
+    )
+  }
+}
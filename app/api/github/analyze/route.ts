@@ -1,155 +1,114 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth/next'
-import { authOptions } from '@/lib/auth'
-import OpenAI from 'openai'
+import { getGitHubAuth } from '@/lib/auth'
+import { createLLMClient, resolveLLMConfig, isAIDisabled } from '@/lib/llm'
+import { resolveAccess } from '@/lib/accessPolicy'
+import { AI_QUOTA_EXCEEDED, getQuotaStatus, withUsageMetering } from '@/lib/aiUsage'
+import { summarizeRepository } from '@/lib/heuristics'
+import { getCachedSummary } from '@/lib/summaryCache'
+import { createGitHubClient } from '@/lib/github'
+import { generateRepoSummary, getSummaryCacheKey } from '@/lib/repoAnalysis'
+import { parseWrappedYear } from '@/utils/dateRange'
 
 export const dynamic = 'force-dynamic'
 
-// Check if user is in the allowlist (env var is comma-separated usernames)
-function isUserAllowlisted(username: string): boolean {
-  if (!username || username.trim() === '') return false // Reject empty usernames
-  const allowlist = process.env.ALLOWED_USERS?.split(',')
-    .map(u => u.trim().toLowerCase())
-    .filter(u => u.length > 0) || [] // Filter out empty entries
-  return allowlist.includes(username.toLowerCase())
-}
-
-// Get OpenAI client - uses server key for allowlisted users, or provided key for BYOK
-function getOpenAIClient(userApiKey?: string): OpenAI {
-  return new OpenAI({
-    apiKey: userApiKey || process.env.OPENAI_API_KEY,
-  })
-}
-
 export async function POST(request: NextRequest) {
   // Parse body outside try block so it's available in catch for fallback
   let body: any = {}
   
   try {
-    const session = await getServerSession(authOptions)
+    const auth = await getGitHubAuth(request.headers)
     
-    if (!session?.accessToken) {
+    if (!auth) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    // Check allowlist or BYOK - use verified GitHub login from OAuth
-    const username = session.user?.login || ''
-    const userApiKey = request.headers.get('x-openai-key')
-    
-    if (!isUserAllowlisted(username) && !userApiKey) {
-      return NextResponse.json({ 
-        error: 'API key required',
-        code: 'BYOK_REQUIRED',
-        message: 'Please provide your OpenAI API key to use AI features'
-      }, { status: 403 })
-    }
-    
-    // Use user's key if provided, otherwise use server key (for allowlisted users)
-    const openai = getOpenAIClient(isUserAllowlisted(username) ? undefined : userApiKey || undefined)
-
     body = await request.json()
-    const { repoName, description, stats, readme, commitMessages, narrative } = body
+    const { owner, repoName, stats, forceRefresh } = body
+    const year = body.year ? parseWrappedYear(body.year) : null
 
     if (!repoName || !stats) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 })
     }
 
-    // Build context for AI
-    const contextParts = [
-      `Repository: ${repoName}`,
-      description ? `Description: ${description}` : '',
-      `Statistics:`,
-      `- Total Commits: ${stats.commits}`,
-      `- Lines Added: ${stats.additions?.toLocaleString() || 'N/A'}`,
-      `- Lines Deleted: ${stats.deletions?.toLocaleString() || 'N/A'}`,
-      `- Net LOC: ${stats.net?.toLocaleString() || 'N/A'}`,
-      `- Primary Language: ${stats.primaryLanguage || 'Unknown'}`,
-    ]
-
-    if (readme) {
-      // Truncate README to fit in context
-      const truncatedReadme = readme.substring(0, 2000)
-      contextParts.push(`\nREADME:\n${truncatedReadme}`)
+    // AI turned off - summarize from README and commit history instead
+    if (isAIDisabled(request.headers)) {
+      return NextResponse.json({ summary: summarizeRepository(body), heuristic: true })
     }
 
-    if (commitMessages && commitMessages.length > 0) {
-      const recentCommits = commitMessages.slice(0, 10).join('\n- ')
-      contextParts.push(`\nRecent commit messages:\n- ${recentCommits}`)
+    // Cached summary for this exact head SHA / narrative / scope? Costs no tokens, so
+    // it's served before the BYOK check. The SHA is looked up with the user's own token,
+    // which also proves they can still read the repo. Stats and README come from the
+    // request body, so the cache is per verified login - nobody can seed another user's.
+    let cacheKey: string | null = null
+    let headSha: string | null = null
+    if (owner) {
+      const octokit = createGitHubClient(auth.accessToken, { login: auth.login })
+      headSha = await octokit.repos.listCommits({ owner, repo: repoName, per_page: 1 })
+        .then(res => res.data[0]?.sha || null)
+        .catch(() => null)
+    }
+    cacheKey = getSummaryCacheKey(body, headSha, auth.login)
+    if (cacheKey) {
+      const cached = forceRefresh ? null : getCachedSummary(cacheKey)
+      if (cached) {
+        return NextResponse.json({
+          summary: cached.summary,
+          cached: true,
+          cachedAt: cached.cachedAt,
+          cacheKey,
+          provider: cached.provider,
+          model: cached.model,
+        })
+      }
     }
 
-    const context = contextParts.filter(Boolean).join('\n')
-
-    // Add developer narrative context if provided
-    const narrativeContext = narrative ? `
-
-DEVELOPER CONTEXT: The developer has provided this note about the project:
-"${narrative}"
-
-Incorporate this context into your analysis. This provides insider knowledge
-about the project's purpose, constraints, or achievements that may not be
-obvious from the code alone.` : ''
-
-    // Call OpenAI to generate summary
-    // Using gpt-4o which supports response_format with json_object
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o',
-      messages: [
-        {
-          role: 'system',
-          content: `You are an expert software analyst. Generate a structured JSON summary of a GitHub repository based on the provided data. Focus on:
-1. What problem the project solves for users
-2. Any AI/ML features, intelligent automation, or technically interesting aspects
-3. Standout technical implementations and features
-4. Development highlights (bugs fixed, optimizations made, architecture decisions)
-
-Always base your analysis on the actual data provided. Do not invent statistics.`
-        },
-        {
-          role: 'user',
-          content: `Analyze this repository and provide a JSON response with this exact structure:
-
-{
-  "project_function": "A concise 2-3 sentence description of what the project does in user-centric terms",
-  "ai_integration": "Description of AI/ML features, intelligent automation, or most technically interesting aspects. If no AI, focus on the most innovative technical elements",
-  "development_highlights": [
-    "Key feature or technical achievement 1",
-    "Key feature or technical achievement 2",
-    "Key feature or technical achievement 3",
-    "Key feature or technical achievement 4"
-  ]
-}
-
-Repository Data:
-${context}${narrativeContext}
-
-Provide only the JSON response, no additional text.`
-        }
-      ],
-      response_format: { type: 'json_object' },
-      temperature: 0.7,
-      max_tokens: 1000,
-    })
+    // Check allowlist or BYOK - use the verified GitHub login (OAuth profile or token owner)
+    // Allowlisted users (by login, org or team) run on the server's provider; everyone else brings their own
+    // Server-key usage is metered - over quota, only the user's own key will do
+    const access = await resolveAccess(auth)
+    const quota = access.allowed ? getQuotaStatus(auth.login) : null
+    const llmConfig = resolveLLMConfig(request.headers, { allowServerKeys: access.allowed && !quota?.exceeded, login: auth.login })
+    
+    if (!llmConfig) {
+      if (quota?.exceeded) {
+        return NextResponse.json({
+          error: 'AI quota exceeded',
+          code: AI_QUOTA_EXCEEDED,
+          message: quota.message,
+          resetsAt: quota.resetsAt,
+        }, { status: 429 })
+      }
+      return NextResponse.json({ 
+        error: 'API key required',
+        code: 'BYOK_REQUIRED',
+        message: 'Please provide your AI provider API key to use AI features'
+      }, { status: 403 })
+    }
+    
+    const llm = withUsageMetering(createLLMClient(llmConfig), { login: auth.login })
 
-    const aiSummary = JSON.parse(completion.choices[0].message.content || '{}')
+    const { summary: aiSummary, completion } = await generateRepoSummary(
+      llm,
+      { ...body, year },
+      cacheKey && headSha ? { cacheKey, headSha } : null
+    )
 
     return NextResponse.json({ 
       summary: aiSummary,
-      usage: completion.usage 
+      cached: false,
+      cacheKey,
+      usage: completion.usage,
+      provider: completion.provider,
+      model: completion.model,
     })
   } catch (error: any) {
     console.error('Error generating AI summary:', error)
     
-    // Return a basic fallback summary if AI fails
-    const fallbackSummary = {
-      project_function: body.description || `A ${body.stats?.primaryLanguage || 'software'} project with ${body.stats?.commits || 0} commits.`,
-      ai_integration: 'Technical analysis unavailable - AI service error.',
-      development_highlights: [
-        `${body.stats?.commits || 0} commits representing significant development effort`,
-        `${body.stats?.net?.toLocaleString() || 'N/A'} net lines of code`,
-        `Primary language: ${body.stats?.primaryLanguage || 'Not specified'}`,
-        'Active development and maintenance'
-      ]
-    }
+    // Summarize heuristically if AI fails
+    const fallbackSummary = summarizeRepository({
+      ...body,
+      repoName: body.repoName || 'This project',
+    })
 
     return NextResponse.json(
       { 
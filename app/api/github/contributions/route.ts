@@ -1,137 +1,64 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth/next'
-import { authOptions } from '@/lib/auth'
+import { getGitHubAuth } from '@/lib/auth'
+import { createGitHubClient } from '@/lib/github'
+import { fetchContributionData, type ContributionData } from '@/lib/contributions'
+import { parseWrappedYear } from '@/utils/dateRange'
 
 export const dynamic = 'force-dynamic'
 
-interface ContributionDay {
-  contributionCount: number
-  date: string
-}
-
-interface ContributionWeek {
-  contributionDays: ContributionDay[]
-}
-
-interface ContributionCalendar {
-  totalContributions: number
-  weeks: ContributionWeek[]
-}
-
-interface GraphQLResponse {
-  data?: {
-    user?: {
-      contributionsCollection?: {
-        contributionCalendar: ContributionCalendar
-      }
-    }
-  }
-  errors?: Array<{ message: string }>
-}
-
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
+    const auth = await getGitHubAuth(request.headers)
     
-    if (!session?.accessToken) {
+    if (!auth) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
     const { searchParams } = new URL(request.url)
-    const year = parseInt(searchParams.get('year') || '2025')
+    const year = parseWrappedYear(searchParams.get('year'))
     
-    // First, get the authenticated user's login
-    const userResponse = await fetch('https://api.github.com/user', {
-      headers: {
-        'Authorization': `Bearer ${session.accessToken}`,
-        'Accept': 'application/vnd.github.v3+json',
-      },
-    })
+    const octokit = createGitHubClient(auth.accessToken, { login: auth.login })
     
-    if (!userResponse.ok) {
-      return NextResponse.json({ error: 'Failed to get user info' }, { status: userResponse.status })
+    // First, get the authenticated user's login
+    let username: string
+    try {
+      const { data: userData } = await octokit.users.getAuthenticated()
+      username = userData.login
+    } catch (error: any) {
+      return NextResponse.json({ error: 'Failed to get user info' }, { status: error.status || 500 })
     }
-    
-    const userData = await userResponse.json()
-    const username = userData.login
 
     if (!username) {
       return NextResponse.json({ error: 'Could not determine username' }, { status: 400 })
     }
 
-    // GraphQL query for contribution calendar
-    const query = `
-      query($username: String!, $from: DateTime!, $to: DateTime!) {
-        user(login: $username) {
-          contributionsCollection(from: $from, to: $to) {
-            contributionCalendar {
-              totalContributions
-              weeks {
-                contributionDays {
-                  contributionCount
-                  date
-                }
-              }
-            }
-          }
-        }
+    let data: ContributionData | null
+    try {
+      data = await fetchContributionData(octokit, username, year)
+    } catch (error: any) {
+      // Query errors come back with a 200 and an errors list, anything else is an HTTP error
+      if (error.errors) {
+        console.error('GraphQL errors:', error.errors)
+        return NextResponse.json(
+          { error: error.errors[0]?.message || 'GraphQL error' },
+          { status: 400 }
+        )
       }
-    `
-
-    const variables = {
-      username,
-      from: `${year}-01-01T00:00:00Z`,
-      to: `${year}-12-31T23:59:59Z`,
-    }
-
-    const response = await fetch('https://api.github.com/graphql', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${session.accessToken}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ query, variables }),
-    })
-
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error('GitHub GraphQL error:', errorText)
+      console.error('GitHub GraphQL error:', error.message)
       return NextResponse.json(
         { error: 'Failed to fetch contribution data' },
-        { status: response.status }
-      )
-    }
-
-    const result: GraphQLResponse = await response.json()
-
-    if (result.errors) {
-      console.error('GraphQL errors:', result.errors)
-      return NextResponse.json(
-        { error: result.errors[0]?.message || 'GraphQL error' },
-        { status: 400 }
+        { status: error.status || 500 }
       )
     }
 
-    const calendar = result.data?.user?.contributionsCollection?.contributionCalendar
-
-    if (!calendar) {
+    if (!data) {
       return NextResponse.json(
         { error: 'No contribution data found' },
         { status: 404 }
       )
     }
 
-    // Calculate active days
-    const activeDays = calendar.weeks
-      .flatMap(w => w.contributionDays)
-      .filter(d => d.contributionCount > 0).length
-
-    return NextResponse.json({
-      year,
-      totalContributions: calendar.totalContributions,
-      activeDays,
-      weeks: calendar.weeks,
-    })
+    return NextResponse.json(data)
   } catch (error: any) {
     console.error('Error fetching contributions:', error)
     return NextResponse.json(
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getGitHubAuth } from '@/lib/auth'
+import { createGitHubClient, fetchRateLimit } from '@/lib/github'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * The caller's remaining GitHub API quota (core resource)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await getGitHubAuth(request.headers)
+
+    if (!auth) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const octokit = createGitHubClient(auth.accessToken)
+    return NextResponse.json(await fetchRateLimit(octokit))
+  } catch (error: any) {
+    console.error('Error fetching rate limit:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch rate limit' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { resolveAccess } from '@/lib/accessPolicy'
+import { getServerLLMConfig } from '@/lib/llm'
+import type { AIAccessStatus } from '@/types'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Whether the signed-in user can run on the server's AI provider, so the dashboard
+ * knows before starting an analysis if it has to ask for their own key
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    const login = session?.user?.login
+
+    if (!session?.accessToken || !login) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const access = await resolveAccess({ login, accessToken: session.accessToken })
+    // With AI off server-wide everything is heuristic - nobody needs a key
+    const aiDisabled = process.env.AI_PROVIDER === 'none'
+
+    const status: AIAccessStatus = {
+      allowlisted: access.allowed,
+      via: access.via,
+      byokRequired: !aiDisabled && !(access.allowed && getServerLLMConfig()),
+    }
+    return NextResponse.json(status)
+  } catch (error: any) {
+    console.error('Error checking AI access:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to check access' },
+      { status: 500 }
+    )
+  }
+}
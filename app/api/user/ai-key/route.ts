@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { getStoredAIKeyInfo, isKeyStorageEnabled, revokeAIKey, storeAIKey } from '@/lib/aiKeyStore'
+import { isAllowedBaseURL, LLM_PROVIDERS, type LLMProviderId } from '@/lib/llm'
+import type { StoredAIKeyStatus } from '@/types'
+
+export const dynamic = 'force-dynamic'
+
+// Longer than any provider's keys, short enough to reject junk
+const MAX_API_KEY_LENGTH = 1024
+
+async function getLogin(): Promise<string | null> {
+  const session = await getServerSession(authOptions)
+  return session?.accessToken && session.user?.login ? session.user.login : null
+}
+
+/**
+ * Whether the server can hold the user's key, and what it holds (never the key itself)
+ */
+export async function GET() {
+  try {
+    const login = await getLogin()
+    if (!login) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const status: StoredAIKeyStatus = {
+      available: isKeyStorageEnabled(),
+      key: getStoredAIKeyInfo(login),
+    }
+    return NextResponse.json(status)
+  } catch (error: any) {
+    console.error('Error reading stored AI key:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to read stored key' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Store the user's key encrypted, replacing (rotating) any previous one
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const login = await getLogin()
+    if (!login) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!isKeyStorageEnabled()) {
+      return NextResponse.json({
+        error: 'Key storage unavailable',
+        code: 'KEY_STORAGE_UNAVAILABLE',
+        message: 'This server is not configured to store API keys'
+      }, { status: 503 })
+    }
+
+    const body = await request.json()
+    const provider = body?.provider as LLMProviderId
+    const apiKey = typeof body?.apiKey === 'string' ? body.apiKey.trim() : ''
+    const baseURL = typeof body?.baseURL === 'string' ? body.baseURL.trim() : ''
+
+    if (!LLM_PROVIDERS.includes(provider)) {
+      return NextResponse.json({ error: 'Invalid provider' }, { status: 400 })
+    }
+    if (!apiKey || apiKey.length > MAX_API_KEY_LENGTH) {
+      return NextResponse.json({ error: 'Invalid API key' }, { status: 400 })
+    }
+    // Same endpoint rules as keys sent per request
+    const needsBaseURL = provider === 'azure' || provider === 'openai-compatible'
+    if (needsBaseURL && !isAllowedBaseURL(provider, baseURL)) {
+      return NextResponse.json({ error: 'Endpoint URL is not allowed' }, { status: 400 })
+    }
+
+    const key = storeAIKey(login, { provider, baseURL: needsBaseURL ? baseURL : null, apiKey })
+    const status: StoredAIKeyStatus = { available: true, key }
+    return NextResponse.json(status)
+  } catch (error: any) {
+    console.error('Error storing AI key:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to store key' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Revoke: delete the user's stored key
+ */
+export async function DELETE() {
+  try {
+    const login = await getLogin()
+    if (!login) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return NextResponse.json({ revoked: revokeAIKey(login) })
+  } catch (error: any) {
+    console.error('Error revoking AI key:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to revoke key' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { getUsageSummary } from '@/lib/aiUsage'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * The signed-in user's AI token usage and estimated cost (today, this month and
+ * recent runs) and where they stand against the server's quotas
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    const login = session?.user?.login
+
+    if (!session?.accessToken || !login) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return NextResponse.json(getUsageSummary(login))
+  } catch (error: any) {
+    console.error('Error reading AI usage:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to read usage' },
+      { status: 500 }
+    )
+  }
+}
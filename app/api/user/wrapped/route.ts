@@ -0,0 +1,6 @@
+import { createUserDocumentHandlers } from '@/lib/userDocumentRoute'
+
+export const dynamic = 'force-dynamic'
+
+// Server copy of the user's wrapped results (utils/wrappedStorage.ts), keyed by GitHub login
+export const { GET, PUT } = createUserDocumentHandlers('wrapped')
@@ -1,9 +1,9 @@
 'use client'
 
 import { useSession, signOut } from 'next-auth/react'
-import { useEffect, useState, useCallback } from 'react'
+import { useEffect, useState, useCallback, useRef } from 'react'
 import { useRouter } from 'next/navigation'
-import type { AnalyzedRepository, DevelopmentMode, RepoPreference, CustomGroup, GROUP_ICONS } from '@/types'
+import type { AnalyzedRepository, DevelopmentMode, RepoPreference, CustomGroup, GROUP_ICONS, AuthorScope, RepositorySource, PreferencesImportPreview, RepoKeyCollision, GitHubRateLimit, AIUsageSummary } from '@/types'
 import {
   loadPreferences,
   savePreferences,
@@ -20,27 +20,58 @@ import {
   addDeploymentUrl,
   removeDeploymentUrl,
   markReposScanned,
+  getWrappedYear,
+  setWrappedYear,
+  getAuthorScope,
+  setAuthorScope,
+  syncPreferences,
+  downloadPreferences,
+  previewPreferencesImport,
+  applyPreferencesImport,
+  getRepoKeyCollisions,
+  resolveRepoKeyCollision,
 } from '@/utils/preferences'
+import { getSelectableYears } from '@/utils/dateRange'
+import { fetchAIAccess, hasAISettings } from '@/utils/aiSettings'
+import { mirrorSummary } from '@/utils/summaryCache'
+import {
+  startAnalysisJob,
+  cancelAnalysisJob,
+  setAnalysisJobPaused,
+  subscribeToAnalysisJob,
+  createAnalysisRun,
+  recordRepoEvent,
+  getPendingRepos,
+  getAnalysisRun,
+  saveAnalysisRun,
+  clearAnalysisRun,
+  type AnalysisRun,
+} from '@/utils/analysisJob'
+import { fetchRateLimit, isRateLimitLow, formatRateLimitReset } from '@/utils/rateLimit'
+import { fetchAIUsage, isAIQuotaNear, describeQuotaUsage, formatTokenCount, formatCost } from '@/utils/aiUsage'
+import { saveWrappedResults, syncWrappedResults, getPreviousSnapshot, saveSnapshot } from '@/utils/wrappedStorage'
+import { buildWrappedSnapshot } from '@/utils/yearComparison'
+import { getLocalTimeZone } from '@/utils/activityMetrics'
 import ApiKeyModal from '@/components/ApiKeyModal'
+import SyncErrorNotice from '@/components/SyncErrorNotice'
 import styles from './dashboard.module.css'
 
 // Available icons for custom groups
 const AVAILABLE_ICONS = ['📁', '🚀', '🔧', '💡', '🎨', '🔬', '📊', '🌐'] as const
 
-// Helper to get stored OpenAI API key
-function getStoredApiKey(): string | null {
-  if (typeof window === 'undefined') return null
-  return localStorage.getItem('openai_api_key')
+// Labels for where a repository was discovered
+const SOURCE_LABELS: Record<RepositorySource, string> = {
+  owner: '👤 Owner',
+  collaborator: '🤝 Collaborator',
+  organization: '🏢 Organization',
+  contributed: '🔀 PR contributor',
 }
 
-// Helper to get headers with optional API key
-function getAIHeaders(): HeadersInit {
-  const headers: HeadersInit = { 'Content-Type': 'application/json' }
-  const apiKey = getStoredApiKey()
-  if (apiKey) {
-    headers['x-openai-key'] = apiKey
-  }
-  return headers
+// Optional repository discovery sources (all off by default)
+interface DiscoveryOptions {
+  includeForks: boolean
+  includeArchived: boolean
+  includeContributed: boolean
 }
 
 // Progress state for detailed tracking
@@ -61,6 +92,17 @@ interface RepoWithPrefs extends AnalyzedRepository {
   scanCount?: number
 }
 
+// Copy a saved repo preference onto the displayed repo
+function applyRepoPreference(repo: RepoWithPrefs, repoPref: RepoPreference): RepoWithPrefs {
+  return {
+    ...repo,
+    selected: repoPref.selected || false,
+    aiAssisted: repoPref.aiAssisted,
+    narrative: repoPref.narrative,
+    customGroup: repoPref.customGroup,
+  }
+}
+
 // Helper to format scan date in a friendly way
 function formatScanDate(isoDate: string): string {
   const date = new Date(isoDate)
@@ -97,6 +139,23 @@ export default function Dashboard() {
   const [languageFilter, setLanguageFilter] = useState<string>('all')
   const [yearFilter, setYearFilter] = useState<string>('all')
   
+  // Repository discovery options
+  const [discovery, setDiscovery] = useState<DiscoveryOptions>({
+    includeForks: false,
+    includeArchived: true,
+    includeContributed: false,
+  })
+  
+  // Calendar year the wrapped covers (stats are scoped to it)
+  const [wrappedYear, setWrappedYearState] = useState<number>(new Date().getFullYear())
+  
+  // Whose commits count toward stats
+  const [authorScope, setAuthorScopeState] = useState<AuthorScope>('me')
+  const [authorLoginsInput, setAuthorLoginsInput] = useState('')
+  // 'Specific people…' picked - the login input shows even before anyone is named
+  const [showCustomAuthors, setShowCustomAuthors] = useState(false)
+  const scopeBeforeCustomRef = useRef<'me' | 'all'>('me')
+  
   // Self-reporting state
   const [developmentMode, setDevelopmentMode] = useState<DevelopmentMode>('mixed')
   const [showModeSelector, setShowModeSelector] = useState(true)
@@ -109,49 +168,98 @@ export default function Dashboard() {
   const [newGroupName, setNewGroupName] = useState('')
   const [newGroupIcon, setNewGroupIcon] = useState<string>('📁')
   const [showApiKeyModal, setShowApiKeyModal] = useState(false)
+  
+  // Preferences import (file picker + per-repo preview)
+  const importInputRef = useRef<HTMLInputElement>(null)
+  const [importPreview, setImportPreview] = useState<PreferencesImportPreview | null>(null)
+  const [importError, setImportError] = useState<string | null>(null)
+  
+  // Legacy (bare-name) preferences that match several repos - resolved one at a time
+  const [repoKeyCollisions, setRepoKeyCollisions] = useState<RepoKeyCollision[]>([])
   const [pendingAnalysis, setPendingAnalysis] = useState(false)
   
   // Returning user state
   const [isReturningUser, setIsReturningUser] = useState(false)
   const [showRestorePrompt, setShowRestorePrompt] = useState(false)
   const [hasWrappedData, setHasWrappedData] = useState(false)
+  
+  // Current (or interrupted) analysis run, and the SSE stream of its job
+  const [analysisRun, setAnalysisRun] = useState<AnalysisRun | null>(null)
+  const jobSubscriptionRef = useRef<(() => void) | null>(null)
+  
+  // GitHub API quota (refreshed by the running job) and whether its queue is paused
+  const [rateLimit, setRateLimit] = useState<GitHubRateLimit | null>(null)
+  const [queuePaused, setQueuePaused] = useState(false)
+  // AI tokens used and estimated cost (refreshed when a run ends)
+  const [aiUsage, setAiUsage] = useState<AIUsageSummary | null>(null)
 
   useEffect(() => {
     if (status === 'unauthenticated') {
       router.push('/')
     } else if (status === 'authenticated') {
-      // Check if returning user
-      const hasPrefs = hasExistingPreferences()
-      setIsReturningUser(hasPrefs)
+      // Pull preferences/results saved from other browsers before reading them
+      Promise.all([syncPreferences(), syncWrappedResults()]).then(() => {
+        // Check if returning user
+        const hasPrefs = hasExistingPreferences()
+        setIsReturningUser(hasPrefs)
       
-      // Check if wrapped data exists
-      const wrappedRepos = localStorage.getItem('analyzedRepositories')
-      if (wrappedRepos) {
-        try {
-          const repos = JSON.parse(wrappedRepos)
-          setHasWrappedData(Array.isArray(repos) && repos.length > 0)
-        } catch {
-          setHasWrappedData(false)
+        // Check if wrapped data exists
+        const wrappedRepos = localStorage.getItem('analyzedRepositories')
+        if (wrappedRepos) {
+          try {
+            const repos = JSON.parse(wrappedRepos)
+            setHasWrappedData(Array.isArray(repos) && repos.length > 0)
+          } catch {
+            setHasWrappedData(false)
+          }
         }
-      }
       
-      if (hasPrefs) {
-        // Load existing preferences
-        const prefs = loadPreferences()
-        setDevelopmentMode(prefs.defaultMode)
-        setCustomGroups(prefs.customGroups)
-        setShowModeSelector(false) // Don't show selector if they already chose
-        setShowRestorePrompt(true)
-      }
+        if (hasPrefs) {
+          // Load existing preferences
+          const prefs = loadPreferences()
+          setDevelopmentMode(prefs.defaultMode)
+          setCustomGroups(prefs.customGroups)
+          setShowModeSelector(false) // Don't show selector if they already chose
+          setShowRestorePrompt(true)
+        }
       
-      fetchRepositories()
+        setWrappedYearState(getWrappedYear())
+      
+        const storedScope = getAuthorScope()
+        setAuthorScopeState(storedScope)
+        if (Array.isArray(storedScope)) {
+          setAuthorLoginsInput(storedScope.join(', '))
+        }
+      
+        fetchRateLimit().then(setRateLimit)
+        fetchAIUsage().then(setAiUsage)
+        fetchRepositories(discovery).then(() => {
+          // An analysis started before a reload (or in a closed tab) may still be running
+          const run = getAnalysisRun()
+          setAnalysisRun(run)
+          if (run?.status === 'running') {
+            if (run.jobId) followAnalysisJob(run.jobId, run.year)
+            else interruptAnalysis('The analysis was interrupted before it started.')
+          }
+        })
+      })
     }
   }, [status, router])
 
-  const fetchRepositories = async () => {
+  // Stop following the job (it keeps running on the server) when leaving the page
+  useEffect(() => {
+    return () => jobSubscriptionRef.current?.()
+  }, [])
+
+  const fetchRepositories = async (options: DiscoveryOptions = discovery) => {
     try {
       setLoading(true)
-      const response = await fetch('/api/github/repositories')
+      const params = new URLSearchParams()
+      if (options.includeForks) params.set('includeForks', 'true')
+      if (!options.includeArchived) params.set('includeArchived', 'false')
+      if (options.includeContributed) params.set('includeContributed', 'true')
+      
+      const response = await fetch(`/api/github/repositories?${params.toString()}`)
       const data = await response.json()
       
       if (data.error) {
@@ -163,7 +271,7 @@ export default function Dashboard() {
       
       // Apply preferences to repositories
       const reposWithPrefs: RepoWithPrefs[] = data.repositories.map((repo: any) => {
-        const repoPref = prefs.repos[repo.name] || {}
+        const repoPref = prefs.repos[repo.full_name] || {}
         return {
           ...repo,
           selected: repoPref.selected || false,
@@ -178,6 +286,7 @@ export default function Dashboard() {
       
       setRepositories(reposWithPrefs)
       setCustomGroups(prefs.customGroups)
+      setRepoKeyCollisions(getRepoKeyCollisions(data.repositories))
     } catch (err: any) {
       setError(err.message)
     } finally {
@@ -191,7 +300,7 @@ export default function Dashboard() {
         if (repo.id === repoId) {
           const newSelected = !repo.selected
           // Persist selection state
-          setRepoPreference(repo.name, { selected: newSelected })
+          setRepoPreference(repo.full_name, { selected: newSelected })
           return { ...repo, selected: newSelected }
         }
         return repo
@@ -200,11 +309,11 @@ export default function Dashboard() {
   }
 
   // Toggle AI-assisted badge on a repo
-  const handleToggleAiAssisted = (repoName: string) => {
-    const newValue = toggleAiAssisted(repoName)
+  const handleToggleAiAssisted = (repoKey: string) => {
+    const newValue = toggleAiAssisted(repoKey)
     setRepositories(repos =>
       repos.map(repo =>
-        repo.name === repoName ? { ...repo, aiAssisted: newValue } : repo
+        repo.full_name === repoKey ? { ...repo, aiAssisted: newValue } : repo
       )
     )
   }
@@ -251,14 +360,14 @@ export default function Dashboard() {
 
   // Save repo details from modal
   const saveRepoDetails = (
-    repoName: string,
+    repoKey: string,
     updates: { aiAssisted: boolean; narrative?: string; customGroup?: string }
   ) => {
-    setRepoPreference(repoName, updates)
+    setRepoPreference(repoKey, updates)
     
     setRepositories(repos =>
       repos.map(repo =>
-        repo.name === repoName
+        repo.full_name === repoKey
           ? { ...repo, ...updates }
           : repo
       )
@@ -278,6 +387,47 @@ export default function Dashboard() {
     setShowNewGroupModal(false)
   }
 
+  // Read a preferences file and show what importing it would change
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = '' // Allow re-selecting the same file
+    if (!file) return
+    
+    try {
+      setImportError(null)
+      setImportPreview(previewPreferencesImport(await file.text()))
+    } catch (err: any) {
+      setImportPreview(null)
+      setImportError(err.message || 'Could not read preferences file')
+    }
+  }
+
+  // Merge the previewed preferences and refresh the UI from the result
+  const handleApplyImport = () => {
+    if (!importPreview) return
+    
+    applyPreferencesImport(importPreview.preferences)
+    // Match any bare-name repos from older files against the loaded repos
+    const prefs = mergeWithExistingPreferences(repositories)
+    setDevelopmentMode(prefs.defaultMode)
+    setShowModeSelector(false)
+    setCustomGroups(prefs.customGroups)
+    setRepositories(repos =>
+      repos.map(repo => prefs.repos[repo.full_name] ? applyRepoPreference(repo, prefs.repos[repo.full_name]) : repo)
+    )
+    setRepoKeyCollisions(getRepoKeyCollisions(repositories))
+    setImportPreview(null)
+  }
+
+  // Apply a legacy bare-name preference to the chosen repos (none = discard)
+  const handleResolveCollision = (collision: RepoKeyCollision, fullNames: string[]) => {
+    const prefs = resolveRepoKeyCollision(collision.repoName, fullNames)
+    setRepositories(repos =>
+      repos.map(repo => fullNames.includes(repo.full_name) ? applyRepoPreference(repo, prefs.repos[repo.full_name]) : repo)
+    )
+    setRepoKeyCollisions(collisions => collisions.filter(c => c.repoName !== collision.repoName))
+  }
+
   // Handle reset preferences
   const handleResetPreferences = () => {
     resetAllPreferences()
@@ -298,6 +448,45 @@ export default function Dashboard() {
     )
   }
 
+  // Toggle a discovery option and refetch the repository list
+  const handleDiscoveryChange = (key: keyof DiscoveryOptions) => {
+    const updated = { ...discovery, [key]: !discovery[key] }
+    setDiscovery(updated)
+    fetchRepositories(updated)
+  }
+
+  // Handle wrapped year change
+  const handleWrappedYearChange = (year: number) => {
+    setWrappedYearState(year)
+    setWrappedYear(year)
+  }
+
+  const applyAuthorScope = (scope: AuthorScope) => {
+    setAuthorScopeState(scope)
+    setAuthorScope(scope)
+  }
+
+  // Handle author scope change ('custom' switches to an explicit login list)
+  const handleAuthorScopeChange = (value: string) => {
+    if (value !== 'custom') {
+      setShowCustomAuthors(false)
+      applyAuthorScope(value as AuthorScope)
+      return
+    }
+
+    if (!Array.isArray(authorScope)) scopeBeforeCustomRef.current = authorScope
+    setShowCustomAuthors(true)
+    const logins = authorLoginsInput.split(',').map(l => l.trim()).filter(Boolean)
+    if (logins.length > 0) applyAuthorScope(logins)
+  }
+
+  const handleAuthorLoginsChange = (input: string) => {
+    setAuthorLoginsInput(input)
+    const logins = input.split(',').map(l => l.trim()).filter(Boolean)
+    // An empty list would count everyone - keep the earlier scope until someone is named
+    applyAuthorScope(logins.length > 0 ? logins : scopeBeforeCustomRef.current)
+  }
+
   // Get unique languages and years for filter dropdowns
   const languages = [...new Set(repositories.map(r => r.language).filter(Boolean))] as string[]
   const years = [...new Set(repositories.map(r => new Date(r.created_at).getFullYear()))].sort((a, b) => b - a)
@@ -324,7 +513,7 @@ export default function Dashboard() {
     setRepositories(repos =>
       repos.map(repo => {
         if (filteredIds.has(repo.id)) {
-          prefs.repos[repo.name] = { ...prefs.repos[repo.name], selected: true }
+          prefs.repos[repo.full_name] = { ...prefs.repos[repo.full_name], selected: true }
           return { ...repo, selected: true }
         }
         return repo
@@ -341,7 +530,7 @@ export default function Dashboard() {
     setRepositories(repos =>
       repos.map(repo => {
         if (filteredIds.has(repo.id)) {
-          prefs.repos[repo.name] = { ...prefs.repos[repo.name], selected: false }
+          prefs.repos[repo.full_name] = { ...prefs.repos[repo.full_name], selected: false }
           return { ...repo, selected: false }
         }
         return repo
@@ -355,246 +544,265 @@ export default function Dashboard() {
   const allFilteredSelected = filteredRepositories.length > 0 && 
     filteredSelectedCount === filteredRepositories.length
 
-  // Analyze a single repo - returns the analyzed result
-  const analyzeRepo = async (repo: RepoWithPrefs): Promise<RepoWithPrefs> => {
-    // Fetch stats
-    setProgress(p => ({ ...p, currentStep: `Fetching stats for ${repo.name}...` }))
+  // Store a finished analysis for the wrapped page
+  const finishAnalysis = (analyzedResults: AnalyzedRepository[], analysisData: any, year: number) => {
+    // Mark all analyzed repos as scanned
+    markReposScanned(analyzedResults.map(r => r.full_name))
     
-    const statsRes = await fetch('/api/github/stats', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        owner: repo.owner.login,
-        repo: repo.name,
-      }),
-    })
-    const stats = await statsRes.json()
+    // Reload preferences to update UI with scan timestamps
+    const updatedPrefs = loadPreferences()
+    setRepositories(repos =>
+      repos.map(repo => ({
+        ...repo,
+        lastScanned: updatedPrefs.repos[repo.full_name]?.lastScanned,
+        scanCount: updatedPrefs.repos[repo.full_name]?.scanCount,
+      }))
+    )
 
-    // Generate AI summary - include user narrative if provided
-    setProgress(p => ({ ...p, currentStep: `Generating AI summary for ${repo.name}...` }))
-    
-    const repoPref = getRepoPreference(repo.name)
-    
-    const analyzeRes = await fetch('/api/github/analyze', {
-      method: 'POST',
-      headers: getAIHeaders(),
-      body: JSON.stringify({
-        repoName: repo.name,
-        description: repo.description,
-        stats: {
-          ...stats,
-          primaryLanguage: repo.language,
-        },
-        readme: stats.readme,
-        commitMessages: stats.commitMessages,
-        narrative: repoPref.narrative, // Include user narrative for AI context
-      }),
+    // Store analyzed repositories, groups, and insights for wrapped page (synced to the server)
+    saveWrappedResults({
+      analyzedRepositories: analyzedResults,
+      repositoryGroups: analysisData.groups || [],
+      featuredProjects: analysisData.featuredProjects || [],
+      yearNarrative: analysisData.yearNarrative || null,
+      aiInsights: analysisData.aiInsights || null,
+      achievements: analysisData.achievements || [],
+      developmentPattern: analysisData.developmentPattern || null,
+      detectedStats: analysisData.detectedStats || null,
+      wrappedYear: year,
+      yearOverYear: analysisData.yearOverYear || null,
     })
+    setHasWrappedData(true)
     
-    // Check if BYOK is required
-    if (analyzeRes.status === 403) {
-      const errorData = await analyzeRes.json()
-      if (errorData.code === 'BYOK_REQUIRED') {
-        throw new Error('BYOK_REQUIRED')
-      }
-    }
-    
-    const { summary } = await analyzeRes.json()
+    // Keep this year's headline numbers for future year-over-year comparisons
+    saveSnapshot(buildWrappedSnapshot({
+      year,
+      repositories: analyzedResults,
+      repoPreferences: updatedPrefs.repos,
+      developmentMode: updatedPrefs.defaultMode,
+      timeZone: getLocalTimeZone(),
+      narrativeTitle: analysisData.yearNarrative?.title,
+      yearOverYear: analysisData.yearOverYear || undefined,
+    }))
+  }
 
-    return {
-      ...repo,
-      stats,
-      aiSummary: summary,
-      analyzing: false,
-    }
+  // Apply a change to the stored run and mirror it into state
+  const updateAnalysisRun = (change: (run: AnalysisRun) => AnalysisRun) => {
+    const run = getAnalysisRun()
+    if (!run) return
+    const updated = change(run)
+    saveAnalysisRun(updated)
+    setAnalysisRun(updated)
   }
 
-  const analyzeRepositories = async () => {
-    const selectedRepos = repositories.filter(r => r.selected)
-    
-    if (selectedRepos.length === 0) {
-      alert('Please select at least one repository')
-      return
-    }
-    
-    // Check if API key is needed before starting
-    // Try a quick check by attempting to analyze - if it fails with BYOK_REQUIRED, show modal
-    if (!getStoredApiKey()) {
-      // Do a pre-flight check to see if user is allowlisted
-      try {
-        const checkRes = await fetch('/api/github/analyze', {
-          method: 'POST',
-          headers: getAIHeaders(),
-          body: JSON.stringify({ repoName: '__check__', stats: {} }),
+  const resetProgress = () => {
+    setProgress({ phase: 'idle', currentRepo: '', completedCount: 0, totalCount: 0, currentStep: '' })
+    setQueuePaused(false)
+    setRepositories(repos => repos.map(r => r.analyzing ? { ...r, analyzing: false } : r))
+  }
+
+  // Job stopped early - keep finished repos so the run can be resumed
+  const interruptAnalysis = (message: string) => {
+    jobSubscriptionRef.current = null
+    updateAnalysisRun(run => ({ ...run, jobId: null, status: 'interrupted', message }))
+    resetProgress()
+    fetchAIUsage().then(setAiUsage)
+  }
+
+  // Follow a server-side analysis job (replays earlier events, so this also reconnects)
+  const followAnalysisJob = (jobId: string, year: number) => {
+    jobSubscriptionRef.current?.()
+
+    jobSubscriptionRef.current = subscribeToAnalysisJob(jobId, {
+      onStart: data => {
+        setQueuePaused(false)
+        setProgress({
+          phase: 'fetching-stats',
+          currentRepo: '',
+          completedCount: data.completed,
+          totalCount: data.total,
+          currentStep: 'Starting analysis...',
         })
-        if (checkRes.status === 403) {
-          const data = await checkRes.json()
-          if (data.code === 'BYOK_REQUIRED') {
-            setPendingAnalysis(true)
-            setShowApiKeyModal(true)
-            return
-          }
+      },
+      onRepo: data => {
+        const currentStep = data.stage === 'stats' ? `Fetching stats for ${data.name}...`
+          : data.stage === 'summary' ? `Generating AI summary for ${data.name}...`
+          : data.stage === 'error' ? `Failed to analyze ${data.name}`
+          : `Analyzed ${data.name}`
+        setProgress(p => ({
+          ...p,
+          currentRepo: data.name,
+          completedCount: data.completed,
+          totalCount: data.total,
+          currentStep,
+        }))
+
+        // Update UI as each repo moves through the pipeline
+        setRepositories(repos =>
+          repos.map(r => {
+            if (r.full_name !== data.fullName) return r
+            if (data.stage === 'done' && data.repository) {
+              return { ...r, stats: data.repository.stats, aiSummary: data.repository.aiSummary, error: undefined, analyzing: false }
+            }
+            if (data.stage === 'error') return { ...r, error: data.error, analyzing: false }
+            return { ...r, analyzing: true }
+          })
+        )
+        updateAnalysisRun(run => recordRepoEvent(run, data))
+
+        // Mirror real AI summaries locally (fallback/heuristic ones are cheap to regenerate)
+        const summary = data.repository?.aiSummary
+        if (data.cacheKey && summary && (data.summarySource === 'ai' || data.summarySource === 'cached')) {
+          mirrorSummary(data.cacheKey, summary)
         }
-      } catch {
-        // Continue anyway, will fail gracefully
-      }
-    }
+      },
+      onPhase: data => {
+        setProgress(p => ({ ...p, phase: 'generating-ai', currentStep: data.message }))
+      },
+      onQueue: data => {
+        setQueuePaused(data.paused)
+        setProgress(p => ({
+          ...p,
+          currentStep: data.paused ? 'Paused - repos in progress will finish' : 'Resuming analysis...',
+        }))
+      },
+      onRateLimit: setRateLimit,
+      onComplete: data => {
+        jobSubscriptionRef.current = null
+        setQueuePaused(false)
+        finishAnalysis(data.repositories, data.analysis, year)
+        fetchAIUsage().then(setAiUsage)
+
+        // Failed repos are left out of the wrapped - stay here so they can be retried
+        if (data.failed.length > 0) {
+          updateAnalysisRun(run => ({ ...run, jobId: null, status: 'complete', message: undefined }))
+          resetProgress()
+          return
+        }
+
+        clearAnalysisRun()
+        setAnalysisRun(null)
+        setProgress(p => ({ ...p, phase: 'complete', currentStep: 'Analysis complete!' }))
+        router.push('/wrapped')
+      },
+      onFailed: data => interruptAnalysis(`Analysis failed: ${data.error}`),
+      onCancelled: () => interruptAnalysis('Analysis cancelled.'),
+      onLost: () => interruptAnalysis('The analysis was interrupted (the server may have restarted).'),
+    })
+  }
 
-    // Initialize progress
+  // Start a job for some of the run's repos; the run's finished repos are regrouped, not redone
+  const startRunJob = async (run: AnalysisRun, reposToAnalyze: RepoWithPrefs[]): Promise<boolean> => {
     setProgress({
       phase: 'fetching-stats',
       currentRepo: '',
-      completedCount: 0,
-      totalCount: selectedRepos.length,
+      completedCount: Object.keys(run.completed).length,
+      totalCount: run.repos.length,
       currentStep: 'Starting analysis...',
     })
 
-    // Mark all selected as analyzing
+    // Mark the repos being analyzed
     setRepositories(repos =>
-      repos.map(r => r.selected ? { ...r, analyzing: true } : r)
+      repos.map(r => reposToAnalyze.some(repo => repo.id === r.id) ? { ...r, analyzing: true, error: undefined } : r)
     )
 
-    const analyzedResults: AnalyzedRepository[] = []
-    const BATCH_SIZE = 8 // Process 8 repos in parallel for speed
-
-    // Process in batches for efficiency
-    for (let i = 0; i < selectedRepos.length; i += BATCH_SIZE) {
-      const batch = selectedRepos.slice(i, i + BATCH_SIZE)
-      
-      setProgress(p => ({
-        ...p,
-        currentStep: `Processing batch ${Math.floor(i / BATCH_SIZE) + 1} of ${Math.ceil(selectedRepos.length / BATCH_SIZE)}...`,
-      }))
-
-      // Process batch in parallel
-      const batchPromises = batch.map(async (repo) => {
-        try {
-          const result = await analyzeRepo(repo)
-          
-          // Update UI as each repo completes
-          setRepositories(repos =>
-            repos.map(r => r.id === repo.id ? result : r)
-          )
-          
-          setProgress(p => ({
-            ...p,
-            completedCount: p.completedCount + 1,
-          }))
-          
-          return result
-        } catch (err: any) {
-          console.error(`Error analyzing ${repo.name}:`, err)
-          
-          // Update UI with error
-          setRepositories(repos =>
-            repos.map(r =>
-              r.id === repo.id
-                ? { ...r, error: err.message, analyzing: false }
-                : r
-            )
-          )
-          
-          setProgress(p => ({
-            ...p,
-            completedCount: p.completedCount + 1,
-          }))
-          
-          return null
-        }
-      })
-
-      // Wait for batch to complete
-      const batchResults = await Promise.all(batchPromises)
-      
-      // Add successful results
-      batchResults.forEach(result => {
-        if (result) analyzedResults.push(result)
+    // The server runs stats -> analyze -> group; closing the tab doesn't stop it
+    let jobId: string
+    try {
+      jobId = await startAnalysisJob({
+        repositories: reposToAnalyze,
+        completedRepositories: Object.values(run.completed),
+        year: run.year,
+        authorScope: run.authorScope,
+        userPreferences: loadPreferences(), // Narratives and overrides for AI context
+        previousYear: getPreviousSnapshot(run.year), // For the "what changed" narrative
+        timeZone: getLocalTimeZone(), // Coding rhythm is bucketed by local hour
       })
+    } catch (err: any) {
+      resetProgress()
+      if (err.message === 'BYOK_REQUIRED') {
+        setShowApiKeyModal(true)
+        return false
+      }
+      console.error('Error starting analysis:', err)
+      alert(`Could not start the analysis: ${err.message}`)
+      return false
     }
 
-    // Calculate total stats to pass to grouping API
-    const totalStats = analyzedResults.reduce(
-      (acc: any, repo: any) => {
-        if (repo.stats) {
-          acc.totalCommits += repo.stats.commits || 0
-          acc.totalAdditions += repo.stats.additions || 0
-          acc.totalDeletions += repo.stats.deletions || 0
-          acc.totalNet += repo.stats.net || 0
-        }
-        return acc
-      },
-      { totalCommits: 0, totalAdditions: 0, totalDeletions: 0, totalNet: 0 }
-    )
-
-    // Now call the grouping API to categorize all repos and generate insights
-    setProgress(p => ({
-      ...p,
-      currentStep: 'Generating intelligent groupings and year insights...',
-    }))
+    updateAnalysisRun(current => ({ ...current, jobId, status: 'running', message: undefined }))
+    followAnalysisJob(jobId, run.year)
+    return true
+  }
 
-    let analysisData: any = { groups: [] }
-    try {
-      // Include user preferences for the grouping API
-      const userPreferences = loadPreferences()
-      
-      const groupRes = await fetch('/api/github/group', {
-        method: 'POST',
-        headers: getAIHeaders(),
-        body: JSON.stringify({ 
-          repositories: analyzedResults,
-          totalStats,
-          userPreferences, // Pass user preferences for AI context
-        }),
-      })
-      
-      // Check if BYOK is required
-      if (groupRes.status === 403) {
-        const errorData = await groupRes.json()
-        if (errorData.code === 'BYOK_REQUIRED') {
+  const analyzeRepositories = async () => {
+    const selectedRepos = repositories.filter(r => r.selected)
+    
+    if (selectedRepos.length === 0) {
+      alert('Please select at least one repository')
+      return
+    }
+    
+    // Ask for an API key up front unless the user is allowlisted (by login, org or team)
+    if (!hasAISettings()) {
+      try {
+        const access = await fetchAIAccess()
+        if (access.byokRequired) {
           setPendingAnalysis(true)
           setShowApiKeyModal(true)
           return
         }
+      } catch {
+        // Continue anyway - the job start still answers BYOK_REQUIRED
       }
-      
-      analysisData = await groupRes.json()
-    } catch (err) {
-      console.error('Error analyzing repositories:', err)
-      // Fallback to no grouping/insights
     }
 
-    // Complete
-    setProgress(p => ({
-      ...p,
-      phase: 'complete',
-      currentStep: 'Analysis complete!',
-    }))
+    // A new run replaces any interrupted one
+    const run = createAnalysisRun(wrappedYear, authorScope, selectedRepos.map(r => r.full_name))
+    saveAnalysisRun(run)
+    setAnalysisRun(run)
 
-    // Mark all analyzed repos as scanned
-    markReposScanned(analyzedResults.map(r => r.name))
-    
-    // Reload preferences to update UI with scan timestamps
-    const updatedPrefs = loadPreferences()
-    setRepositories(repos =>
-      repos.map(repo => ({
-        ...repo,
-        lastScanned: updatedPrefs.repos[repo.name]?.lastScanned,
-        scanCount: updatedPrefs.repos[repo.name]?.scanCount,
-      }))
-    )
+    if (!(await startRunJob(run, selectedRepos))) {
+      clearAnalysisRun()
+      setAnalysisRun(null)
+    }
+  }
 
-    // Store analyzed repositories, groups, and insights in localStorage for wrapped page
-    localStorage.setItem('analyzedRepositories', JSON.stringify(analyzedResults))
-    localStorage.setItem('repositoryGroups', JSON.stringify(analysisData.groups || []))
-    localStorage.setItem('featuredProjects', JSON.stringify(analysisData.featuredProjects || []))
-    localStorage.setItem('yearNarrative', JSON.stringify(analysisData.yearNarrative || null))
-    localStorage.setItem('aiInsights', JSON.stringify(analysisData.aiInsights || null))
-    localStorage.setItem('achievements', JSON.stringify(analysisData.achievements || []))
-    localStorage.setItem('developmentPattern', JSON.stringify(analysisData.developmentPattern || null))
-    localStorage.setItem('detectedStats', JSON.stringify(analysisData.detectedStats || null))
-    
-    // Navigate to wrapped page
-    router.push('/wrapped')
+  // Pick an interrupted run back up: only repos that haven't finished are analyzed
+  const resumeAnalysis = () => {
+    if (!analysisRun) return
+    const pending = getPendingRepos(analysisRun)
+    startRunJob(analysisRun, repositories.filter(r => pending.includes(r.full_name)))
+  }
+
+  // Re-analyze only the repos that errored, then regroup with the ones that succeeded
+  const retryFailedRepos = () => {
+    if (!analysisRun) return
+    startRunJob(analysisRun, repositories.filter(r => !!analysisRun.failed[r.full_name]))
+  }
+
+  const cancelAnalysis = async () => {
+    const run = getAnalysisRun()
+    if (!run?.jobId) return
+    setProgress(p => ({ ...p, currentStep: 'Cancelling...' }))
+
+    // Normally the job answers with a 'cancelled' event; if the server lost it, stop here
+    const cancelled = await cancelAnalysisJob(run.jobId).catch(() => false)
+    if (!cancelled) {
+      jobSubscriptionRef.current?.()
+      interruptAnalysis('Analysis cancelled.')
+    }
+  }
+
+  // Hold the queue, e.g. until the GitHub quota resets (the job confirms with a 'queue' event)
+  const toggleQueuePaused = async () => {
+    const run = getAnalysisRun()
+    if (!run?.jobId) return
+    await setAnalysisJobPaused(run.jobId, !queuePaused).catch(() => false)
+  }
+
+  const discardAnalysisRun = () => {
+    clearAnalysisRun()
+    setAnalysisRun(null)
   }
 
   if (status === 'loading' || loading) {
@@ -611,7 +819,7 @@ export default function Dashboard() {
       <div className={styles.error}>
         <h2>Error</h2>
         <p>{error}</p>
-        <button onClick={fetchRepositories} className="btn btn-primary">
+        <button onClick={() => fetchRepositories()} className="btn btn-primary">
           Retry
         </button>
       </div>
@@ -649,6 +857,27 @@ export default function Dashboard() {
                 🎁 View Wrapped
               </button>
             )}
+            <button 
+              onClick={() => downloadPreferences()} 
+              className={`btn btn-secondary ${styles.settingsBtn}`}
+              title="Export Preferences"
+            >
+              📤
+            </button>
+            <button 
+              onClick={() => importInputRef.current?.click()} 
+              className={`btn btn-secondary ${styles.settingsBtn}`}
+              title="Import Preferences"
+            >
+              📥
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImportFile}
+              style={{ display: 'none' }}
+            />
             <button 
               onClick={() => setShowResetModal(true)} 
               className={`btn btn-secondary ${styles.settingsBtn}`}
@@ -680,6 +909,48 @@ export default function Dashboard() {
           </div>
         )}
 
+        {/* Interrupted run, or a finished one with failed repos */}
+        {analysisRun && analysisRun.status !== 'running' && progress.phase === 'idle' && (() => {
+          const finishedCount = Object.keys(analysisRun.completed).length
+          const failedNames = Object.keys(analysisRun.failed)
+          return (
+            <div className={`glass-card ${styles.runBanner}`}>
+              <div className={styles.runBannerText}>
+                {analysisRun.status === 'interrupted' ? (
+                  <span>
+                    ⏸️ {analysisRun.message} {finishedCount} of {analysisRun.repos.length} repositories
+                    were finished and will be kept.
+                  </span>
+                ) : (
+                  <span>
+                    ⚠️ {failedNames.length} {failedNames.length === 1 ? 'repository' : 'repositories'} failed
+                    and {failedNames.length === 1 ? 'was' : 'were'} left out of your wrapped: {failedNames.join(', ')}
+                  </span>
+                )}
+              </div>
+              <div className={styles.runBannerActions}>
+                {analysisRun.status === 'interrupted' ? (
+                  <button onClick={resumeAnalysis} className="btn btn-primary">
+                    ▶️ Resume
+                  </button>
+                ) : (
+                  <>
+                    <button onClick={retryFailedRepos} className="btn btn-primary">
+                      🔁 Retry failed
+                    </button>
+                    <button onClick={() => router.push('/wrapped')} className="btn btn-secondary">
+                      View Wrapped
+                    </button>
+                  </>
+                )}
+                <button onClick={discardAnalysisRun} className={styles.dismissBtn} title="Discard this run">
+                  ✕
+                </button>
+              </div>
+            </div>
+          )
+        })()}
+
         {/* Development Style Selector */}
         {showModeSelector && (
           <div className={`glass-card ${styles.modeSelector}`}>
@@ -773,6 +1044,65 @@ export default function Dashboard() {
                 <option key={year} value={year.toString()}>{year}</option>
               ))}
             </select>
+            
+            <select
+              value={wrappedYear}
+              onChange={(e) => handleWrappedYearChange(parseInt(e.target.value))}
+              className={styles.filterSelect}
+              title="Only commits and lines from this year are counted"
+            >
+              {getSelectableYears().map(year => (
+                <option key={year} value={year}>Wrapped {year}</option>
+              ))}
+            </select>
+            
+            <select
+              value={Array.isArray(authorScope) || showCustomAuthors ? 'custom' : authorScope}
+              onChange={(e) => handleAuthorScopeChange(e.target.value)}
+              className={styles.filterSelect}
+              title="Whose commits and lines count toward your stats"
+            >
+              <option value="me">My commits</option>
+              <option value="all">All contributors</option>
+              <option value="custom">Specific people…</option>
+            </select>
+            
+            {(Array.isArray(authorScope) || showCustomAuthors) && (
+              <input
+                type="text"
+                placeholder="GitHub logins, comma-separated"
+                value={authorLoginsInput}
+                onChange={(e) => handleAuthorLoginsChange(e.target.value)}
+                className={styles.searchInput}
+              />
+            )}
+          </div>
+          
+          <div className={styles.discoveryToggles}>
+            <label className={styles.discoveryToggle}>
+              <input
+                type="checkbox"
+                checked={discovery.includeForks}
+                onChange={() => handleDiscoveryChange('includeForks')}
+              />
+              Forks
+            </label>
+            <label className={styles.discoveryToggle}>
+              <input
+                type="checkbox"
+                checked={discovery.includeArchived}
+                onChange={() => handleDiscoveryChange('includeArchived')}
+              />
+              Archived
+            </label>
+            <label className={styles.discoveryToggle} title="Repos you opened pull requests against">
+              <input
+                type="checkbox"
+                checked={discovery.includeContributed}
+                onChange={() => handleDiscoveryChange('includeContributed')}
+              />
+              PR contributions
+            </label>
           </div>
           
           <div className={styles.selectionControls}>
@@ -817,7 +1147,7 @@ export default function Dashboard() {
                       className={`${styles.aiBadge} ${isAi ? styles.aiMode : styles.manualMode}`}
                       onClick={(e) => {
                         e.stopPropagation()
-                        handleToggleAiAssisted(repo.name)
+                        handleToggleAiAssisted(repo.full_name)
                       }}
                       title={isAi ? 'AI-Assisted (click to toggle)' : 'Manual (click to toggle)'}
                     >
@@ -837,6 +1167,20 @@ export default function Dashboard() {
                 <span>📅 {new Date(repo.created_at).getFullYear()}</span>
               </div>
 
+              {/* Where this repo came from */}
+              {(repo.source || repo.fork || repo.archived) && (
+                <div className={styles.sourceRow}>
+                  {repo.source && (
+                    <span className={styles.sourceBadge} title={repo.full_name}>
+                      {SOURCE_LABELS[repo.source]}
+                      {repo.source !== 'owner' && ` · ${repo.owner.login}`}
+                    </span>
+                  )}
+                  {repo.fork && <span className={styles.sourceBadge}>🍴 Fork</span>}
+                  {repo.archived && <span className={styles.sourceBadge}>📦 Archived</span>}
+                </div>
+              )}
+
               {/* Scan Status */}
               {repo.lastScanned && (
                 <div className={styles.scanStatus}>
@@ -873,9 +1217,31 @@ export default function Dashboard() {
         </div>
 
         <div className={styles.footer}>
-          <p className={styles.selectionInfo}>
-            {selectedCount} {selectedCount === 1 ? 'repository' : 'repositories'} selected
-          </p>
+          <div className={styles.footerInfo}>
+            <p className={styles.selectionInfo}>
+              {selectedCount} {selectedCount === 1 ? 'repository' : 'repositories'} selected
+            </p>
+            {rateLimit && (
+              <p
+                className={`${styles.rateLimitInfo} ${isRateLimitLow(rateLimit) ? styles.low : ''}`}
+                title="Remaining GitHub API requests this hour"
+              >
+                {isRateLimitLow(rateLimit) ? '⚠️' : '⏱️'} GitHub API: {rateLimit.remaining.toLocaleString()}/{rateLimit.limit.toLocaleString()} left
+                · resets {formatRateLimitReset(rateLimit)}
+              </p>
+            )}
+            {aiUsage && (aiUsage.month.requests > 0 || aiUsage.quota.exceeded) && (
+              <p
+                className={`${styles.rateLimitInfo} ${isAIQuotaNear(aiUsage.quota) ? styles.low : ''}`}
+                title={aiUsage.quota.message || 'Estimated from list prices - quotas count only AI runs on the server\'s key'}
+              >
+                {isAIQuotaNear(aiUsage.quota) ? '⚠️' : '🤖'} AI: {formatTokenCount(aiUsage.today.totalTokens)} tokens today
+                (~{formatCost(aiUsage.today.costUsd)}) · {formatTokenCount(aiUsage.month.totalTokens)} this month
+                (~{formatCost(aiUsage.month.costUsd)})
+                {describeQuotaUsage(aiUsage.quota) && ` · quota ${describeQuotaUsage(aiUsage.quota)}`}
+              </p>
+            )}
+          </div>
           
           {progress.phase !== 'idle' && (
             <div className={styles.progressInfo}>
@@ -891,6 +1257,23 @@ export default function Dashboard() {
             </div>
           )}
           
+          {(progress.phase === 'fetching-stats' || progress.phase === 'generating-ai') && analysisRun?.jobId && (
+            <>
+              {progress.phase === 'fetching-stats' && (
+                <button
+                  onClick={toggleQueuePaused}
+                  className="btn btn-secondary"
+                  title={rateLimit && isRateLimitLow(rateLimit) ? 'GitHub API quota is low - pause until it resets' : undefined}
+                >
+                  {queuePaused ? '▶️ Resume' : '⏸️ Pause'}
+                </button>
+              )}
+              <button onClick={cancelAnalysis} className="btn btn-secondary">
+                Cancel
+              </button>
+            </>
+          )}
+          
           <button
             onClick={analyzeRepositories}
             disabled={selectedCount === 0 || progress.phase !== 'idle'}
@@ -1000,6 +1383,117 @@ export default function Dashboard() {
         </div>
       )}
       
+      {/* Repo Key Collision Modal */}
+      {repoKeyCollisions.length > 0 && !importPreview && !importError && (() => {
+        const collision = repoKeyCollisions[0]
+        return (
+          <div className={styles.modalOverlay}>
+            <div className={`glass-card ${styles.modal}`} onClick={e => e.stopPropagation()}>
+              <div className={styles.modalHeader}>
+                <h3>🔀 Which {collision.repoName}?</h3>
+              </div>
+              <div className={styles.modalBody}>
+                <p>
+                  Your settings for <strong>{collision.repoName}</strong> were saved before repos with the
+                  same name under different owners were told apart. Which repos should they apply to?
+                </p>
+                <ul className={styles.resetList}>
+                  {collision.preference.aiAssisted !== undefined && (
+                    <li>{collision.preference.aiAssisted ? '🤖 AI-Assisted' : '👤 Manual'}</li>
+                  )}
+                  {collision.preference.customGroup && <li>Group: {collision.preference.customGroup}</li>}
+                  {collision.preference.narrative && <li>Narrative: {collision.preference.narrative}</li>}
+                  {collision.preference.deploymentUrls.length > 0 && (
+                    <li>Deployment URLs: {collision.preference.deploymentUrls.map(u => u.url).join(', ')}</li>
+                  )}
+                </ul>
+                <div className={styles.collisionChoices}>
+                  {collision.candidates.map(fullName => (
+                    <button
+                      key={fullName}
+                      onClick={() => handleResolveCollision(collision, [fullName])}
+                      className="btn btn-secondary"
+                    >
+                      {fullName}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className={styles.modalFooter}>
+                <button onClick={() => handleResolveCollision(collision, [])} className={`btn ${styles.dangerBtn}`}>
+                  Discard
+                </button>
+                <button onClick={() => handleResolveCollision(collision, collision.candidates)} className="btn btn-primary">
+                  All of them
+                </button>
+              </div>
+            </div>
+          </div>
+        )
+      })()}
+      
+      {/* Import Preferences Modal */}
+      {(importPreview || importError) && (
+        <div className={styles.modalOverlay} onClick={() => { setImportPreview(null); setImportError(null) }}>
+          <div className={`glass-card ${styles.modal} ${styles.detailsModal}`} onClick={e => e.stopPropagation()}>
+            <div className={styles.modalHeader}>
+              <h3>📥 Import Preferences</h3>
+              <button onClick={() => { setImportPreview(null); setImportError(null) }} className={styles.closeBtn}>✕</button>
+            </div>
+            <div className={styles.modalBody}>
+              {importError && <p className={styles.importError}>{importError}</p>}
+              {importPreview && (
+                <>
+                  <p className={styles.resetNote}>
+                    {importPreview.repoChanges.length} repo{importPreview.repoChanges.length !== 1 ? 's' : ''} will change
+                    {importPreview.unchangedRepos > 0 && `, ${importPreview.unchangedRepos} already match`}
+                    {importPreview.version > 0 ? ` (schema v${importPreview.version})` : ' (legacy file)'}
+                  </p>
+                  <ul className={styles.resetList}>
+                    {importPreview.defaultModeChange && (
+                      <li>Development style: {importPreview.defaultModeChange.from} → {importPreview.defaultModeChange.to}</li>
+                    )}
+                    {importPreview.newGroups.length > 0 && (
+                      <li>New groups: {importPreview.newGroups.join(', ')}</li>
+                    )}
+                  </ul>
+                  <div className={styles.importChanges}>
+                    {importPreview.repoChanges.map(change => (
+                      <div key={change.repoName} className={styles.importRepo}>
+                        <div className={styles.importRepoName}>
+                          {change.repoName}
+                          <span className={styles.importStatus}>{change.status === 'added' ? 'new' : 'changed'}</span>
+                        </div>
+                        {change.fields.map(field => (
+                          <div key={field.field} className={styles.importField}>
+                            <span>{field.field}:</span> {field.from} → {field.to}
+                          </div>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                  <p className={styles.resetNote}>Local-only repos, scan history, wrapped year and author scope are kept.</p>
+                </>
+              )}
+            </div>
+            <div className={styles.modalFooter}>
+              <button onClick={() => { setImportPreview(null); setImportError(null) }} className="btn btn-secondary">
+                Cancel
+              </button>
+              {importPreview && (
+                <button
+                  onClick={handleApplyImport}
+                  className="btn btn-primary"
+                  disabled={importPreview.repoChanges.length === 0 && !importPreview.defaultModeChange && importPreview.newGroups.length === 0}
+                >
+                  Import
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+      
       {/* API Key Modal for BYOK */}
       <ApiKeyModal
         isOpen={showApiKeyModal}
@@ -1007,7 +1501,7 @@ export default function Dashboard() {
           setShowApiKeyModal(false)
           setPendingAnalysis(false)
         }}
-        onSave={(apiKey) => {
+        onSave={() => {
           setShowApiKeyModal(false)
           // If there was a pending analysis, retry it
           if (pendingAnalysis) {
@@ -1017,6 +1511,8 @@ export default function Dashboard() {
           }
         }}
       />
+
+      <SyncErrorNotice />
     </>
   )
 }
@@ -1025,7 +1521,7 @@ export default function Dashboard() {
 interface RepoDetailsModalProps {
   repo: RepoWithPrefs
   customGroups: Record<string, CustomGroup>
-  onSave: (repoName: string, updates: { aiAssisted: boolean; narrative?: string; customGroup?: string }) => void
+  onSave: (repoKey: string, updates: { aiAssisted: boolean; narrative?: string; customGroup?: string }) => void
   onClose: () => void
   onCreateGroup: () => void
 }
@@ -1043,12 +1539,12 @@ function RepoDetailsModal({ repo, customGroups, onSave, onClose, onCreateGroup }
   
   // Load deployment URLs from preferences
   useEffect(() => {
-    const pref = getRepoPreference(repo.name)
+    const pref = getRepoPreference(repo.full_name)
     setDeploymentUrls(pref.deploymentUrls || [])
-  }, [repo.name])
+  }, [repo.full_name])
 
   const handleSave = () => {
-    onSave(repo.name, {
+    onSave(repo.full_name, {
       aiAssisted,
       narrative: narrative.trim() || undefined,
       customGroup: selectedGroup || undefined,
@@ -1057,18 +1553,18 @@ function RepoDetailsModal({ repo, customGroups, onSave, onClose, onCreateGroup }
 
   const handleAddUrl = () => {
     if (!newUrl.trim()) return
-    addDeploymentUrl(repo.name, {
+    addDeploymentUrl(repo.full_name, {
       url: newUrl.trim(),
       label: 'Custom',
       autoDetected: false,
     })
-    setDeploymentUrls(getRepoPreference(repo.name).deploymentUrls)
+    setDeploymentUrls(getRepoPreference(repo.full_name).deploymentUrls)
     setNewUrl('')
   }
 
   const handleRemoveUrl = (url: string) => {
-    removeDeploymentUrl(repo.name, url)
-    setDeploymentUrls(getRepoPreference(repo.name).deploymentUrls)
+    removeDeploymentUrl(repo.full_name, url)
+    setDeploymentUrls(getRepoPreference(repo.full_name).deploymentUrls)
   }
 
   // Get stats from repo if available
@@ -17,7 +17,7 @@ export default function HomePage() {
           <div className={styles.content}>
             <div className={styles.badge}>
               <span className={styles.badgeIcon}>✨</span> 
-              <span>2025 Edition Now Live</span>
+              <span>{new Date().getFullYear()} Edition Now Live</span>
             </div>
             
             <h1 className={styles.title}>
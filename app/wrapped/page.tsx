@@ -3,7 +3,7 @@
 import { useEffect, useState, useMemo } from 'react'
 import { useSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
-import type { AnalyzedRepository, DevelopmentMode, RepoPreference, CustomGroup } from '@/types'
+import type { AnalyzedRepository, DevelopmentMode, RepoPreference, CustomGroup, RepositoryStats, ExtendedRepositoryStats, WrappedSnapshot, CollaborationStats } from '@/types'
 import {
   loadPreferences,
   savePreferences,
@@ -16,27 +16,29 @@ import {
   getCustomGroups,
   createCustomGroup,
   markRepoScanned,
+  getWrappedYear,
+  getAuthorScope,
+  syncPreferences,
 } from '@/utils/preferences'
 import { generateInteractiveHTML, downloadHTML } from '@/utils/exportHTML'
+import {
+  buildDailyActivity,
+  computeActivityMetrics,
+  formatActivityDate,
+  formatDurationHours,
+  getLocalTimeZone,
+} from '@/utils/activityMetrics'
+import { getAIHeaders } from '@/utils/aiSettings'
+import { buildSummaryCacheKey, getMirroredSummary, mirrorSummary } from '@/utils/summaryCache'
+import { saveWrappedResults, syncWrappedResults, saveSnapshot } from '@/utils/wrappedStorage'
+import { buildWrappedSnapshot, compareSnapshots, describeComparison, formatMetricChange } from '@/utils/yearComparison'
+import { computeRhythmMetrics, getPunchCardLevel, formatHour, WEEKDAY_NAMES } from '@/utils/rhythmMetrics'
+import { buildCommitMessageBreakdown, commitShare, getTopCommitType } from '@/utils/commitMessages'
+import { computeWrappedTotals, computeImpactMetrics } from '@/utils/wrappedMetrics'
 import ApiKeyModal from '@/components/ApiKeyModal'
+import SyncErrorNotice from '@/components/SyncErrorNotice'
 import styles from './wrapped.module.css'
 
-// Helper to get stored OpenAI API key
-function getStoredApiKey(): string | null {
-  if (typeof window === 'undefined') return null
-  return localStorage.getItem('openai_api_key')
-}
-
-// Helper to get headers with optional API key
-function getAIHeaders(): HeadersInit {
-  const headers: HeadersInit = { 'Content-Type': 'application/json' }
-  const apiKey = getStoredApiKey()
-  if (apiKey) {
-    headers['x-openai-key'] = apiKey
-  }
-  return headers
-}
-
 interface RepositoryGroup {
   name: string
   icon: string
@@ -100,6 +102,17 @@ function getHeatLevel(count: number): string {
   return styles.level4
 }
 
+// Percentage of a repo's work that belongs to the scoped authors (null if stats weren't scoped)
+function getOwnershipShare(stats?: RepositoryStats): { commits: number; lines: number } | null {
+  const { myShare, repoTotal, authorLogins } = (stats || {}) as ExtendedRepositoryStats
+  if (!myShare || !repoTotal || !authorLogins) return null
+  const percent = (part: number, whole: number) => whole > 0 ? Math.min(100, Math.round((part / whole) * 100)) : 0
+  return {
+    commits: percent(myShare.commits, repoTotal.commits),
+    lines: percent(myShare.additions + myShare.deletions, repoTotal.additions + repoTotal.deletions),
+  }
+}
+
 export default function WrappedPage() {
   const { data: session, status } = useSession()
   const router = useRouter()
@@ -115,12 +128,21 @@ export default function WrappedPage() {
   const [selectedRepo, setSelectedRepo] = useState<AnalyzedRepository | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   
+  // Year the stored results cover (null until loaded)
+  const [wrappedYear, setWrappedYearState] = useState<number | null>(null)
+  const resultsYear = wrappedYear ?? new Date().getFullYear()
+  
+  // Per-year snapshots and the stored "what changed" narrative
+  const [snapshots, setSnapshots] = useState<Record<string, WrappedSnapshot>>({})
+  const [yearOverYear, setYearOverYear] = useState<string | null>(null)
+  
   // Contribution calendar data (from GitHub profile)
   const [contributionData, setContributionData] = useState<{
     year: number
     totalContributions: number
     activeDays: number
     weeks: Array<{ contributionDays: Array<{ contributionCount: number; date: string }> }>
+    collaboration?: CollaborationStats
   } | null>(null)
   
   // Self-reporting state
@@ -140,7 +162,7 @@ export default function WrappedPage() {
   const [newGroupName, setNewGroupName] = useState('')
   const [newGroupIcon, setNewGroupIcon] = useState('📁')
   
-  // Rescan state
+  // Rescan state (the repo being rescanned, by full_name)
   const [rescanningRepo, setRescanningRepo] = useState<string | null>(null)
   
   // API Key modal state
@@ -152,37 +174,60 @@ export default function WrappedPage() {
       return
     }
     
-    // Load all data from localStorage
-    const storedRepos = localStorage.getItem('analyzedRepositories')
-    const storedGroups = localStorage.getItem('repositoryGroups')
-    const storedFeatured = localStorage.getItem('featuredProjects')
-    const storedNarrative = localStorage.getItem('yearNarrative')
-    const storedAiInsights = localStorage.getItem('aiInsights')
-    const storedAchievements = localStorage.getItem('achievements')
-    const storedDetectedStats = localStorage.getItem('detectedStats')
-    const storedDevPattern = localStorage.getItem('developmentPattern')
+    // Load all data from localStorage (re-run if the server had newer copies)
+    const applyStoredData = () => {
+      const storedRepos = localStorage.getItem('analyzedRepositories')
+      const storedGroups = localStorage.getItem('repositoryGroups')
+      const storedFeatured = localStorage.getItem('featuredProjects')
+      const storedNarrative = localStorage.getItem('yearNarrative')
+      const storedAiInsights = localStorage.getItem('aiInsights')
+      const storedAchievements = localStorage.getItem('achievements')
+      const storedDetectedStats = localStorage.getItem('detectedStats')
+      const storedDevPattern = localStorage.getItem('developmentPattern')
+      const storedYear = localStorage.getItem('wrappedYear')
+      const storedSnapshots = localStorage.getItem('wrappedSnapshots')
+      const storedYearOverYear = localStorage.getItem('yearOverYear')
     
-    if (storedRepos) setRepositories(JSON.parse(storedRepos))
-    if (storedGroups) setRepositoryGroups(JSON.parse(storedGroups))
-    if (storedFeatured) setFeaturedProjects(JSON.parse(storedFeatured))
-    if (storedNarrative) setYearNarrative(JSON.parse(storedNarrative))
-    if (storedAiInsights) setAiInsights(JSON.parse(storedAiInsights))
-    if (storedAchievements) setAchievements(JSON.parse(storedAchievements))
-    if (storedDetectedStats) setDetectedStats(JSON.parse(storedDetectedStats))
-    if (storedDevPattern) setDevelopmentPattern(JSON.parse(storedDevPattern))
+      if (storedRepos) setRepositories(JSON.parse(storedRepos))
+      if (storedGroups) setRepositoryGroups(JSON.parse(storedGroups))
+      if (storedFeatured) setFeaturedProjects(JSON.parse(storedFeatured))
+      if (storedNarrative) setYearNarrative(JSON.parse(storedNarrative))
+      if (storedAiInsights) setAiInsights(JSON.parse(storedAiInsights))
+      if (storedAchievements) setAchievements(JSON.parse(storedAchievements))
+      if (storedDetectedStats) setDetectedStats(JSON.parse(storedDetectedStats))
+      if (storedDevPattern) setDevelopmentPattern(JSON.parse(storedDevPattern))
+      if (storedSnapshots) setSnapshots(JSON.parse(storedSnapshots) || {})
+      if (storedYearOverYear) setYearOverYear(JSON.parse(storedYearOverYear))
+      // Results saved before the year was stored fall back to the preference
+      setWrappedYearState(storedYear ? JSON.parse(storedYear) : getWrappedYear())
     
-    // Load preferences
-    const mode = getDefaultMode()
-    setDevelopmentMode(mode)
+      // Load preferences
+      const mode = getDefaultMode()
+      setDevelopmentMode(mode)
     
-    const prefs = loadPreferences()
-    setRepoPreferences(prefs.repos)
-    setCustomGroups(getCustomGroups())
+      const prefs = loadPreferences()
+      setRepoPreferences(prefs.repos)
+      setCustomGroups(getCustomGroups())
+    }
+    
+    applyStoredData()
+    
+    if (status === 'authenticated') {
+      Promise.all([syncPreferences(), syncWrappedResults()]).then(([prefsChanged, resultsChanged]) => {
+        if (prefsChanged || resultsChanged) applyStoredData()
+      })
+    }
+    
+    setIsLoading(false)
+  }, [status, router])
+
+  // Fetch real contribution data from GitHub profile for the wrapped year
+  useEffect(() => {
+    if (status !== 'authenticated' || wrappedYear === null) return
     
-    // Fetch real contribution data from GitHub profile
     const fetchContributions = async () => {
       try {
-        const response = await fetch('/api/github/contributions?year=2025')
+        const response = await fetch(`/api/github/contributions?year=${wrappedYear}`)
         if (response.ok) {
           const data = await response.json()
           setContributionData(data)
@@ -191,17 +236,17 @@ export default function WrappedPage() {
         }
       } catch (error) {
         console.error('Failed to fetch contribution data:', error)
-        // Try to load from cache
+        // Try to load from cache (only if it's for the same year)
         const cached = localStorage.getItem('contributionData')
         if (cached) {
-          setContributionData(JSON.parse(cached))
+          const cachedData = JSON.parse(cached)
+          if (cachedData.year === wrappedYear) setContributionData(cachedData)
         }
       }
     }
     
     fetchContributions()
-    setIsLoading(false)
-  }, [status, router])
+  }, [status, wrappedYear])
 
   // Handle mode change - clears explicit overrides so all repos inherit from global
   const handleModeChange = (mode: DevelopmentMode) => {
@@ -226,8 +271,8 @@ export default function WrappedPage() {
   }
 
   // Helper: Check if a repo is AI-assisted (repo-level preference → global default)
-  const isRepoAiAssisted = (repoName: string): boolean => {
-    const pref = repoPreferences[repoName]
+  const isRepoAiAssisted = (repoKey: string): boolean => {
+    const pref = repoPreferences[repoKey]
     // If repo has an explicit preference, use it
     if (pref?.aiAssisted !== undefined) {
       return pref.aiAssisted
@@ -238,7 +283,7 @@ export default function WrappedPage() {
   
   // Open edit modal for a repo
   const openEditModal = (repo: AnalyzedRepository) => {
-    const pref = getRepoPreference(repo.name)
+    const pref = getRepoPreference(repo.full_name)
     setEditingRepo(repo)
     // Use inheritance: repo-level preference → global default
     setEditAiAssisted(pref.aiAssisted ?? (developmentMode === 'ai'))
@@ -252,7 +297,7 @@ export default function WrappedPage() {
   const saveEditModal = () => {
     if (!editingRepo) return
     
-    setRepoPreference(editingRepo.name, {
+    setRepoPreference(editingRepo.full_name, {
       aiAssisted: editAiAssisted,
       narrative: editNarrative.trim() || undefined,
       customGroup: editGroup || undefined,
@@ -266,20 +311,20 @@ export default function WrappedPage() {
   // Handle adding URL in edit modal
   const handleAddEditUrl = () => {
     if (!newUrl.trim() || !editingRepo) return
-    addDeploymentUrl(editingRepo.name, {
+    addDeploymentUrl(editingRepo.full_name, {
       url: newUrl.trim(),
       label: 'Custom',
       autoDetected: false,
     })
-    setEditUrls(getRepoPreference(editingRepo.name).deploymentUrls)
+    setEditUrls(getRepoPreference(editingRepo.full_name).deploymentUrls)
     setNewUrl('')
   }
   
   // Handle removing URL in edit modal
   const handleRemoveEditUrl = (url: string) => {
     if (!editingRepo) return
-    removeDeploymentUrl(editingRepo.name, url)
-    setEditUrls(getRepoPreference(editingRepo.name).deploymentUrls)
+    removeDeploymentUrl(editingRepo.full_name, url)
+    setEditUrls(getRepoPreference(editingRepo.full_name).deploymentUrls)
   }
   
   // Create new custom group
@@ -292,9 +337,9 @@ export default function WrappedPage() {
     setShowNewGroupModal(false)
   }
 
-  // Rescan a single repository
-  const rescanRepo = async (repo: AnalyzedRepository) => {
-    setRescanningRepo(repo.name)
+  // Rescan a single repository - forceRefresh skips both summary caches
+  const rescanRepo = async (repo: AnalyzedRepository, forceRefresh = false) => {
+    setRescanningRepo(repo.full_name)
     
     try {
       // Fetch stats
@@ -304,55 +349,105 @@ export default function WrappedPage() {
         body: JSON.stringify({
           owner: repo.owner.login,
           repo: repo.name,
+          year: resultsYear,
+          authorScope: getAuthorScope(),
+          // Only list commits since the last scan (a forced refresh lists them all)
+          lastScanned: forceRefresh ? null : getRepoPreference(repo.full_name).lastScanned,
         }),
       })
       const stats = await statsRes.json()
 
       // Get narrative from preferences
-      const repoPref = getRepoPreference(repo.name)
+      const repoPref = getRepoPreference(repo.full_name)
       
-      // Generate new AI summary
-      const analyzeRes = await fetch('/api/github/analyze', {
-        method: 'POST',
-        headers: getAIHeaders(),
-        body: JSON.stringify({
-          repoName: repo.name,
-          description: repo.description,
-          stats: {
-            ...stats,
-            primaryLanguage: repo.language,
-          },
-          readme: stats.readme,
-          commitMessages: stats.commitMessages,
-          narrative: repoPref.narrative,
-        }),
-      })
+      // Reuse the mirrored summary unless the repo changed (or a refresh was forced)
+      const login = session?.user?.login
+      const cacheKey = stats.headSha && login ? buildSummaryCacheKey({
+        login,
+        owner: repo.owner.login,
+        repo: repo.name,
+        headSha: stats.headSha,
+        narrative: repoPref.narrative,
+        range: stats.range,
+        authorLogins: stats.authorLogins,
+      }) : null
+      let summary = (!forceRefresh && cacheKey && getMirroredSummary(cacheKey)) || undefined
       
-      // Check if BYOK is required
-      if (analyzeRes.status === 403) {
-        const errorData = await analyzeRes.json()
-        if (errorData.code === 'BYOK_REQUIRED') {
-          setShowApiKeyModal(true)
-          return
+      // Generate new AI summary
+      if (!summary) {
+        const analyzeRes = await fetch('/api/github/analyze', {
+          method: 'POST',
+          headers: getAIHeaders(),
+          body: JSON.stringify({
+            owner: repo.owner.login,
+            repoName: repo.name,
+            description: repo.description,
+            stats: {
+              ...stats,
+              primaryLanguage: repo.language,
+            },
+            readme: stats.readme,
+            commitMessages: stats.commitMessages,
+            narrative: repoPref.narrative,
+            year: resultsYear,
+            forceRefresh,
+          }),
+        })
+        
+        // Check if BYOK is required
+        if (analyzeRes.status === 403) {
+          const errorData = await analyzeRes.json()
+          if (errorData.code === 'BYOK_REQUIRED') {
+            setShowApiKeyModal(true)
+            return
+          }
+        }
+
+        // Over the server's AI quota (and no key of their own to fall back on)
+        if (analyzeRes.status === 429) {
+          const errorData = await analyzeRes.json()
+          if (errorData.code === 'AI_QUOTA_EXCEEDED') {
+            alert(errorData.message)
+            return
+          }
+        }
+        
+        const analyzeData = await analyzeRes.json()
+        summary = analyzeData.summary
+        
+        // Mirror real AI summaries locally (fallback/heuristic ones are cheap to regenerate)
+        if (analyzeData.cacheKey && !analyzeData.fallback && !analyzeData.heuristic) {
+          mirrorSummary(analyzeData.cacheKey, analyzeData.summary)
         }
       }
-      
-      const { summary } = await analyzeRes.json()
 
       // Update repository in state
       const updatedRepos = repositories.map(r =>
-        r.name === repo.name ? { ...r, stats, aiSummary: summary } : r
+        r.full_name === repo.full_name ? { ...r, stats, aiSummary: summary } : r
       )
       setRepositories(updatedRepos)
       
       // Mark as scanned in preferences
-      markRepoScanned(repo.name)
+      markRepoScanned(repo.full_name)
       
-      // Update localStorage
-      localStorage.setItem('analyzedRepositories', JSON.stringify(updatedRepos))
+      // Update stored results (synced to the server)
+      saveWrappedResults({ analyzedRepositories: updatedRepos })
+      
+      // Refresh this year's snapshot so comparisons pick up the new numbers
+      const snapshot = buildWrappedSnapshot({
+        year: resultsYear,
+        repositories: updatedRepos,
+        repoPreferences,
+        developmentMode,
+        timeZone,
+        narrativeTitle: yearNarrative?.title,
+        yearOverYear: yearOverYear || undefined,
+      })
+      saveSnapshot(snapshot)
+      setSnapshots(prev => ({ ...prev, [snapshot.year]: snapshot }))
       
       // Update selected repo if it's the one being rescanned
-      if (selectedRepo?.name === repo.name) {
+      if (selectedRepo?.full_name === repo.full_name) {
         setSelectedRepo({ ...repo, stats, aiSummary: summary })
       }
     } catch (error) {
@@ -363,148 +458,71 @@ export default function WrappedPage() {
   }
 
   // Calculate aggregate statistics
-  const stats = useMemo(() => repositories.reduce(
-    (acc, repo) => {
-      if (repo.stats) {
-        acc.totalCommits += repo.stats.commits || 0
-        acc.totalAdditions += repo.stats.additions || 0
-        acc.totalDeletions += repo.stats.deletions || 0
-        acc.totalNet += repo.stats.net || 0
-        
-        Object.entries(repo.stats.languages || {}).forEach(([lang, bytes]) => {
-          acc.languages[lang] = (acc.languages[lang] || 0) + bytes
-        })
-      }
-      return acc
-    },
-    {
-      totalCommits: 0,
-      totalAdditions: 0,
-      totalDeletions: 0,
-      totalNet: 0,
-      languages: {} as Record<string, number>,
+  const stats = useMemo(() => computeWrappedTotals(repositories), [repositories])
+
+  // Overall ownership across repos whose stats were scoped to specific authors
+  const ownership = useMemo(() => {
+    const totals = { myCommits: 0, repoCommits: 0, myLines: 0, repoLines: 0, scopedRepos: 0 }
+    repositories.forEach(repo => {
+      const { myShare, repoTotal, authorLogins } = (repo.stats || {}) as ExtendedRepositoryStats
+      if (!myShare || !repoTotal || !authorLogins) return
+      totals.scopedRepos++
+      totals.myCommits += myShare.commits
+      totals.repoCommits += repoTotal.commits
+      totals.myLines += myShare.additions + myShare.deletions
+      totals.repoLines += repoTotal.additions + repoTotal.deletions
+    })
+    if (totals.scopedRepos === 0) return null
+    return {
+      commitShare: totals.repoCommits > 0 ? Math.round((totals.myCommits / totals.repoCommits) * 100) : 0,
+      lineShare: totals.repoLines > 0 ? Math.round((totals.myLines / totals.repoLines) * 100) : 0,
     }
-  ), [repositories])
+  }, [repositories])
 
   // Calculate primary language
   const primaryLanguage = Object.entries(stats.languages).sort(
     ([, a], [, b]) => b - a
   )[0]?.[0] || 'Unknown'
 
-  // Calculate impact metrics
-  const impactMetrics = useMemo(() => {
-    const avgCommitsPerRepo = repositories.length > 0 
-      ? Math.round(stats.totalCommits / repositories.length) 
-      : 0
-    
-    // Estimate YOUR actual coding days based on commits (avg ~2-3 commits per active day)
-    const yourActiveDays = Math.round(stats.totalCommits / 2.5)
-    const yourHours = yourActiveDays * 8
-    
-    // How long would a TRADITIONAL developer take at 300 lines/day?
-    const traditionalDays = Math.round(stats.totalAdditions / 300)
-    const traditionalHours = traditionalDays * 8
-    
-    // Productivity multiplier: traditional time / your time
-    const productivityMultiplier = yourActiveDays > 0 
-      ? Math.round((traditionalDays / yourActiveDays) * 10) / 10
-      : 1.0
-    
-    // Lines per day YOU achieved
-    const yourLinesPerDay = yourActiveDays > 0 
-      ? Math.round(stats.totalAdditions / yourActiveDays)
-      : 0
-    
-    // Calculate longest streak (simulated based on commit density)
-    const longestStreak = Math.min(Math.floor(stats.totalCommits / 3), 90)
-    
-    // Count AI-enhanced projects - check if aiSummary exists and has meaningful AI integration
-    const aiEnhancedProjects = repositories.filter(r => {
-      if (!r.aiSummary?.ai_integration) return false
-      
-      // If it's an object with properties, it's AI-enhanced
-      if (typeof r.aiSummary.ai_integration === 'object') {
-        return Object.keys(r.aiSummary.ai_integration).length > 0
-      }
-      
-      // If it's a string, check if it indicates AI usage (not "None", "N/A", etc.)
-      const aiText = String(r.aiSummary.ai_integration).toLowerCase()
-      const negativeIndicators = ['none', 'n/a', 'no ai', 'not applicable', 'no integration']
-      return !negativeIndicators.some(neg => aiText.includes(neg))
-    }).length
-    
-    // === SELF-REPORTED METRICS ===
+  // Real streaks / active days from commit timestamps (contribution calendar as fallback)
+  const timeZone = useMemo(() => getLocalTimeZone(), [])
+  const activity = useMemo(() => computeActivityMetrics(buildDailyActivity({
+    commitDates: repositories.flatMap(r => r.stats?.commitDates || []),
+    contributionWeeks: contributionData?.weeks,
+    timeZone,
+  })), [repositories, contributionData, timeZone])
+
+  // Hour-of-day x weekday rhythm (commit timestamps only - the calendar has no times)
+  const rhythm = useMemo(() => computeRhythmMetrics(
+    repositories.flatMap(r => r.stats?.commitDates || []),
+    timeZone
+  ), [repositories, timeZone])
+
+  // Conventional types, issue refs, reverts/WIP and message quality (overall + per repo)
+  const messageBreakdown = useMemo(() => buildCommitMessageBreakdown(repositories), [repositories])
+
+  // Compare against the most recent earlier year that has a snapshot
+  const yearComparison = useMemo(() => {
+    const previous = Object.values(snapshots)
+      .filter(snapshot => snapshot.year < resultsYear)
+      .sort((a, b) => b.year - a.year)[0]
+    if (!previous) return null
     
-    // Helper to check AI status with inheritance (inline for useMemo)
-    const checkAiAssisted = (repoName: string): boolean => {
-      const pref = repoPreferences[repoName]
-      if (pref?.aiAssisted !== undefined) return pref.aiAssisted
-      return developmentMode === 'ai'
-    }
-    
-    // Count repos by self-reported status (respects inheritance)
-    const aiAssistedRepos = repositories.filter(r => checkAiAssisted(r.name)).length
-    const manualRepos = repositories.length - aiAssistedRepos
-    const selfReportedAiPercentage = repositories.length > 0 
-      ? Math.round((aiAssistedRepos / repositories.length) * 100)
-      : 0
-    
-    // Calculate lines of code by development style (respects inheritance)
-    const aiAssistedLOC = repositories
-      .filter(r => checkAiAssisted(r.name))
-      .reduce((sum, r) => sum + (r.stats?.additions || 0), 0)
-    const manualLOC = stats.totalAdditions - aiAssistedLOC
-    
-    // Count repos with deployment URLs
-    const deployedRepos = repositories.filter(r => 
-      repoPreferences[r.name]?.deploymentUrls?.length > 0
-    ).length
-    
-    // Count repos with narratives
-    const documentedRepos = repositories.filter(r => 
-      repoPreferences[r.name]?.narrative
-    ).length
-    
-    // Get languages used in AI-assisted vs manual repos (respects inheritance)
-    const aiLanguages: Record<string, number> = {}
-    const manualLanguages: Record<string, number> = {}
-    
-    repositories.forEach(r => {
-      if (r.stats?.languages) {
-        const target = checkAiAssisted(r.name) ? aiLanguages : manualLanguages
-        Object.entries(r.stats.languages).forEach(([lang, bytes]) => {
-          target[lang] = (target[lang] || 0) + bytes
-        })
-      }
+    const current = buildWrappedSnapshot({
+      year: resultsYear,
+      repositories,
+      repoPreferences,
+      developmentMode,
+      timeZone,
     })
-    
-    // Top AI-assisted language
-    const topAiLanguage = Object.entries(aiLanguages).sort(([,a], [,b]) => b - a)[0]?.[0] || null
-    const topManualLanguage = Object.entries(manualLanguages).sort(([,a], [,b]) => b - a)[0]?.[0] || null
-    
-    return {
-      avgCommitsPerRepo,
-      yourActiveDays,
-      yourHours,
-      traditionalDays,
-      traditionalHours,
-      productivityMultiplier,
-      yourLinesPerDay,
-      longestStreak,
-      totalProjects: repositories.length,
-      aiEnhancedProjects,
-      // Self-reported metrics
-      aiAssistedRepos,
-      manualRepos,
-      selfReportedAiPercentage,
-      aiAssistedLOC,
-      manualLOC,
-      deployedRepos,
-      documentedRepos,
-      topAiLanguage,
-      topManualLanguage,
-    }
-  }, [repositories, stats, repoPreferences, developmentMode])
+    return compareSnapshots(current, previous)
+  }, [snapshots, resultsYear, repositories, repoPreferences, developmentMode, timeZone])
+
+  // Calculate impact metrics
+  const impactMetrics = useMemo(
+    () => computeImpactMetrics({ repositories, stats, activity, repoPreferences, developmentMode }),
+    [repositories, stats, repoPreferences, developmentMode, activity]
+  )
 
   // Get language-specific bar class
   const getLanguageClass = (lang: string): string => {
@@ -535,8 +553,12 @@ export default function WrappedPage() {
       yearNarrative,
       exportedAt: new Date().toISOString(),
       contributionData,
+      timeZone,
+      year: resultsYear,
+      yearComparison,
+      yearOverYear,
     })
-    downloadHTML(htmlContent)
+    downloadHTML(htmlContent, resultsYear)
   }
 
   if (isLoading) {
@@ -588,7 +610,7 @@ export default function WrappedPage() {
 
       <nav className={styles.nav}>
         <div className={styles.navLeft}>
-          <div className={styles.navLogo}>GitHub Wrapped {new Date().getFullYear()}</div>
+          <div className={styles.navLogo}>GitHub Wrapped {resultsYear}</div>
           <button 
             className={styles.editSelectionBtn}
             onClick={() => router.push('/dashboard')}
@@ -621,6 +643,14 @@ export default function WrappedPage() {
           >
             Repositories
           </button>
+          {yearComparison && (
+            <button
+              className={`${styles.navTab} ${activeTab === 'compare' ? styles.active : ''}`}
+              onClick={() => setActiveTab('compare')}
+            >
+              vs {yearComparison.previousYear}
+            </button>
+          )}
           <button
             className={`${styles.navTab} ${activeTab === 'export' ? styles.active : ''}`}
             onClick={() => setActiveTab('export')}
@@ -675,7 +705,10 @@ export default function WrappedPage() {
                 <div className={`${styles.bigNumber} ${styles.mega}`}>
                   {stats.totalCommits.toLocaleString()}
                 </div>
-                <div className={styles.heroTitle}>commits across {repositories.length} repositories</div>
+                <div className={styles.heroTitle}>
+                  commits across {repositories.length} repositories
+                  {ownership && ` · ${ownership.commitShare}% of all commits in them`}
+                </div>
               </div>
 
               <div className={`glass-card ${styles.heroCard} ${styles.reveal} ${styles.delay1}`}>
@@ -683,7 +716,10 @@ export default function WrappedPage() {
                 <div className={`${styles.bigNumber} ${styles.mega}`}>
                   {stats.totalNet.toLocaleString()}
                 </div>
-                <div className={styles.heroTitle}>net lines added to your projects</div>
+                <div className={styles.heroTitle}>
+                  net lines added to your projects
+                  {ownership && ` · ${ownership.lineShare}% of all line changes`}
+                </div>
               </div>
             </div>
 
@@ -899,7 +935,7 @@ export default function WrappedPage() {
                 <div className={styles.timeBlock}>
                   <div className={styles.timeLabel}>Your Actual Output</div>
                   <div className={`${styles.timeValue} ${styles.highlight}`}>
-                    ~{impactMetrics.yourActiveDays}
+                    {impactMetrics.yourActiveDays}
                   </div>
                   <div className={styles.subtitle}>
                     {detectedStats && detectedStats.aiAssistedPercentage > 10 
@@ -939,6 +975,248 @@ export default function WrappedPage() {
               </div>
             </div>
 
+            {/* Activity Streaks - derived from real commit dates */}
+            {activity.activeDays > 0 && (
+              <div className={`glass-card ${styles.reveal} ${styles.delay4}`} style={{ marginBottom: '32px' }}>
+                <h2 className={styles.sectionTitle}>🔥 Activity Streaks</h2>
+                <div className={styles.devStyleGrid}>
+                  <div className={styles.devStyleCard}>
+                    <div className={styles.devStyleIcon}>🔥</div>
+                    <div className={styles.devStyleValue}>{activity.longestStreak}</div>
+                    <div className={styles.devStyleLabel}>Longest Streak</div>
+                    <div className={styles.devStyleSub}>
+                      {activity.longestStreakStart && activity.longestStreakEnd
+                        ? `${formatActivityDate(activity.longestStreakStart)} – ${formatActivityDate(activity.longestStreakEnd)}`
+                        : 'consecutive days'}
+                    </div>
+                  </div>
+                  <div className={styles.devStyleCard}>
+                    <div className={styles.devStyleIcon}>📅</div>
+                    <div className={styles.devStyleValue}>{activity.activeDays}</div>
+                    <div className={styles.devStyleLabel}>Active Days</div>
+                    <div className={styles.devStyleSub}>
+                      {activity.currentStreak > 0 ? `${activity.currentStreak}-day streak going` : 'days with commits'}
+                    </div>
+                  </div>
+                  {activity.busiestDay && (
+                    <div className={styles.devStyleCard}>
+                      <div className={styles.devStyleIcon}>⚡</div>
+                      <div className={styles.devStyleValue}>{activity.busiestDay.count}</div>
+                      <div className={styles.devStyleLabel}>Busiest Day</div>
+                      <div className={styles.devStyleSub}>{formatActivityDate(activity.busiestDay.date)}</div>
+                    </div>
+                  )}
+                  {activity.longestGap && (
+                    <div className={styles.devStyleCard}>
+                      <div className={styles.devStyleIcon}>🏝️</div>
+                      <div className={styles.devStyleValue}>{activity.longestGap.days}</div>
+                      <div className={styles.devStyleLabel}>Longest Break</div>
+                      <div className={styles.devStyleSub}>
+                        {formatActivityDate(activity.longestGap.from)} – {formatActivityDate(activity.longestGap.to)}
+                      </div>
+                    </div>
+                  )}
+                </div>
+                {activity.busiestWeek && activity.busiestMonth && (
+                  <p className={styles.aiStatsNote}>
+                    Busiest week: week of {formatActivityDate(activity.busiestWeek.weekStart)} ({activity.busiestWeek.count} commits)
+                    {' · '}Busiest month: {formatActivityDate(activity.busiestMonth.month)} ({activity.busiestMonth.count} commits)
+                    {' · '}Dates in {timeZone}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Coding Rhythm - punch card from commit timestamps */}
+            {rhythm.totalCommits > 0 && (() => {
+              const maxSlot = rhythm.peakSlot?.count || 0
+              
+              return (
+                <div className={`glass-card ${styles.reveal} ${styles.delay4}`} style={{ marginBottom: '32px' }}>
+                  <h2 className={styles.sectionTitle}>🕐 Coding Rhythm</h2>
+                  <div className={styles.devStyleGrid}>
+                    <div className={styles.devStyleCard}>
+                      <div className={styles.devStyleIcon}>{rhythm.chronotypeIcon}</div>
+                      <div className={`${styles.devStyleValue} ${styles.small}`}>{rhythm.chronotypeLabel}</div>
+                      <div className={styles.devStyleLabel}>Chronotype</div>
+                      <div className={styles.devStyleSub}>{rhythm.nightShare}% late night · {rhythm.morningShare}% early</div>
+                    </div>
+                    {rhythm.peakHour !== null && (
+                      <div className={styles.devStyleCard}>
+                        <div className={styles.devStyleIcon}>⏰</div>
+                        <div className={styles.devStyleValue}>{formatHour(rhythm.peakHour)}</div>
+                        <div className={styles.devStyleLabel}>Peak Hour</div>
+                        <div className={styles.devStyleSub}>{rhythm.workHoursShare}% in work hours</div>
+                      </div>
+                    )}
+                    {rhythm.peakWeekday !== null && (
+                      <div className={styles.devStyleCard}>
+                        <div className={styles.devStyleIcon}>📆</div>
+                        <div className={`${styles.devStyleValue} ${styles.small}`}>{WEEKDAY_NAMES[rhythm.peakWeekday]}</div>
+                        <div className={styles.devStyleLabel}>Peak Day</div>
+                        <div className={styles.devStyleSub}>most commits</div>
+                      </div>
+                    )}
+                    <div className={styles.devStyleCard}>
+                      <div className={styles.devStyleIcon}>🏖️</div>
+                      <div className={styles.devStyleValue}>{rhythm.weekendShare}%</div>
+                      <div className={styles.devStyleLabel}>Weekend Share</div>
+                      <div className={styles.devStyleSub}>commits on Sat/Sun</div>
+                    </div>
+                  </div>
+                  <div className={styles.punchCard}>
+                    {rhythm.punchCard.map((hours, weekday) => (
+                      <div key={weekday} className={styles.punchCardRow}>
+                        <span className={styles.punchCardDay}>{WEEKDAY_NAMES[weekday].slice(0, 3)}</span>
+                        {hours.map((count, hour) => (
+                          <div
+                            key={hour}
+                            className={`${styles.heatCell} ${getPunchCardLevel(count, maxSlot) ? styles[`level${getPunchCardLevel(count, maxSlot)}`] : ''}`}
+                            title={`${WEEKDAY_NAMES[weekday]} ${formatHour(hour)}: ${count} commits`}
+                          />
+                        ))}
+                      </div>
+                    ))}
+                    <div className={styles.punchCardRow}>
+                      <span className={styles.punchCardDay}></span>
+                      {Array.from({ length: 24 }, (_, hour) => (
+                        <span key={hour} className={styles.punchCardHour}>{hour % 6 === 0 ? formatHour(hour) : ''}</span>
+                      ))}
+                    </div>
+                  </div>
+                  <p className={styles.aiStatsNote}>Hours in {rhythm.timeZone}</p>
+                </div>
+              )
+            })()}
+
+            {/* Commit Messages - conventional types and message quality */}
+            {messageBreakdown && (() => {
+              const { overall, perRepo } = messageBreakdown
+              const types = Object.entries(overall.byType).sort(([, a], [, b]) => b - a)
+              
+              return (
+                <div className={`glass-card ${styles.reveal} ${styles.delay4}`} style={{ marginBottom: '32px' }}>
+                  <h2 className={styles.sectionTitle}>📝 Commit Messages</h2>
+                  <div className={styles.devStyleGrid}>
+                    <div className={styles.devStyleCard}>
+                      <div className={styles.devStyleIcon}>📐</div>
+                      <div className={styles.devStyleValue}>{commitShare(overall, overall.conventional)}%</div>
+                      <div className={styles.devStyleLabel}>Conventional</div>
+                      <div className={styles.devStyleSub}>{overall.conventional} of {overall.total - overall.merges} commits</div>
+                    </div>
+                    <div className={styles.devStyleCard}>
+                      <div className={styles.devStyleIcon}>✍️</div>
+                      <div className={styles.devStyleValue}>{overall.averageQuality}</div>
+                      <div className={styles.devStyleLabel}>Message Quality</div>
+                      <div className={styles.devStyleSub}>out of 100 · {overall.averageSubjectLength}-char subjects</div>
+                    </div>
+                    <div className={styles.devStyleCard}>
+                      <div className={styles.devStyleIcon}>🔗</div>
+                      <div className={styles.devStyleValue}>{commitShare(overall, overall.issueReferences)}%</div>
+                      <div className={styles.devStyleLabel}>Reference Issues</div>
+                      <div className={styles.devStyleSub}>{overall.issueReferences} commits</div>
+                    </div>
+                    <div className={styles.devStyleCard}>
+                      <div className={styles.devStyleIcon}>↩️</div>
+                      <div className={styles.devStyleValue}>{overall.reverts + overall.wip}</div>
+                      <div className={styles.devStyleLabel}>Reverts & WIP</div>
+                      <div className={styles.devStyleSub}>{overall.reverts} reverts · {overall.wip} WIP</div>
+                    </div>
+                  </div>
+                  
+                  {types.length > 0 && (
+                    <div className={styles.languageBars} style={{ marginTop: '24px' }}>
+                      {types.map(([type, count]) => (
+                        <div key={type} className={styles.languageBar}>
+                          <div className={styles.languageName}>{type}</div>
+                          <div className={styles.languageProgress}>
+                            <div
+                              className={`${styles.languageFill} ${styles.default}`}
+                              style={{ width: `${(count / overall.conventional) * 100}%` }}
+                            />
+                          </div>
+                          <div className={styles.languagePercentage}>{count}</div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  
+                  {perRepo.length > 1 && (
+                    <div className={styles.messageTable}>
+                      <div className={`${styles.messageRow} ${styles.messageHeader}`}>
+                        <span>Repository</span>
+                        <span>Commits</span>
+                        <span>Conventional</span>
+                        <span>Top Type</span>
+                        <span>Quality</span>
+                      </div>
+                      {perRepo.slice(0, 8).map(({ name, stats }) => (
+                        <div key={name} className={styles.messageRow}>
+                          <span className={styles.messageRepo}>{name}</span>
+                          <span>{stats.total}</span>
+                          <span>{commitShare(stats, stats.conventional)}%</span>
+                          <span>{getTopCommitType(stats) || '—'}</span>
+                          <span>{stats.averageQuality}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )
+            })()}
+
+            {/* Pull Requests & Reviews - from the contribution graph */}
+            {contributionData?.collaboration && (() => {
+              const { pullRequests, reviews, issues } = contributionData.collaboration
+              if (pullRequests.opened + reviews.given + issues.opened === 0) return null
+              const topReviewed = reviews.byRepository.slice(0, 5)
+              
+              return (
+                <div className={`glass-card ${styles.reveal} ${styles.delay4}`} style={{ marginBottom: '32px' }}>
+                  <h2 className={styles.sectionTitle}>🤝 Pull Requests & Reviews</h2>
+                  <div className={styles.devStyleGrid}>
+                    <div className={styles.devStyleCard}>
+                      <div className={styles.devStyleIcon}>🔀</div>
+                      <div className={styles.devStyleValue}>{pullRequests.opened}</div>
+                      <div className={styles.devStyleLabel}>PRs Opened</div>
+                      <div className={styles.devStyleSub}>{pullRequests.merged} merged</div>
+                    </div>
+                    <div className={styles.devStyleCard}>
+                      <div className={styles.devStyleIcon}>👀</div>
+                      <div className={styles.devStyleValue}>{reviews.given}</div>
+                      <div className={styles.devStyleLabel}>Reviews Given</div>
+                      <div className={styles.devStyleSub}>across {reviews.byRepository.length} repos</div>
+                    </div>
+                    <div className={styles.devStyleCard}>
+                      <div className={styles.devStyleIcon}>⏱️</div>
+                      <div className={styles.devStyleValue}>
+                        {pullRequests.medianTimeToMergeHours !== null ? formatDurationHours(pullRequests.medianTimeToMergeHours) : '—'}
+                      </div>
+                      <div className={styles.devStyleLabel}>Median Time to Merge</div>
+                      <div className={styles.devStyleSub}>opened → merged</div>
+                    </div>
+                    <div className={styles.devStyleCard}>
+                      <div className={styles.devStyleIcon}>🐛</div>
+                      <div className={styles.devStyleValue}>{issues.opened}</div>
+                      <div className={styles.devStyleLabel}>Issues Opened</div>
+                      <div className={styles.devStyleSub}>across {issues.byRepository.length} repos</div>
+                    </div>
+                  </div>
+                  {topReviewed.length > 0 && (
+                    <div className={styles.topReviewed}>
+                      <div className={styles.label}>Top Reviewed Repos</div>
+                      {topReviewed.map(r => (
+                        <div key={r.repository} className={styles.topReviewedRow}>
+                          <span>{r.repository}</span>
+                          <span className={styles.topReviewedCount}>{r.count} reviews</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )
+            })()}
+
             {/* Development Style Profile - Self-Reported */}
             <div className={`glass-card ${styles.reveal} ${styles.delay5}`} style={{ marginBottom: '32px' }}>
               <h2 className={styles.sectionTitle}>🎯 Your Development Profile</h2>
@@ -1255,6 +1533,72 @@ export default function WrappedPage() {
           </div>
         )}
 
+        {/* Year-over-year Tab */}
+        {activeTab === 'compare' && yearComparison && (
+          <div className={styles.section}>
+            <h2 className={styles.sectionTitle}>
+              {yearComparison.year} vs {yearComparison.previousYear}
+            </h2>
+            
+            <div className={`glass-card ${styles.reveal}`} style={{ marginBottom: '32px' }}>
+              <p className={styles.narrativeText}>
+                {yearOverYear || describeComparison(yearComparison)}
+              </p>
+            </div>
+            
+            <div className={styles.statsGrid}>
+              {yearComparison.metrics.map((m, idx) => (
+                <div key={m.key} className={`glass-card ${styles.reveal} ${styles[`delay${Math.min(idx + 1, 6)}`]}`}>
+                  <div className={styles.label}>{m.label}</div>
+                  <div className={`${styles.monoValue} ${m.delta > 0 ? styles.green : m.delta < 0 ? styles.red : ''}`}>
+                    {formatMetricChange(m)}
+                  </div>
+                  <div className={styles.subtitle}>
+                    {m.previous.toLocaleString()} → {m.current.toLocaleString()}
+                  </div>
+                </div>
+              ))}
+            </div>
+            
+            {yearComparison.languages.length > 0 && (
+              <div className="glass-card" style={{ marginTop: '32px' }}>
+                <h3 className={styles.compareHeading}>Languages (share of commits)</h3>
+                {yearComparison.languages.map(l => (
+                  <div key={l.language} className={styles.compareRow}>
+                    <span className={styles.compareName}>
+                      {l.language}
+                      {yearComparison.newLanguages.includes(l.language) && <span className={styles.compareTag}>new</span>}
+                      {yearComparison.droppedLanguages.includes(l.language) && <span className={styles.compareTag}>dropped</span>}
+                    </span>
+                    <span className={styles.compareShares}>
+                      {l.previousShare}% → {l.currentShare}%
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+            
+            <div className={styles.compareProjects}>
+              {[
+                { title: `🌱 New in ${yearComparison.year}`, projects: yearComparison.newProjects },
+                { title: `🔁 Carried over`, projects: yearComparison.continuingProjects },
+                { title: `🌙 Retired since ${yearComparison.previousYear}`, projects: yearComparison.retiredProjects },
+              ].map(group => (
+                <div key={group.title} className="glass-card">
+                  <h3 className={styles.compareHeading}>{group.title} ({group.projects.length})</h3>
+                  {group.projects.length > 0 ? (
+                    <ul className={styles.compareList}>
+                      {group.projects.map(name => <li key={name}>{name}</li>)}
+                    </ul>
+                  ) : (
+                    <p className={styles.subtitle}>None</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Export Tab */}
         {activeTab === 'export' && (
           <div className={styles.section}>
@@ -1306,9 +1650,9 @@ export default function WrappedPage() {
                     <span className={styles.repoLanguage}>{selectedRepo.language}</span>
                   )}
                   {/* AI/Manual Badge - respects inheritance */}
-                  <span className={`${styles.modeBadge} ${isRepoAiAssisted(selectedRepo.name) ? styles.aiMode : styles.manualMode}`}>
-                    {isRepoAiAssisted(selectedRepo.name) ? '🤖 AI-Assisted' : '👤 Manual'}
-                    {repoPreferences[selectedRepo.name]?.aiAssisted === undefined && (
+                  <span className={`${styles.modeBadge} ${isRepoAiAssisted(selectedRepo.full_name) ? styles.aiMode : styles.manualMode}`}>
+                    {isRepoAiAssisted(selectedRepo.full_name) ? '🤖 AI-Assisted' : '👤 Manual'}
+                    {repoPreferences[selectedRepo.full_name]?.aiAssisted === undefined && (
                       <span className={styles.inheritedBadge}>(inherited)</span>
                     )}
                   </span>
@@ -1324,9 +1668,17 @@ export default function WrappedPage() {
                 <button 
                   onClick={() => rescanRepo(selectedRepo)} 
                   className={styles.rescanBtn}
-                  disabled={rescanningRepo === selectedRepo.name}
+                  disabled={rescanningRepo === selectedRepo.full_name}
                 >
-                  {rescanningRepo === selectedRepo.name ? '⏳ Rescanning...' : '🔄 Rescan'}
+                  {rescanningRepo === selectedRepo.full_name ? '⏳ Rescanning...' : '🔄 Rescan'}
+                </button>
+                <button 
+                  onClick={() => rescanRepo(selectedRepo, true)} 
+                  className={styles.rescanBtn}
+                  disabled={rescanningRepo === selectedRepo.full_name}
+                  title="Regenerate the AI summary even if the repo hasn't changed"
+                >
+                  ♻️ Force
                 </button>
                 <button onClick={() => setSelectedRepo(null)} className={styles.modalClose}>
                   ×
@@ -1335,19 +1687,19 @@ export default function WrappedPage() {
             </div>
             <div className={styles.modalBody}>
               {/* User Narrative if exists */}
-              {repoPreferences[selectedRepo.name]?.narrative && (
+              {repoPreferences[selectedRepo.full_name]?.narrative && (
                 <div className={`${styles.modalSection} ${styles.narrativeSection}`}>
                   <h3>📝 Your Notes</h3>
-                  <p className={styles.narrativeText}>{repoPreferences[selectedRepo.name]?.narrative}</p>
+                  <p className={styles.narrativeText}>{repoPreferences[selectedRepo.full_name]?.narrative}</p>
                 </div>
               )}
 
               {/* Deployment URLs */}
-              {repoPreferences[selectedRepo.name]?.deploymentUrls?.length > 0 && (
+              {repoPreferences[selectedRepo.full_name]?.deploymentUrls?.length > 0 && (
                 <div className={styles.modalSection}>
                   <h3>🌐 Deployment URLs</h3>
                   <div className={styles.deploymentUrls}>
-                    {repoPreferences[selectedRepo.name]?.deploymentUrls.map((urlObj, idx) => (
+                    {repoPreferences[selectedRepo.full_name]?.deploymentUrls.map((urlObj, idx) => (
                       <a 
                         key={idx} 
                         href={urlObj.url} 
@@ -1385,12 +1737,34 @@ export default function WrappedPage() {
                 </div>
               )}
 
+              {/* Ownership - your share vs. the whole repo */}
+              {(() => {
+                const share = getOwnershipShare(selectedRepo.stats)
+                const repoTotal = (selectedRepo.stats as ExtendedRepositoryStats | undefined)?.repoTotal
+                if (!share || !repoTotal) return null
+                return (
+                  <div className={styles.modalSection}>
+                    <h3>👥 Your Share</h3>
+                    <div className={styles.authorAnalysisGrid}>
+                      <div className={styles.analysisItem}>
+                        <span className={styles.analysisValue}>{share.commits}%</span>
+                        <span className={styles.analysisLabel}>of {repoTotal.commits.toLocaleString()} commits</span>
+                      </div>
+                      <div className={styles.analysisItem}>
+                        <span className={styles.analysisValue}>{share.lines}%</span>
+                        <span className={styles.analysisLabel}>of {(repoTotal.additions + repoTotal.deletions).toLocaleString()} lines changed</span>
+                      </div>
+                    </div>
+                  </div>
+                )
+              })()}
+
               {/* Commit Attribution - Based on Self-Reported Mode */}
               {selectedRepo.stats?.commits && (
                 <div className={styles.modalSection}>
                   <h3>📊 Commit Attribution</h3>
                   <div className={styles.authorAnalysisGrid}>
-                    {isRepoAiAssisted(selectedRepo.name) ? (
+                    {isRepoAiAssisted(selectedRepo.full_name) ? (
                       <>
                         <div className={styles.analysisItem}>
                           <span className={styles.analysisValue}>{selectedRepo.stats.commits || 0}</span>
@@ -1417,7 +1791,7 @@ export default function WrappedPage() {
                     </div>
                   </div>
                   <p className={styles.attributionNote}>
-                    Attribution based on your {repoPreferences[selectedRepo.name]?.aiAssisted !== undefined ? 'repo setting' : 'global setting'}: {isRepoAiAssisted(selectedRepo.name) ? '🤖 AI-Assisted' : '👤 Manual'}
+                    Attribution based on your {repoPreferences[selectedRepo.full_name]?.aiAssisted !== undefined ? 'repo setting' : 'global setting'}: {isRepoAiAssisted(selectedRepo.full_name) ? '🤖 AI-Assisted' : '👤 Manual'}
                   </p>
                 </div>
               )}
@@ -1647,6 +2021,8 @@ export default function WrappedPage() {
         onClose={() => setShowApiKeyModal(false)}
         onSave={() => setShowApiKeyModal(false)}
       />
+
+      <SyncErrorNotice />
     </>
   )
 }
@@ -1,28 +1,65 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import {
+  AI_PROVIDER_OPTIONS,
+  getProviderOption,
+  loadAISettings,
+  saveAISettings,
+  clearAISettings,
+  fetchStoredAIKey,
+  storeAIKeyOnServer,
+  revokeStoredAIKey,
+  type AISettings,
+  type AIProviderChoice,
+} from '@/utils/aiSettings'
+import type { StoredAIKeyStatus } from '@/types'
 import styles from './ApiKeyModal.module.css'
 
 interface ApiKeyModalProps {
   isOpen: boolean
   onClose: () => void
-  onSave: (apiKey: string) => void
+  onSave: (settings: AISettings) => void
 }
 
 export default function ApiKeyModal({ isOpen, onClose, onSave }: ApiKeyModalProps) {
+  const [provider, setProvider] = useState<AIProviderChoice>('openai')
+  const [model, setModel] = useState('')
+  const [baseURL, setBaseURL] = useState('')
   const [apiKey, setApiKey] = useState('')
+  const [hasSaved, setHasSaved] = useState(false)
   const [error, setError] = useState('')
   const [isValidating, setIsValidating] = useState(false)
+  // Server-side key storage: whether it's offered, what's stored, and whether to use it
+  const [keyStatus, setKeyStatus] = useState<StoredAIKeyStatus | null>(null)
+  const [storeOnServer, setStoreOnServer] = useState(false)
+  const [rotating, setRotating] = useState(false)
+
+  const providerOption = getProviderOption(provider)
+  // The stored key can be reused as long as provider and endpoint haven't changed
+  const storedKey = keyStatus?.key || null
+  const storedKeyMatches = !!storedKey && !rotating && storedKey.provider === provider
+    && (storedKey.baseURL || '') === (providerOption.needsBaseURL ? baseURL.trim() : '')
 
   useEffect(() => {
-    // Load existing key if any
-    const storedKey = localStorage.getItem('openai_api_key')
-    if (storedKey) {
-      setApiKey(storedKey)
+    // Load existing settings if any
+    const stored = loadAISettings()
+    if (stored) {
+      setProvider(stored.provider)
+      setModel(stored.model || '')
+      setBaseURL(stored.baseURL || '')
+      setApiKey(stored.apiKey || '')
+    }
+    setHasSaved(!!stored)
+    setStoreOnServer(stored?.keyStorage === 'server')
+    setRotating(false)
+
+    if (isOpen) {
+      fetchStoredAIKey().then(setKeyStatus).catch(() => setKeyStatus(null))
     }
   }, [isOpen])
 
-  const validateApiKey = async (key: string): Promise<{ valid: boolean; error?: string }> => {
+  const validateOpenAIKey = async (key: string): Promise<{ valid: boolean; error?: string }> => {
     try {
       // Use OpenAI's models endpoint to validate the key
       const response = await fetch('https://api.openai.com/v1/models', {
@@ -31,11 +68,11 @@ export default function ApiKeyModal({ isOpen, onClose, onSave }: ApiKeyModalProp
           'Authorization': `Bearer ${key}`,
         },
       })
-      
+
       if (response.ok) {
         return { valid: true }
       }
-      
+
       const data = await response.json()
       if (response.status === 401) {
         return { valid: false, error: 'Invalid API key. Please check and try again.' }
@@ -43,7 +80,7 @@ export default function ApiKeyModal({ isOpen, onClose, onSave }: ApiKeyModalProp
       if (response.status === 429) {
         return { valid: false, error: 'API key has exceeded rate limits or quota.' }
       }
-      
+
       return { valid: false, error: data.error?.message || 'Failed to validate API key.' }
     } catch (err) {
       return { valid: false, error: 'Network error. Please check your connection.' }
@@ -51,37 +88,110 @@ export default function ApiKeyModal({ isOpen, onClose, onSave }: ApiKeyModalProp
   }
 
   const handleSave = async () => {
-    if (!apiKey.trim()) {
+    const key = apiKey.trim()
+    const url = baseURL.trim()
+
+    const useServerKey = storeOnServer && provider !== 'none'
+    if (useServerKey && !key && !storedKeyMatches) {
+      setError(rotating ? 'Please enter the new API key' : 'Please enter the API key to store')
+      return
+    }
+    if (providerOption.keyRequired && !key && !(useServerKey && storedKeyMatches)) {
       setError('Please enter an API key')
       return
     }
-    if (!apiKey.startsWith('sk-')) {
+    if (provider === 'openai' && key && !key.startsWith('sk-')) {
       setError('API key should start with "sk-"')
       return
     }
-    
-    // Validate the API key
-    setIsValidating(true)
+    if (providerOption.needsBaseURL) {
+      if (!url) {
+        setError('Please enter the endpoint URL')
+        return
+      }
+      try {
+        new URL(url)
+      } catch {
+        setError('Endpoint should be a full URL, e.g. https://...')
+        return
+      }
+    }
+
+    // Only OpenAI can be checked from the browser - other providers are validated on first use
+    if (provider === 'openai' && key) {
+      setIsValidating(true)
+      setError('')
+
+      const result = await validateOpenAIKey(key)
+
+      setIsValidating(false)
+
+      if (!result.valid) {
+        setError(result.error || 'Invalid API key')
+        return
+      }
+    }
+
+    // A new key is encrypted on the server (replacing any stored one); the browser
+    // keeps only a reference to it
+    if (useServerKey && key) {
+      setIsValidating(true)
+      try {
+        setKeyStatus(await storeAIKeyOnServer({ provider, baseURL: providerOption.needsBaseURL ? url : undefined, apiKey: key }))
+        setRotating(false)
+      } catch (err: any) {
+        setError(err.message)
+        return
+      } finally {
+        setIsValidating(false)
+      }
+    }
+
+    const offline = provider === 'none'
+    const settings: AISettings = {
+      provider,
+      model: offline ? undefined : model.trim() || undefined,
+      baseURL: providerOption.needsBaseURL ? url : undefined,
+      apiKey: offline || useServerKey ? undefined : key || undefined,
+      keyStorage: useServerKey ? 'server' : undefined,
+    }
+
+    saveAISettings(settings)
+    setApiKey(useServerKey ? '' : key)
     setError('')
-    
-    const result = await validateApiKey(apiKey.trim())
-    
-    setIsValidating(false)
-    
-    if (!result.valid) {
-      setError(result.error || 'Invalid API key')
+    onSave(settings)
+  }
+
+  const handleRotate = () => {
+    setStoreOnServer(true)
+    setRotating(true)
+    setApiKey('')
+    setError('')
+  }
+
+  const handleRevoke = async () => {
+    try {
+      await revokeStoredAIKey()
+    } catch (err: any) {
+      setError(err.message)
       return
     }
-    
-    // Store in localStorage (client-side only)
-    localStorage.setItem('openai_api_key', apiKey.trim())
+    setKeyStatus(status => status && { ...status, key: null })
+    setRotating(false)
+    // Settings that pointed at the stored key no longer work
+    if (loadAISettings()?.keyStorage === 'server') {
+      clearAISettings()
+      setHasSaved(false)
+    }
     setError('')
-    onSave(apiKey.trim())
   }
 
   const handleClear = () => {
-    localStorage.removeItem('openai_api_key')
+    clearAISettings()
+    setModel('')
+    setBaseURL('')
     setApiKey('')
+    setHasSaved(false)
     setError('')
   }
 
@@ -91,44 +201,139 @@ export default function ApiKeyModal({ isOpen, onClose, onSave }: ApiKeyModalProp
     <div className={styles.overlay} onClick={onClose}>
       <div className={styles.modal} onClick={(e) => e.stopPropagation()} onKeyDown={(e) => e.stopPropagation()}>
         <button className={styles.closeButton} onClick={onClose}>×</button>
-        
+
         <div className={styles.header}>
           <span className={styles.icon}>🔑</span>
-          <h2 className={styles.title}>OpenAI API Key Required</h2>
+          <h2 className={styles.title}>AI Provider Required</h2>
         </div>
-        
+
         <p className={styles.description}>
-          To use AI-powered insights, please provide your OpenAI API key. 
-          Your key is stored locally in your browser and sent directly to OpenAI.
+          To use AI-powered insights, choose a provider and enter your API key.
+          Your settings are stored locally in your browser and only sent along with AI requests,
+          unless you choose to keep the key encrypted on the server.
         </p>
-        
+
         <div className={styles.inputGroup}>
-          <label className={styles.label}>API Key</label>
-          <input
-            type="password"
+          <label className={styles.label}>Provider</label>
+          <select
             className={styles.input}
-            value={apiKey}
-            onChange={(e) => setApiKey(e.target.value)}
-            onKeyDown={(e) => e.stopPropagation()}
-            placeholder="sk-..."
-            autoFocus
-          />
-          {error && <p className={styles.error}>{error}</p>}
+            value={provider}
+            onChange={(e) => {
+              setProvider(e.target.value as AIProviderChoice)
+              setError('')
+            }}
+          >
+            {AI_PROVIDER_OPTIONS.map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
         </div>
-        
+
+        {providerOption.needsBaseURL && (
+          <div className={styles.inputGroup}>
+            <label className={styles.label}>Endpoint URL</label>
+            <input
+              type="url"
+              className={styles.input}
+              value={baseURL}
+              onChange={(e) => setBaseURL(e.target.value)}
+              onKeyDown={(e) => e.stopPropagation()}
+              placeholder={provider === 'azure' ? 'https://your-resource.openai.azure.com' : 'http://localhost:11434/v1'}
+            />
+          </div>
+        )}
+
+        {provider !== 'none' && (
+          <>
+            <div className={styles.inputGroup}>
+              <label className={styles.label}>Model</label>
+              <input
+                type="text"
+                className={styles.input}
+                value={model}
+                onChange={(e) => setModel(e.target.value)}
+                onKeyDown={(e) => e.stopPropagation()}
+                placeholder={providerOption.modelPlaceholder}
+              />
+            </div>
+
+            <div className={styles.inputGroup}>
+              <label className={styles.label}>API Key{providerOption.keyRequired ? '' : ' (optional)'}</label>
+              <input
+                type="password"
+                className={styles.input}
+                value={apiKey}
+                onChange={(e) => setApiKey(e.target.value)}
+                onKeyDown={(e) => e.stopPropagation()}
+                placeholder={storedKeyMatches && storeOnServer
+                  ? `Stored on server (…${storedKey!.keyHint}) - leave blank to keep it`
+                  : providerOption.keyPlaceholder}
+                autoFocus
+              />
+              {error && <p className={styles.error}>{error}</p>}
+            </div>
+
+            {keyStatus?.available && (
+              <label className={styles.checkbox}>
+                <input
+                  type="checkbox"
+                  checked={storeOnServer}
+                  onChange={(e) => {
+                    setStoreOnServer(e.target.checked)
+                    setError('')
+                  }}
+                />
+                Keep my key encrypted on the server instead of in this browser
+              </label>
+            )}
+
+            {storedKey && (
+              <div className={styles.storedKey}>
+                <span>
+                  🔐 {getProviderOption(storedKey.provider).label} key …{storedKey.keyHint} stored
+                  · updated {new Date(storedKey.updatedAt).toLocaleDateString()}
+                </span>
+                <span className={styles.storedKeyActions}>
+                  <button type="button" className={styles.linkButton} onClick={handleRotate} disabled={isValidating}>
+                    Rotate
+                  </button>
+                  <button type="button" className={styles.linkButton} onClick={handleRevoke} disabled={isValidating}>
+                    Revoke
+                  </button>
+                </span>
+              </div>
+            )}
+          </>
+        )}
+
         <div className={styles.info}>
-          <p>💡 Get your API key from <a href="https://platform.openai.com/api-keys" target="_blank" rel="noopener noreferrer">platform.openai.com</a></p>
-          <p>🔒 Your key never leaves your browser except for OpenAI requests</p>
+          {provider === 'openai' && (
+            <p>💡 Get your API key from <a href="https://platform.openai.com/api-keys" target="_blank" rel="noopener noreferrer">platform.openai.com</a></p>
+          )}
+          {provider === 'anthropic' && (
+            <p>💡 Get your API key from <a href="https://console.anthropic.com/settings/keys" target="_blank" rel="noopener noreferrer">console.anthropic.com</a></p>
+          )}
+          {provider === 'none' && (
+            <p>📴 No AI calls - summaries and groups are built from READMEs, commit messages and repo names</p>
+          )}
+          {provider === 'openai-compatible' && (
+            <p>🏢 Custom endpoints must be approved by the server admin (AI_ALLOWED_BASE_URLS)</p>
+          )}
+          {storeOnServer && provider !== 'none' ? (
+            <p>🔐 Your key is encrypted on the server and never sent back to the browser</p>
+          ) : (
+            <p>🔒 Your key never leaves your browser except for AI requests</p>
+          )}
         </div>
-        
+
         <div className={styles.buttons}>
-          {apiKey && !isValidating && (
+          {hasSaved && !isValidating && (
             <button className={styles.clearButton} onClick={handleClear}>
-              Clear Saved Key
+              Clear Saved Settings
             </button>
           )}
-          <button 
-            className={styles.saveButton} 
+          <button
+            className={styles.saveButton}
             onClick={handleSave}
             disabled={isValidating}
           >
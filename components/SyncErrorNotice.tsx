@@ -0,0 +1,31 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { subscribeToSyncErrors, type SyncError } from '@/utils/serverSync'
+import styles from './SyncErrorNotice.module.css'
+
+const KIND_LABELS: Record<SyncError['kind'], string> = {
+  preferences: 'preferences',
+  wrapped: 'wrapped results',
+}
+
+/**
+ * Tells the user when a change couldn't be saved to the server (it's still in this browser)
+ */
+export default function SyncErrorNotice() {
+  const [error, setError] = useState<SyncError | null>(null)
+
+  useEffect(() => subscribeToSyncErrors(setError), [])
+
+  if (!error) return null
+
+  return (
+    <div className={styles.notice} role="status">
+      <span>
+        ⚠️ Couldn&apos;t save your {KIND_LABELS[error.kind]} to the server ({error.message}).
+        They&apos;re kept in this browser only for now.
+      </span>
+      <button className={styles.dismiss} onClick={() => setError(null)} aria-label="Dismiss">×</button>
+    </div>
+  )
+}
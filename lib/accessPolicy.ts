@@ -0,0 +1,107 @@
+import { createHash } from 'crypto'
+import { createGitHubClient } from '@/lib/github'
+import type { AccessGrant } from '@/types'
+
+/**
+ * Access policy - who may run on the server's AI credentials (everyone else brings
+ * their own key). A user is allowed when their login is in ALLOWED_USERS, or they're
+ * an active member of an org in ALLOWED_ORGS or a team in ALLOWED_TEAMS (org/team-slug).
+ *
+ * Server-only. Membership is read with the user's own token (the OAuth scope includes
+ * read:org) and the decision is cached per token, i.e. per session.
+ */
+
+// How long a membership decision is reused before GitHub is asked again
+const ACCESS_TTL_MS = 10 * 60 * 1000
+
+export interface AccessDecision {
+  allowed: boolean
+  via: AccessGrant | null
+  match: string | null  // The login, org or org/team that granted access
+}
+
+const DENIED: AccessDecision = { allowed: false, via: null, match: null }
+
+// Token hash -> decision. Expired entries are pruned on write so the map only holds
+// tokens seen in the last ACCESS_TTL_MS
+const decisions = new Map<string, { decision: AccessDecision; expiresAt: number }>()
+
+function rememberDecision(key: string, decision: AccessDecision): void {
+  const now = Date.now()
+  decisions.forEach((entry, cachedKey) => {
+    if (entry.expiresAt <= now) decisions.delete(cachedKey)
+  })
+  decisions.set(key, { decision, expiresAt: now + ACCESS_TTL_MS })
+}
+
+function parseList(value: string | undefined): string[] {
+  return (value?.split(',') || [])
+    .map(entry => entry.trim().toLowerCase())
+    .filter(entry => entry.length > 0) // Filter out empty entries
+}
+
+/**
+ * Whether a login is on the ALLOWED_USERS list (comma-separated GitHub logins)
+ */
+export function isUserAllowlisted(username: string): boolean {
+  if (!username || username.trim() === '') return false // Reject empty usernames
+  return parseList(process.env.ALLOWED_USERS).includes(username.toLowerCase())
+}
+
+// Active membership only - pending invitations don't count. 404/403 mean "not a member"
+// (or the team is secret); anything else is a real failure and isn't cached.
+async function isActiveMember(check: () => Promise<{ data: { state: string } }>): Promise<boolean> {
+  try {
+    const { data } = await check()
+    return data.state === 'active'
+  } catch (error: any) {
+    if (error.status === 404 || error.status === 403) return false
+    throw error
+  }
+}
+
+async function checkMemberships(login: string, accessToken: string): Promise<AccessDecision> {
+  const orgs = parseList(process.env.ALLOWED_ORGS)
+  const teams = parseList(process.env.ALLOWED_TEAMS)
+    .map(entry => entry.split('/'))
+    .filter(parts => parts.length === 2 && parts[0] && parts[1])
+  if (orgs.length === 0 && teams.length === 0) return DENIED
+
+  const octokit = createGitHubClient(accessToken, { login })
+
+  for (const org of orgs) {
+    if (await isActiveMember(() => octokit.orgs.getMembershipForAuthenticatedUser({ org }))) {
+      return { allowed: true, via: 'org', match: org }
+    }
+  }
+  for (const [org, teamSlug] of teams) {
+    if (await isActiveMember(() => octokit.teams.getMembershipForUserInOrg({ org, team_slug: teamSlug, username: login }))) {
+      return { allowed: true, via: 'team', match: `${org}/${teamSlug}` }
+    }
+  }
+  return DENIED
+}
+
+/**
+ * Decide whether a user may use the server's AI credentials. The login must be the
+ * verified one (OAuth profile or token owner), never something the client sent.
+ */
+export async function resolveAccess(auth: { login: string; accessToken: string }): Promise<AccessDecision> {
+  if (!auth.login || auth.login.trim() === '') return DENIED
+  if (isUserAllowlisted(auth.login)) {
+    return { allowed: true, via: 'user', match: auth.login.toLowerCase() }
+  }
+
+  const key = createHash('sha256').update(auth.accessToken).digest('hex')
+  const cached = decisions.get(key)
+  if (cached && cached.expiresAt > Date.now()) return cached.decision
+
+  try {
+    const decision = await checkMemberships(auth.login, auth.accessToken)
+    rememberDecision(key, decision)
+    return decision
+  } catch (error) {
+    console.error('Error checking org/team membership:', error)
+    return DENIED
+  }
+}
@@ -0,0 +1,162 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto'
+import { getDb } from '@/lib/db'
+import type { LLMProviderId } from '@/lib/llm'
+import type { StoredAIKeyInfo } from '@/types'
+
+/**
+ * Server-side BYOK key storage (SQLite) - a user's own provider key, encrypted at rest
+ * with AES-256-GCM under the AI_KEY_ENCRYPTION_KEY master key and keyed by GitHub login.
+ * The browser then only says "use my stored key" (x-ai-key-source: server) and the key
+ * is looked up for the verified login on each request.
+ *
+ * Server-only. Without a master key, storage is off and keys stay in the browser.
+ */
+
+const ALGORITHM = 'aes-256-gcm'
+const PAYLOAD_VERSION = 'v1'
+// Fixed salt - the master key is a high-entropy secret, scrypt just fits it to 32 bytes
+const KDF_SALT = 'github-wrapped:ai-keys'
+const MIN_MASTER_KEY_LENGTH = 32
+
+export interface StoredAIKey {
+  provider: LLMProviderId
+  baseURL: string | null
+  apiKey: string
+}
+
+interface KeyRow {
+  provider: LLMProviderId
+  base_url: string | null
+  encrypted_key: string
+  key_hint: string
+  created_at: string
+  updated_at: string
+}
+
+let derivedKey: { secret: string; key: Buffer } | null = null
+
+function getMasterKey(): Buffer | null {
+  const secret = process.env.AI_KEY_ENCRYPTION_KEY
+  if (!secret || secret.length < MIN_MASTER_KEY_LENGTH) return null
+  if (derivedKey?.secret !== secret) {
+    derivedKey = { secret, key: scryptSync(secret, KDF_SALT, 32) }
+  }
+  return derivedKey.key
+}
+
+/**
+ * Whether keys can be stored server-side (AI_KEY_ENCRYPTION_KEY is set, 32+ characters)
+ */
+export function isKeyStorageEnabled(): boolean {
+  return getMasterKey() !== null
+}
+
+// The login is bound in as associated data, so a ciphertext copied onto another
+// user's row fails to decrypt
+function encrypt(plaintext: string, login: string, masterKey: Buffer): string {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv(ALGORITHM, masterKey, iv)
+  cipher.setAAD(Buffer.from(login))
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()])
+  return [PAYLOAD_VERSION, iv, cipher.getAuthTag(), ciphertext]
+    .map(part => typeof part === 'string' ? part : part.toString('base64'))
+    .join(':')
+}
+
+function decrypt(payload: string, login: string, masterKey: Buffer): string {
+  const [version, iv, tag, ciphertext] = payload.split(':')
+  if (version !== PAYLOAD_VERSION || !iv || !tag || !ciphertext) {
+    throw new Error('Unrecognized encrypted key format')
+  }
+  const decipher = createDecipheriv(ALGORITHM, masterKey, Buffer.from(iv, 'base64'))
+  decipher.setAAD(Buffer.from(login))
+  decipher.setAuthTag(Buffer.from(tag, 'base64'))
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8')
+}
+
+function toInfo(row: KeyRow): StoredAIKeyInfo {
+  return {
+    provider: row.provider,
+    baseURL: row.base_url,
+    keyHint: row.key_hint,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+function getRow(login: string): KeyRow | undefined {
+  return getDb()
+    .prepare('SELECT provider, base_url, encrypted_key, key_hint, created_at, updated_at FROM ai_keys WHERE login = ?')
+    .get(login.toLowerCase()) as KeyRow | undefined
+}
+
+/**
+ * What's stored for a user, without the key (null if nothing is)
+ */
+export function getStoredAIKeyInfo(login: string): StoredAIKeyInfo | null {
+  const row = getRow(login)
+  return row ? toInfo(row) : null
+}
+
+/**
+ * Store a user's key, replacing (rotating) any previous one
+ */
+export function storeAIKey(login: string, entry: { provider: LLMProviderId; baseURL: string | null; apiKey: string }): StoredAIKeyInfo {
+  const masterKey = getMasterKey()
+  if (!masterKey) {
+    throw new Error('Server-side key storage is not configured')
+  }
+
+  const normalizedLogin = login.toLowerCase()
+  const now = new Date().toISOString()
+  const existing = getRow(normalizedLogin)
+  const row: KeyRow = {
+    provider: entry.provider,
+    base_url: entry.baseURL,
+    encrypted_key: encrypt(entry.apiKey, normalizedLogin, masterKey),
+    key_hint: entry.apiKey.slice(-4),
+    created_at: existing?.created_at || now,
+    updated_at: now,
+  }
+
+  getDb()
+    .prepare(`
+      INSERT OR REPLACE INTO ai_keys (login, provider, base_url, encrypted_key, key_hint, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `)
+    .run(normalizedLogin, row.provider, row.base_url, row.encrypted_key, row.key_hint, row.created_at, row.updated_at)
+
+  return toInfo(row)
+}
+
+/**
+ * Delete a user's stored key; returns whether there was one
+ */
+export function revokeAIKey(login: string): boolean {
+  const result = getDb()
+    .prepare('DELETE FROM ai_keys WHERE login = ?')
+    .run(login.toLowerCase())
+  return result.changes > 0
+}
+
+/**
+ * Decrypt a user's stored key for an LLM call (null if there's none or it can't be
+ * read, e.g. the master key changed - the user has to store it again)
+ */
+export function getStoredAIKey(login: string): StoredAIKey | null {
+  const masterKey = getMasterKey()
+  if (!masterKey || !login) return null
+
+  try {
+    const row = getRow(login)
+    if (!row) return null
+    return {
+      provider: row.provider,
+      baseURL: row.base_url,
+      apiKey: decrypt(row.encrypted_key, login.toLowerCase(), masterKey),
+    }
+  } catch (error) {
+    console.error('Error reading stored AI key:', error)
+    return null
+  }
+}
@@ -0,0 +1,295 @@
+import { getDb } from '@/lib/db'
+import type { LLMClient, LLMCompletion } from '@/lib/llm'
+import type { AIQuotaPeriod, AIQuotaStatus, AIRunUsage, AIUsageSummary, AIUsageTotals } from '@/types'
+
+/**
+ * AI usage metering (SQLite) - tokens and estimated cost of every LLM call, per GitHub
+ * login and per analysis run, and the daily/monthly quotas on the server's credentials.
+ * Calls made with the user's own key are recorded too but never count toward a quota.
+ * Storage errors are logged and treated as no usage - metering never blocks a summary.
+ */
+
+export const AI_QUOTA_EXCEEDED = 'AI_QUOTA_EXCEEDED'
+
+type ModelPrice = [prefix: string, input: number, output: number]
+
+// USD per million tokens [model prefix, input, output]; the longest matching prefix wins.
+// Operators add or override entries with AI_MODEL_PRICES (see getOperatorPrices).
+const MODEL_PRICES: ModelPrice[] = [
+  ['gpt-4o-mini', 0.15, 0.6],
+  ['gpt-4o', 2.5, 10],
+  ['gpt-4.1-nano', 0.1, 0.4],
+  ['gpt-4.1-mini', 0.4, 1.6],
+  ['gpt-4.1', 2, 8],
+  ['gpt-4-turbo', 10, 30],
+  ['gpt-3.5-turbo', 0.5, 1.5],
+  ['o3-mini', 1.1, 4.4],
+  ['o4-mini', 1.1, 4.4],
+  ['claude-3-5-haiku', 0.8, 4],
+  ['claude-3-5-sonnet', 3, 15],
+  ['claude-3-7-sonnet', 3, 15],
+  ['claude-sonnet-4', 3, 15],
+  ['claude-3-haiku', 0.25, 1.25],
+  ['claude-3-opus', 15, 75],
+  ['claude-opus-4', 15, 75],
+]
+
+// Hosted models with no price anywhere (e.g. a newer release) are charged at the dearest
+// listed rate so they can't slip past a cost quota - with a warning naming the model
+const FALLBACK_PRICE: ModelPrice = [
+  '',
+  Math.max(...MODEL_PRICES.map(([, input]) => input)),
+  Math.max(...MODEL_PRICES.map(([, , output]) => output)),
+]
+
+let operatorPrices: { raw: string; prices: ModelPrice[] } | null = null
+const warnedModels = new Set<string>()
+
+interface TotalsRow {
+  requests: number
+  prompt_tokens: number | null
+  completion_tokens: number | null
+  cost_usd: number | null
+}
+
+interface RunRow {
+  run_id: string
+  requests: number
+  total_tokens: number
+  cost_usd: number
+  started_at: string
+}
+
+const EMPTY_TOTALS: AIUsageTotals = { requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 }
+
+// AI_MODEL_PRICES: comma-separated model=input/output in USD per million tokens, e.g.
+// "llama3=0/0,prod-chat=2.5/10" (model prefixes, like the built-in table). Malformed
+// entries are skipped.
+function getOperatorPrices(): ModelPrice[] {
+  const raw = process.env.AI_MODEL_PRICES || ''
+  if (operatorPrices?.raw !== raw) {
+    const prices: ModelPrice[] = []
+    raw.split(',').forEach(entry => {
+      const [model, rates] = entry.split('=').map(part => part?.trim())
+      const [input, output] = (rates || '').split('/').map(Number)
+      if (!model || !Number.isFinite(input) || !Number.isFinite(output) || input < 0 || output < 0) return
+      prices.push([model.toLowerCase(), input, output])
+    })
+    operatorPrices = { raw, prices }
+  }
+  return operatorPrices.prices
+}
+
+// The first name with a matching entry wins; among its matches, the longest prefix
+function findPrice(prices: ModelPrice[], names: Array<string | undefined>): ModelPrice | null {
+  for (const name of names) {
+    if (!name) continue
+    const match = prices
+      .filter(([prefix]) => name.startsWith(prefix))
+      .sort((a, b) => b[0].length - a[0].length)[0]
+    if (match) return match
+  }
+  return null
+}
+
+/**
+ * Estimated cost in USD of one completion. Operator prices (AI_MODEL_PRICES) win, matched
+ * on the configured model (e.g. an Azure deployment name) first; the built-in table is
+ * matched on the model the provider reports first, so Azure deployments are priced as
+ * their underlying model. OpenAI-compatible servers (self-hosted) are free unless priced.
+ */
+export function estimateCost(
+  completion: Pick<LLMCompletion, 'provider' | 'model' | 'servedModel'>,
+  promptTokens: number,
+  completionTokens: number
+): number {
+  const configured = completion.model.toLowerCase()
+  const served = completion.servedModel?.toLowerCase()
+
+  let price = findPrice(getOperatorPrices(), [configured, served])
+  if (!price && completion.provider === 'openai-compatible') return 0
+  price = price || findPrice(MODEL_PRICES, [served, configured])
+  if (!price) {
+    if (!warnedModels.has(configured)) {
+      warnedModels.add(configured)
+      console.warn(`No price known for ${completion.provider} model "${completion.model}" - estimating at $${FALLBACK_PRICE[1]}/$${FALLBACK_PRICE[2]} per million tokens; set AI_MODEL_PRICES to price it`)
+    }
+    price = FALLBACK_PRICE
+  }
+  return (promptTokens * price[1] + completionTokens * price[2]) / 1_000_000
+}
+
+/**
+ * Record one completion's token usage (no-op when the provider didn't report any)
+ */
+export function recordUsage(entry: {
+  login: string
+  runId: string | null
+  serverKey: boolean
+  completion: LLMCompletion
+}): void {
+  const usage = entry.completion.usage
+  if (!usage || !entry.login) return
+
+  try {
+    getDb()
+      .prepare(`
+        INSERT INTO ai_usage (login, run_id, provider, model, server_key, prompt_tokens, completion_tokens, cost_usd, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        entry.login.toLowerCase(),
+        entry.runId,
+        entry.completion.provider,
+        entry.completion.model,
+        entry.serverKey ? 1 : 0,
+        usage.prompt_tokens,
+        usage.completion_tokens,
+        estimateCost(entry.completion, usage.prompt_tokens, usage.completion_tokens),
+        new Date().toISOString()
+      )
+  } catch (error) {
+    console.error('Error recording AI usage:', error)
+  }
+}
+
+// Quotas run on UTC calendar days and months
+function periodStart(period: AIQuotaPeriod, now: Date): Date {
+  return period === 'day'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+}
+
+function periodEnd(period: AIQuotaPeriod, now: Date): Date {
+  return period === 'day'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+}
+
+function sumUsage(login: string, since: Date, serverKeyOnly: boolean): AIUsageTotals {
+  try {
+    const row = getDb()
+      .prepare(`
+        SELECT COUNT(*) AS requests, SUM(prompt_tokens) AS prompt_tokens,
+          SUM(completion_tokens) AS completion_tokens, SUM(cost_usd) AS cost_usd
+        FROM ai_usage
+        WHERE login = ? AND created_at >= ? ${serverKeyOnly ? 'AND server_key = 1' : ''}
+      `)
+      .get(login.toLowerCase(), since.toISOString()) as TotalsRow
+    const promptTokens = row.prompt_tokens || 0
+    const completionTokens = row.completion_tokens || 0
+    return {
+      requests: row.requests,
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      costUsd: row.cost_usd || 0,
+    }
+  } catch (error) {
+    console.error('Error reading AI usage:', error)
+    return { ...EMPTY_TOTALS }
+  }
+}
+
+// A positive number from the environment, or null (no limit)
+function readLimit(name: string): number | null {
+  const value = Number(process.env[name])
+  return Number.isFinite(value) && value > 0 ? value : null
+}
+
+/**
+ * A user's server-key usage against AI_DAILY_TOKEN_LIMIT, AI_MONTHLY_TOKEN_LIMIT,
+ * AI_DAILY_COST_LIMIT and AI_MONTHLY_COST_LIMIT (USD). Unset limits don't apply.
+ */
+export function getQuotaStatus(login: string): AIQuotaStatus {
+  const now = new Date()
+  const limits = {
+    dailyTokens: readLimit('AI_DAILY_TOKEN_LIMIT'),
+    monthlyTokens: readLimit('AI_MONTHLY_TOKEN_LIMIT'),
+    dailyCostUsd: readLimit('AI_DAILY_COST_LIMIT'),
+    monthlyCostUsd: readLimit('AI_MONTHLY_COST_LIMIT'),
+  }
+  const usedToday = sumUsage(login, periodStart('day', now), true)
+  const usedThisMonth = sumUsage(login, periodStart('month', now), true)
+
+  const over = (used: number, limit: number | null) => limit !== null && used >= limit
+  // The monthly quota wins when both are exhausted - it resets last
+  let exceeded: AIQuotaPeriod | null = null
+  let message: string | null = null
+  if (over(usedThisMonth.totalTokens, limits.monthlyTokens) || over(usedThisMonth.costUsd, limits.monthlyCostUsd)) {
+    exceeded = 'month'
+    message = 'You have used your monthly AI quota on this server. Add your own API key to keep using AI features, or wait for the quota to reset.'
+  } else if (over(usedToday.totalTokens, limits.dailyTokens) || over(usedToday.costUsd, limits.dailyCostUsd)) {
+    exceeded = 'day'
+    message = 'You have used your daily AI quota on this server. Add your own API key to keep using AI features, or try again tomorrow.'
+  }
+
+  return {
+    limits,
+    usedToday,
+    usedThisMonth,
+    exceeded,
+    message,
+    resetsAt: exceeded ? periodEnd(exceeded, now).toISOString() : null,
+  }
+}
+
+/**
+ * Today's and this month's usage (server and own key), quota status and recent runs
+ */
+export function getUsageSummary(login: string, runLimit = 5): AIUsageSummary {
+  const now = new Date()
+  let recentRuns: AIRunUsage[] = []
+  try {
+    const rows = getDb()
+      .prepare(`
+        SELECT run_id, COUNT(*) AS requests, SUM(prompt_tokens + completion_tokens) AS total_tokens,
+          SUM(cost_usd) AS cost_usd, MIN(created_at) AS started_at
+        FROM ai_usage
+        WHERE login = ? AND run_id IS NOT NULL
+        GROUP BY run_id
+        ORDER BY started_at DESC
+        LIMIT ?
+      `)
+      .all(login.toLowerCase(), runLimit) as RunRow[]
+    recentRuns = rows.map(row => ({
+      runId: row.run_id,
+      requests: row.requests,
+      totalTokens: row.total_tokens,
+      costUsd: row.cost_usd,
+      startedAt: row.started_at,
+    }))
+  } catch (error) {
+    console.error('Error reading AI usage runs:', error)
+  }
+
+  return {
+    today: sumUsage(login, periodStart('day', now), false),
+    month: sumUsage(login, periodStart('month', now), false),
+    quota: getQuotaStatus(login),
+    recentRuns,
+  }
+}
+
+/**
+ * Wrap an LLM client so every completion is recorded against the user (and run).
+ * On the server's credentials, calls are refused once the user is over quota - the
+ * error carries code AI_QUOTA_EXCEEDED so callers can fall back or answer 429.
+ */
+export function withUsageMetering(llm: LLMClient, context: { login: string; runId?: string | null }): LLMClient {
+  const serverKey = llm.config.serverKey === true
+  return {
+    config: llm.config,
+    complete: async (request) => {
+      if (serverKey) {
+        const quota = getQuotaStatus(context.login)
+        if (quota.exceeded) {
+          throw Object.assign(new Error(quota.message || 'AI quota exceeded'), { code: AI_QUOTA_EXCEEDED })
+        }
+      }
+      const completion = await llm.complete(request)
+      recordUsage({ login: context.login, runId: context.runId ?? null, serverKey, completion })
+      return completion
+    },
+  }
+}
@@ -0,0 +1,394 @@
+import { randomUUID } from 'crypto'
+import type { LLMClient } from '@/lib/llm'
+import { withUsageMetering } from '@/lib/aiUsage'
+import { createGitHubClient, getRecordedRateLimit } from '@/lib/github'
+import { fetchRepositoryStats } from '@/lib/repoStats'
+import { generateRepoSummary, getSummaryCacheKey, type RepoSummaryInput } from '@/lib/repoAnalysis'
+import { getCachedSummary } from '@/lib/summaryCache'
+import { summarizeRepository } from '@/lib/heuristics'
+import { analyzeWrapped, buildFallbackAnalysis } from '@/lib/wrappedAnalysis'
+import { resolveDateRange } from '@/utils/dateRange'
+import { getRepoPreferenceKey } from '@/utils/preferencesSchema'
+import type {
+  AISummary,
+  AnalysisJobEvent,
+  AnalysisJobRepoFailure,
+  AnalysisJobStatus,
+  AnalyzedRepository,
+  AuthorScope,
+  SummarySource,
+} from '@/types'
+
+/**
+ * Analysis Jobs - run stats -> analyze -> group for a set of repositories on the
+ * server, recording progress as events that clients stream (and replay) over SSE.
+ *
+ * Server-only. Jobs live in memory on this instance and are dropped an hour after
+ * they finish (or, unfinished, after an hour with no events and nobody listening -
+ * e.g. paused with the tab closed), so a restart loses in-flight jobs - clients keep
+ * finished repos and pass them back (completedRepositories) to resume without redoing them.
+ */
+
+// Repos processed at once (each one makes several GitHub calls plus an LLM call)
+const ANALYSIS_CONCURRENCY = 4
+
+const JOB_TTL_MS = 60 * 60 * 1000
+
+// Unfinished jobs nobody listens to are cancelled after this long without an event
+const IDLE_JOB_TTL_MS = 60 * 60 * 1000
+
+const PRUNE_INTERVAL_MS = 5 * 60 * 1000
+
+type JobListener = (event: AnalysisJobEvent) => void
+
+export interface AnalysisJob {
+  id: string
+  login: string
+  status: AnalysisJobStatus
+  events: AnalysisJobEvent[]
+  listeners: Set<JobListener>
+  abortController: AbortController  // Aborts in-flight GitHub and LLM calls on cancel
+  pause: { promise: Promise<void>; resume: () => void } | null  // Set while the queue is paused
+  createdAt: number
+  finishedAt: number | null
+  lastActiveAt: number  // Last event or subscriber change
+}
+
+export interface AnalysisJobRequest {
+  login: string
+  accessToken: string
+  llm: LLMClient | null  // null = AI turned off, summaries are built heuristically
+  repositories: AnalyzedRepository[]           // Repos to analyze
+  completedRepositories?: AnalyzedRepository[]  // Already analyzed - only regrouped
+  year: number | null
+  authorScope: AuthorScope
+  userPreferences?: any
+  previousYear?: unknown
+  timeZone?: unknown
+}
+
+const jobs = new Map<string, AnalysisJob>()
+
+let pruneTimer: ReturnType<typeof setInterval> | null = null
+
+/**
+ * Whether an event ends the job (nothing follows it)
+ */
+export function isTerminalJobEvent(event: AnalysisJobEvent): event is Extract<AnalysisJobEvent, { type: AnalysisJobStatus }> {
+  return event.type === 'complete' || event.type === 'failed' || event.type === 'cancelled'
+}
+
+function pruneJobs(): void {
+  const now = Date.now()
+  jobs.forEach((job, id) => {
+    if (job.finishedAt) {
+      if (now - job.finishedAt > JOB_TTL_MS) jobs.delete(id)
+    } else if (job.listeners.size === 0 && now - job.lastActiveAt > IDLE_JOB_TTL_MS) {
+      cancelAnalysisJob(job)
+      jobs.delete(id)
+    }
+  })
+  if (jobs.size === 0 && pruneTimer) {
+    clearInterval(pruneTimer)
+    pruneTimer = null
+  }
+}
+
+// Prune in the background while there are jobs, so abandoned ones go even if no new
+// job is started (unref'd - the timer never keeps the process alive)
+function schedulePruning(): void {
+  if (pruneTimer) return
+  pruneTimer = setInterval(pruneJobs, PRUNE_INTERVAL_MS)
+  pruneTimer.unref?.()
+}
+
+function emit<T extends AnalysisJobEvent['type']>(
+  job: AnalysisJob,
+  type: T,
+  data: Extract<AnalysisJobEvent, { type: T }>['data']
+): void {
+  // Nothing is reported after the job ends (e.g. repos aborted by a cancel)
+  if (job.status !== 'running') return
+
+  const event = { id: job.events.length + 1, type, data } as AnalysisJobEvent
+  job.events.push(event)
+  job.lastActiveAt = Date.now()
+
+  if (isTerminalJobEvent(event)) {
+    job.status = event.type
+    job.finishedAt = Date.now()
+  }
+
+  job.listeners.forEach(listener => {
+    try {
+      listener(event)
+    } catch (error) {
+      console.error('Error delivering analysis job event:', error)
+    }
+  })
+  if (job.status !== 'running') job.listeners.clear()
+}
+
+// Run worker over items with at most `limit` in flight. Each runner waits for
+// waitTurn before taking the next item, and stops taking items once aborted.
+async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  signal: AbortSignal,
+  waitTurn: () => Promise<void>,
+  worker: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length && !signal.aborted) {
+      await waitTurn()
+      if (signal.aborted || next >= items.length) break
+      await worker(items[next++])
+    }
+  })
+  await Promise.all(runners)
+}
+
+// Summary for one repo: server cache, then the LLM, then heuristics
+async function summarizeJobRepo(
+  llm: LLMClient | null,
+  input: RepoSummaryInput,
+  headSha: string | null,
+  login: string
+): Promise<{ summary: AISummary; source: SummarySource; cacheKey: string | null }> {
+  if (!llm) {
+    return { summary: summarizeRepository(input), source: 'heuristic', cacheKey: null }
+  }
+
+  const cacheKey = getSummaryCacheKey(input, headSha, login)
+  const cached = cacheKey ? getCachedSummary(cacheKey) : null
+  if (cached) {
+    return { summary: cached.summary, source: 'cached', cacheKey }
+  }
+
+  try {
+    const { summary } = await generateRepoSummary(llm, input, cacheKey && headSha ? { cacheKey, headSha } : null)
+    return { summary, source: 'ai', cacheKey }
+  } catch (error) {
+    console.error(`Error generating AI summary for ${input.repoName}:`, error)
+    return { summary: summarizeRepository(input), source: 'fallback', cacheKey: null }
+  }
+}
+
+// The same client with every call tied to the job's abort signal
+function withSignal(llm: LLMClient | null, signal: AbortSignal): LLMClient | null {
+  if (!llm) return null
+  return {
+    config: llm.config,
+    complete: request => llm.complete({ ...request, signal }),
+  }
+}
+
+async function runAnalysisJob(job: AnalysisJob, request: AnalysisJobRequest): Promise<void> {
+  const { login, accessToken, repositories, year, authorScope, userPreferences, completedRepositories = [] } = request
+  const signal = job.abortController.signal
+  // Token usage is recorded against the user with the job as the run
+  const llm = withSignal(request.llm && withUsageMetering(request.llm, { login, runId: job.id }), signal)
+  const octokit = createGitHubClient(accessToken, { login, signal })
+  const range = resolveDateRange({ year: year ?? undefined })
+  const total = completedRepositories.length + repositories.length
+  const analyzed = new Map<string, AnalyzedRepository>()
+  const failed: AnalysisJobRepoFailure[] = []
+  let completed = completedRepositories.length
+  let reportedRemaining: number | null = null
+
+  // Pass on the GitHub quota when it has moved (clients may pause when it runs low)
+  const reportRateLimit = () => {
+    const rateLimit = getRecordedRateLimit(login)
+    if (!rateLimit || rateLimit.remaining === reportedRemaining) return
+    reportedRemaining = rateLimit.remaining
+    emit(job, 'rateLimit', rateLimit)
+  }
+
+  emit(job, 'start', { jobId: job.id, year, total, completed })
+
+  const waitTurn = async () => {
+    while (job.pause && !signal.aborted) await job.pause.promise
+  }
+
+  await runWithConcurrency(repositories, ANALYSIS_CONCURRENCY, signal, waitTurn, async repo => {
+    const fullName = getRepoPreferenceKey(repo)
+    const progress = { fullName, name: repo.name, total }
+
+    try {
+      emit(job, 'repo', { ...progress, stage: 'stats', completed })
+      const stats = await fetchRepositoryStats(octokit, {
+        owner: repo.owner.login,
+        repo: repo.name,
+        range,
+        authorScope,
+        sessionLogin: login,
+        lastScanned: userPreferences?.repos?.[fullName]?.lastScanned,
+      })
+
+      emit(job, 'repo', { ...progress, stage: 'summary', completed })
+      const { summary, source, cacheKey } = await summarizeJobRepo(llm, {
+        owner: repo.owner.login,
+        repoName: repo.name,
+        description: repo.description,
+        stats: { ...stats, primaryLanguage: repo.language },
+        readme: stats.readme,
+        commitMessages: stats.commitMessages,
+        narrative: userPreferences?.repos?.[fullName]?.narrative,
+        year,
+      }, stats.headSha, login)
+
+      const result: AnalyzedRepository = { ...repo, stats, aiSummary: summary, analyzing: false }
+      analyzed.set(fullName, result)
+      completed++
+      emit(job, 'repo', { ...progress, stage: 'done', repository: result, summarySource: source, cacheKey, completed })
+      reportRateLimit()
+    } catch (error: any) {
+      if (signal.aborted) return
+      console.error(`Error analyzing ${fullName}:`, error)
+      completed++
+      failed.push({ fullName, name: repo.name, error: error.message || 'Analysis failed' })
+      emit(job, 'repo', { ...progress, stage: 'error', error: error.message || 'Analysis failed', completed })
+      reportRateLimit()
+    }
+  })
+
+  if (signal.aborted) return
+
+  // Keep the selection order (repos finish out of order)
+  const results = [
+    ...completedRepositories,
+    ...repositories
+      .map(repo => analyzed.get(getRepoPreferenceKey(repo)))
+      .filter((repo): repo is AnalyzedRepository => !!repo),
+  ]
+
+  if (results.length === 0) {
+    emit(job, 'failed', { error: 'No repositories could be analyzed', failed })
+    return
+  }
+
+  // Calculate total stats for the grouping step
+  const totalStats = results.reduce(
+    (acc, repo) => {
+      acc.totalCommits += repo.stats?.commits || 0
+      acc.totalAdditions += repo.stats?.additions || 0
+      acc.totalDeletions += repo.stats?.deletions || 0
+      acc.totalNet += repo.stats?.net || 0
+      return acc
+    },
+    { totalCommits: 0, totalAdditions: 0, totalDeletions: 0, totalNet: 0 }
+  )
+
+  emit(job, 'phase', { phase: 'grouping', message: 'Generating intelligent groupings and year insights...' })
+
+  const input = {
+    repositories: results,
+    totalStats,
+    userPreferences,
+    year,
+    previousYear: request.previousYear,
+    timeZone: request.timeZone,
+  }
+  let analysis: any
+  try {
+    analysis = await analyzeWrapped(llm, input)
+  } catch (error: any) {
+    if (signal.aborted) return
+    console.error('Error analyzing repositories:', error)
+    analysis = { ...buildFallbackAnalysis(input), fallback: true, error: error.message }
+  }
+
+  emit(job, 'complete', { repositories: results, failed, analysis })
+}
+
+/**
+ * Start a job in the background and return it (progress is read through subscribeToJob)
+ */
+export function startAnalysisJob(request: AnalysisJobRequest): AnalysisJob {
+  pruneJobs()
+
+  const job: AnalysisJob = {
+    id: randomUUID(),
+    login: request.login,
+    status: 'running',
+    events: [],
+    listeners: new Set(),
+    abortController: new AbortController(),
+    pause: null,
+    createdAt: Date.now(),
+    finishedAt: null,
+    lastActiveAt: Date.now(),
+  }
+  jobs.set(job.id, job)
+  schedulePruning()
+
+  runAnalysisJob(job, request).catch((error: any) => {
+    console.error('Analysis job failed:', error)
+    emit(job, 'failed', { error: error.message || 'Analysis failed', failed: [] })
+  })
+
+  return job
+}
+
+/**
+ * Stop a running job: in-flight GitHub and LLM calls are aborted and repos finished
+ * so far stay in its events
+ */
+export function cancelAnalysisJob(job: AnalysisJob): void {
+  if (job.status !== 'running') return
+  const completed = job.events.filter(event => event.type === 'repo' && event.data.stage === 'done').length
+  emit(job, 'cancelled', { completed })
+  job.abortController.abort()
+  job.pause?.resume()  // Let paused runners see the abort and exit
+}
+
+/**
+ * Pause or resume the job's queue: while paused no new repo is started (repos in
+ * flight still finish), e.g. to wait for the GitHub quota to reset
+ */
+export function setAnalysisJobPaused(job: AnalysisJob, paused: boolean): void {
+  if (job.status !== 'running' || paused === !!job.pause) return
+
+  if (paused) {
+    let resume = () => {}
+    const promise = new Promise<void>(resolve => { resume = resolve })
+    job.pause = { promise, resume }
+  } else {
+    job.pause?.resume()
+    job.pause = null
+  }
+  emit(job, 'queue', { paused })
+}
+
+/**
+ * Look up a job for its owner (null if unknown, expired or someone else's)
+ */
+export function getAnalysisJob(jobId: string, login: string): AnalysisJob | null {
+  pruneJobs()
+  const job = jobs.get(jobId)
+  return job && job.login === login ? job : null
+}
+
+/**
+ * Replay the events after afterId, then deliver new ones until the job finishes.
+ * Returns an unsubscribe function.
+ */
+export function subscribeToJob(job: AnalysisJob, afterId: number, listener: JobListener): () => void {
+  job.events.filter(event => event.id > afterId).forEach(listener)
+  if (job.status !== 'running') return () => {}
+
+  job.listeners.add(listener)
+  job.lastActiveAt = Date.now()
+  return () => {
+    job.listeners.delete(listener)
+    job.lastActiveAt = Date.now()
+  }
+}
+
+/**
+ * Format an event as a Server-Sent Events frame
+ */
+export function formatJobEvent(event: AnalysisJobEvent): string {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`
+}
@@ -1,5 +1,11 @@
+import { createHash, timingSafeEqual } from "crypto"
 import GithubProvider from "next-auth/providers/github"
+import { getServerSession } from "next-auth/next"
 import type { NextAuthOptions } from "next-auth"
+import { createGitHubClient, getGitHubEndpoints } from "@/lib/github"
+
+// github.com or the Enterprise Server configured in the environment
+const endpoints = getGitHubEndpoints()
 
 export const authOptions: NextAuthOptions = {
   providers: [
@@ -7,10 +13,28 @@ export const authOptions: NextAuthOptions = {
       clientId: process.env.GITHUB_CLIENT_ID!,
       clientSecret: process.env.GITHUB_CLIENT_SECRET!,
       authorization: {
+        url: endpoints.authorizeUrl,
         params: {
           scope: 'read:user repo read:org',
         },
       },
+      token: endpoints.tokenUrl,
+      // Fetch the profile through the configured client (the stock provider calls api.github.com)
+      userinfo: {
+        url: `${endpoints.apiUrl}/user`,
+        async request({ tokens }) {
+          const octokit = createGitHubClient(tokens.access_token!)
+          const { data } = await octokit.users.getAuthenticated()
+          // Private profile email - fall back to the primary address, like the stock provider
+          let email = data.email
+          if (!email) {
+            const emails = await octokit.users.listEmailsForAuthenticatedUser().then(res => res.data).catch(() => [])
+            email = (emails.find(e => e.primary) ?? emails[0])?.email ?? null
+          }
+          // next-auth's Profile has optional name/email where GitHub sends null
+          return { ...data, name: data.name ?? undefined, email: email ?? undefined }
+        },
+      },
       // Include the GitHub login (username) in the profile
       profile(profile) {
         return {
@@ -46,3 +70,69 @@ export const authOptions: NextAuthOptions = {
     signIn: '/',
   },
 }
+
+// ============================================
+// Token (headless) auth
+// ============================================
+
+export interface GitHubAuth {
+  accessToken: string
+  login: string              // Verified GitHub login - from the OAuth profile or GET /user
+  method: 'oauth' | 'token'
+}
+
+// How long a token's login is remembered before GitHub is asked again
+const TOKEN_LOGIN_TTL_MS = 10 * 60 * 1000
+
+// Token hash -> login (expired entries are pruned on write)
+const tokenLogins = new Map<string, { login: string; expiresAt: number }>()
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex')
+
+function matchesSecret(value: string, secret: string | undefined): boolean {
+  if (!secret) return false
+  const a = Buffer.from(hashToken(value))
+  const b = Buffer.from(hashToken(secret))
+  return timingSafeEqual(a, b)
+}
+
+// Ask GitHub whose token this is (null if it's invalid or revoked)
+async function resolveTokenLogin(token: string): Promise<string | null> {
+  const key = hashToken(token)
+  const known = tokenLogins.get(key)
+  if (known && known.expiresAt > Date.now()) return known.login
+
+  try {
+    const { data } = await createGitHubClient(token).users.getAuthenticated()
+    const now = Date.now()
+    tokenLogins.forEach((entry, cachedKey) => {
+      if (entry.expiresAt <= now) tokenLogins.delete(cachedKey)
+    })
+    tokenLogins.set(key, { login: data.login, expiresAt: now + TOKEN_LOGIN_TTL_MS })
+    return data.login
+  } catch {
+    tokenLogins.delete(key)
+    return null
+  }
+}
+
+/**
+ * Who's calling a GitHub route: the signed-in OAuth session, or - for scripts and
+ * service accounts - an `Authorization: Bearer` header carrying either a personal
+ * access token or HEADLESS_API_KEY (which runs as the server's GITHUB_TOKEN).
+ * The login always comes from GitHub, so allowlist checks can't be spoofed.
+ */
+export async function getGitHubAuth(headers: Headers): Promise<GitHubAuth | null> {
+  const bearer = headers.get('authorization')?.match(/^(?:Bearer|token)\s+(\S+)$/i)?.[1]
+
+  if (bearer) {
+    const serverToken = process.env.GITHUB_TOKEN
+    const accessToken = serverToken && matchesSecret(bearer, process.env.HEADLESS_API_KEY) ? serverToken : bearer
+    const login = await resolveTokenLogin(accessToken)
+    return login ? { accessToken, login, method: 'token' } : null
+  }
+
+  const session = await getServerSession(authOptions)
+  if (!session?.accessToken) return null
+  return { accessToken: session.accessToken, login: session.user?.login || '', method: 'oauth' }
+}
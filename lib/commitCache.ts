@@ -0,0 +1,89 @@
+import { getDb } from '@/lib/db'
+import type { DateRange } from '@/utils/dateRange'
+
+/**
+ * Commit cache (SQLite) - the commits already listed for a repo, author scope and
+ * date range, and the default branch head they were listed at, so a rescan only
+ * lists the commits that head has gained since.
+ * Storage errors are logged and treated as a miss - the cache never blocks a scan.
+ */
+
+// The parts of a commit the stats use
+export interface CommitRecord {
+  sha: string
+  message: string
+  authorLogin: string
+  authorName: string
+  date: string | null  // Author date, falling back to the committer date
+}
+
+export interface CachedCommits {
+  commits: CommitRecord[]
+  headSha: string | null  // null for lists cached before heads were recorded
+  updatedAt: string
+}
+
+interface CommitRow {
+  commits: string
+  head_sha: string | null
+  updated_at: string
+}
+
+/**
+ * Cache key for one user's view of a repo's commits in a range for a set of authors
+ */
+export function buildCommitCacheKey(input: {
+  login: string
+  owner: string
+  repo: string
+  range: DateRange | null
+  authorLogins: string[] | null
+}): string {
+  const authors = input.authorLogins ? [...input.authorLogins].map(l => l.toLowerCase()).sort().join(',') : '*'
+  const range = input.range ? `${input.range.since}..${input.range.until}` : 'all'
+  return `${input.login} ${input.owner}/${input.repo} ${range} ${authors}`.toLowerCase()
+}
+
+/**
+ * Look up cached commits (null on miss)
+ */
+export function getCachedCommits(cacheKey: string): CachedCommits | null {
+  try {
+    const row = getDb()
+      .prepare('SELECT commits, head_sha, updated_at FROM commit_cache WHERE cache_key = ?')
+      .get(cacheKey) as CommitRow | undefined
+    if (!row) return null
+
+    return { commits: JSON.parse(row.commits), headSha: row.head_sha, updatedAt: row.updated_at }
+  } catch (error) {
+    console.error('Error reading commit cache:', error)
+    return null
+  }
+}
+
+/**
+ * Store (or replace) the full commit list
+ */
+export function setCachedCommits(
+  cacheKey: string,
+  entry: { login: string; owner: string; repo: string; headSha: string | null; commits: CommitRecord[] }
+): void {
+  try {
+    getDb()
+      .prepare(`
+        INSERT OR REPLACE INTO commit_cache (cache_key, login, owner, repo, commits, head_sha, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        cacheKey,
+        entry.login.toLowerCase(),
+        entry.owner,
+        entry.repo,
+        JSON.stringify(entry.commits),
+        entry.headSha,
+        new Date().toISOString()
+      )
+  } catch (error) {
+    console.error('Error writing commit cache:', error)
+  }
+}
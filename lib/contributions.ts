@@ -0,0 +1,184 @@
+import type { GitHubClient } from '@/lib/github'
+import { getYearRange } from '@/utils/dateRange'
+import type { CollaborationStats, RepoContributionCount } from '@/types'
+
+/**
+ * Contributions - a user's contribution calendar plus pull request, code review and
+ * issue activity for a year, from the GraphQL contributionsCollection.
+ */
+
+interface ContributionDay {
+  contributionCount: number
+  date: string
+}
+
+export interface ContributionWeek {
+  contributionDays: ContributionDay[]
+}
+
+interface ContributionCalendar {
+  totalContributions: number
+  weeks: ContributionWeek[]
+}
+
+interface RepositoryContributions<Node = never> {
+  repository: { nameWithOwner: string }
+  contributions: {
+    totalCount: number
+    nodes?: Node[]
+  }
+}
+
+interface PullRequestNode {
+  pullRequest: {
+    createdAt: string
+    mergedAt: string | null
+  }
+}
+
+interface ContributionsCollection {
+  contributionCalendar: ContributionCalendar
+  totalPullRequestContributions: number
+  totalPullRequestReviewContributions: number
+  totalIssueContributions: number
+  pullRequestContributionsByRepository: RepositoryContributions<PullRequestNode>[]
+  pullRequestReviewContributionsByRepository: RepositoryContributions[]
+  issueContributionsByRepository: RepositoryContributions[]
+}
+
+interface ContributionsQueryResult {
+  user?: {
+    contributionsCollection?: ContributionsCollection
+  }
+}
+
+function toRepoCounts(byRepository: RepositoryContributions<any>[]): RepoContributionCount[] {
+  return byRepository
+    .map(r => ({ repository: r.repository.nameWithOwner, count: r.contributions.totalCount }))
+    .filter(r => r.count > 0)
+    .sort((a, b) => b.count - a.count)
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+/**
+ * Summarize PR, review and issue contributions.
+ * Merge times come from the first 100 PRs per repository (the most GraphQL returns per page).
+ */
+function buildCollaborationStats(collection: ContributionsCollection): CollaborationStats {
+  const pullRequests = collection.pullRequestContributionsByRepository
+    .flatMap(r => r.contributions.nodes || [])
+    .map(node => node.pullRequest)
+  const merged = pullRequests.filter(pr => pr.mergedAt)
+  const mergeHours = merged.map(pr =>
+    (new Date(pr.mergedAt as string).getTime() - new Date(pr.createdAt).getTime()) / (1000 * 60 * 60)
+  )
+  const medianHours = median(mergeHours)
+
+  return {
+    pullRequests: {
+      opened: collection.totalPullRequestContributions,
+      merged: merged.length,
+      medianTimeToMergeHours: medianHours === null ? null : Math.round(medianHours * 10) / 10,
+      byRepository: toRepoCounts(collection.pullRequestContributionsByRepository),
+    },
+    reviews: {
+      given: collection.totalPullRequestReviewContributions,
+      byRepository: toRepoCounts(collection.pullRequestReviewContributionsByRepository),
+    },
+    issues: {
+      opened: collection.totalIssueContributions,
+      byRepository: toRepoCounts(collection.issueContributionsByRepository),
+    },
+  }
+}
+
+export interface ContributionData {
+  year: number
+  totalContributions: number
+  activeDays: number
+  weeks: ContributionWeek[]
+  collaboration: CollaborationStats
+}
+
+// Contribution calendar plus PR, review and issue contributions
+const CONTRIBUTIONS_QUERY = `
+  query($username: String!, $from: DateTime!, $to: DateTime!) {
+    user(login: $username) {
+      contributionsCollection(from: $from, to: $to) {
+        contributionCalendar {
+          totalContributions
+          weeks {
+            contributionDays {
+              contributionCount
+              date
+            }
+          }
+        }
+        totalPullRequestContributions
+        totalPullRequestReviewContributions
+        totalIssueContributions
+        pullRequestContributionsByRepository(maxRepositories: 100) {
+          repository { nameWithOwner }
+          contributions(first: 100) {
+            totalCount
+            nodes {
+              pullRequest {
+                createdAt
+                mergedAt
+              }
+            }
+          }
+        }
+        pullRequestReviewContributionsByRepository(maxRepositories: 100) {
+          repository { nameWithOwner }
+          contributions(first: 1) { totalCount }
+        }
+        issueContributionsByRepository(maxRepositories: 100) {
+          repository { nameWithOwner }
+          contributions(first: 1) { totalCount }
+        }
+      }
+    }
+  }
+`
+
+/**
+ * Fetch a user's contributions for a year (null when GitHub has none for them).
+ * GraphQL and HTTP failures are thrown as Octokit errors - query errors carry an
+ * `errors` list.
+ */
+export async function fetchContributionData(
+  octokit: GitHubClient,
+  username: string,
+  year: number
+): Promise<ContributionData | null> {
+  const range = getYearRange(year)
+  const result = await octokit.graphql<ContributionsQueryResult>(CONTRIBUTIONS_QUERY, {
+    username,
+    from: range.since,
+    to: range.until,
+  })
+
+  const collection = result.user?.contributionsCollection
+  const calendar = collection?.contributionCalendar
+  if (!collection || !calendar) return null
+
+  // Calculate active days
+  const activeDays = calendar.weeks
+    .flatMap(w => w.contributionDays)
+    .filter(d => d.contributionCount > 0).length
+
+  return {
+    year,
+    totalContributions: calendar.totalContributions,
+    activeDays,
+    weeks: calendar.weeks,
+    collaboration: buildCollaborationStats(collection),
+  }
+}
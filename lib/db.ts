@@ -0,0 +1,114 @@
+import Database from 'better-sqlite3'
+import fs from 'fs'
+import path from 'path'
+
+/**
+ * SQLite storage - a single file under DATA_DIR (default ./.data)
+ *
+ * Server-only. Tables are created on first use; add new statements to MIGRATIONS
+ * (never edit an applied one) and they run once in order.
+ */
+
+const DB_FILENAME = 'github-wrapped.db'
+
+const MIGRATIONS: string[] = [
+  // 1: AI summary cache
+  `CREATE TABLE summary_cache (
+    cache_key TEXT PRIMARY KEY,
+    owner TEXT NOT NULL,
+    repo TEXT NOT NULL,
+    head_sha TEXT NOT NULL,
+    summary TEXT NOT NULL,
+    provider TEXT,
+    model TEXT,
+    created_at TEXT NOT NULL
+  )`,
+  // 2: Per-user documents (preferences, wrapped results) synced from the browser
+  `CREATE TABLE user_documents (
+    login TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (login, kind)
+  )`,
+  // 3: GitHub GET responses, revalidated with If-None-Match (see lib/githubCache.ts)
+  `CREATE TABLE github_cache (
+    cache_key TEXT PRIMARY KEY,
+    login TEXT NOT NULL,
+    etag TEXT NOT NULL,
+    link TEXT,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  )`,
+  // 4: Commits already listed per repo, author scope and range (see lib/commitCache.ts)
+  `CREATE TABLE commit_cache (
+    cache_key TEXT PRIMARY KEY,
+    login TEXT NOT NULL,
+    owner TEXT NOT NULL,
+    repo TEXT NOT NULL,
+    commits TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  )`,
+  // 5: Tokens and estimated cost of every LLM call (see lib/aiUsage.ts)
+  `CREATE TABLE ai_usage (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    login TEXT NOT NULL,
+    run_id TEXT,
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    server_key INTEGER NOT NULL,
+    prompt_tokens INTEGER NOT NULL,
+    completion_tokens INTEGER NOT NULL,
+    cost_usd REAL NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX ai_usage_login_created ON ai_usage (login, created_at)`,
+  // 6: BYOK keys stored server-side, encrypted (see lib/aiKeyStore.ts)
+  `CREATE TABLE ai_keys (
+    login TEXT PRIMARY KEY,
+    provider TEXT NOT NULL,
+    base_url TEXT,
+    encrypted_key TEXT NOT NULL,
+    key_hint TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  )`,
+  // 7: Default branch head each cached commit list was taken at (see lib/commitCache.ts)
+  `ALTER TABLE commit_cache ADD COLUMN head_sha TEXT`,
+]
+
+let db: Database.Database | null = null
+
+/**
+ * Directory holding the database (and any other server-side data files)
+ */
+export function getDataDir(): string {
+  return process.env.DATA_DIR || path.join(process.cwd(), '.data')
+}
+
+function migrate(database: Database.Database): void {
+  const current = database.pragma('user_version', { simple: true }) as number
+  if (current >= MIGRATIONS.length) return
+
+  database.transaction(() => {
+    for (let version = current; version < MIGRATIONS.length; version++) {
+      database.exec(MIGRATIONS[version])
+    }
+    database.pragma(`user_version = ${MIGRATIONS.length}`)
+  })()
+}
+
+/**
+ * Get the shared database connection (opened and migrated on first call)
+ */
+export function getDb(): Database.Database {
+  if (db) return db
+
+  const dataDir = getDataDir()
+  fs.mkdirSync(dataDir, { recursive: true })
+
+  db = new Database(path.join(dataDir, DB_FILENAME))
+  db.pragma('journal_mode = WAL')
+  migrate(db)
+  return db
+}
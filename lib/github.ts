@@ -0,0 +1,171 @@
+import { Octokit } from '@octokit/rest'
+import { throttling } from '@octokit/plugin-throttling'
+import { retry } from '@octokit/plugin-retry'
+import { RequestError } from '@octokit/request-error'
+import type { OctokitResponse } from '@octokit/types'
+import { getCachedResponse, setCachedResponse } from '@/lib/githubCache'
+import type { GitHubRateLimit } from '@/types'
+
+/**
+ * GitHub client - every server-side Octokit is created here so all of them talk to
+ * the configured GitHub (github.com or an Enterprise Server, see getGitHubEndpoints),
+ * queue requests, back off on primary/secondary rate limits, retry transient failures,
+ * record the remaining quota from response headers and revalidate cached GET
+ * responses with ETags (see lib/githubCache.ts).
+ */
+
+export interface GitHubEndpoints {
+  webUrl: string        // Where users sign in, e.g. https://github.example.com
+  apiUrl: string        // REST API base
+  graphqlUrl: string
+  authorizeUrl: string  // OAuth authorize endpoint
+  tokenUrl: string      // OAuth access token endpoint
+}
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '')
+
+/**
+ * GitHub endpoints from the environment - github.com by default. For GitHub
+ * Enterprise Server set GITHUB_URL; the API (/api/v3), GraphQL (/api/graphql) and
+ * OAuth URLs follow from it unless overridden.
+ */
+export function getGitHubEndpoints(): GitHubEndpoints {
+  const webUrl = trimSlash(process.env.GITHUB_URL || 'https://github.com')
+  const isDotCom = webUrl === 'https://github.com'
+  const apiUrl = trimSlash(process.env.GITHUB_API_URL || (isDotCom ? 'https://api.github.com' : `${webUrl}/api/v3`))
+  const graphqlUrl = trimSlash(
+    process.env.GITHUB_GRAPHQL_URL || (/\/api\/v3$/.test(apiUrl) ? apiUrl.replace(/\/v3$/, '/graphql') : `${apiUrl}/graphql`)
+  )
+
+  return {
+    webUrl,
+    apiUrl,
+    graphqlUrl,
+    authorizeUrl: process.env.GITHUB_OAUTH_AUTHORIZE_URL || `${webUrl}/login/oauth/authorize`,
+    tokenUrl: process.env.GITHUB_OAUTH_TOKEN_URL || `${webUrl}/login/oauth/access_token`,
+  }
+}
+
+const ThrottledOctokit = Octokit.plugin(throttling, retry)
+
+export type GitHubClient = InstanceType<typeof ThrottledOctokit>
+
+// Give up instead of waiting longer than this for a primary limit to reset
+const MAX_RATE_LIMIT_WAIT_SECONDS = 60
+
+// Retries after a secondary (abuse) limit before the request fails
+const MAX_SECONDARY_LIMIT_RETRIES = 2
+
+// Latest quota seen per user and resource ('core', 'graphql', 'search'...)
+const rateLimits = new Map<string, Record<string, GitHubRateLimit>>()
+
+function recordRateLimit(login: string, headers: Record<string, string | number | undefined> | undefined): void {
+  if (!login || !headers?.['x-ratelimit-limit']) return
+
+  const resource = String(headers['x-ratelimit-resource'] || 'core')
+  const status: GitHubRateLimit = {
+    resource,
+    limit: Number(headers['x-ratelimit-limit']),
+    remaining: Number(headers['x-ratelimit-remaining']),
+    used: Number(headers['x-ratelimit-used'] || 0),
+    resetAt: new Date(Number(headers['x-ratelimit-reset']) * 1000).toISOString(),
+  }
+  rateLimits.set(login, { ...rateLimits.get(login), [resource]: status })
+}
+
+// Replay cached GET responses when GitHub says they haven't changed (304)
+function addResponseCache(octokit: GitHubClient, login: string): void {
+  octokit.hook.wrap('request', async (request, options) => {
+    if (options.method !== 'GET') return request(options)
+
+    const { url } = octokit.request.endpoint.parse(options)
+    const cached = getCachedResponse(login, url)
+    const conditional = cached
+      ? { ...options, headers: { ...options.headers, 'if-none-match': cached.etag } }
+      : options
+
+    try {
+      const response = await request(conditional)
+      const etag = response.headers.etag
+      if (response.status === 200 && etag) {
+        setCachedResponse(login, url, { etag, link: response.headers.link || null, data: response.data })
+      }
+      return response
+    } catch (error) {
+      if (!(error instanceof RequestError) || error.status !== 304 || !cached) throw error
+      setCachedResponse(login, url, { etag: cached.etag })
+      const replayed: OctokitResponse<unknown> = {
+        status: 200,
+        url,
+        headers: { ...error.response?.headers, etag: cached.etag, link: cached.link || undefined },
+        data: cached.data,
+      }
+      return replayed
+    }
+  })
+}
+
+/**
+ * Create a client for a user's token. Pass the login to have the quota recorded
+ * (see getRecordedRateLimit) and GET responses cached per user, and a signal to
+ * abort in-flight requests.
+ */
+export function createGitHubClient(
+  accessToken: string,
+  options: { login?: string; signal?: AbortSignal } = {}
+): GitHubClient {
+  const endpoints = getGitHubEndpoints()
+  const octokit = new ThrottledOctokit({
+    auth: accessToken,
+    baseUrl: endpoints.apiUrl,
+    request: options.signal ? { signal: options.signal } : undefined,
+    throttle: {
+      onRateLimit: (retryAfter, requestOptions, _octokit, retryCount) => {
+        console.warn(`GitHub rate limit hit for ${requestOptions.method} ${requestOptions.url} (resets in ${retryAfter}s)`)
+        return retryCount === 0 && retryAfter <= MAX_RATE_LIMIT_WAIT_SECONDS
+      },
+      onSecondaryRateLimit: (retryAfter, requestOptions, _octokit, retryCount) => {
+        console.warn(`GitHub secondary rate limit for ${requestOptions.method} ${requestOptions.url} (retry in ${retryAfter}s)`)
+        return retryCount < MAX_SECONDARY_LIMIT_RETRIES
+      },
+    },
+  })
+
+  // Octokit would derive the GraphQL URL from the base URL - use the configured one
+  // (a base URL that isn't /api/v3 stops Octokit rewriting it)
+  octokit.graphql = octokit.graphql.defaults({ baseUrl: endpoints.graphqlUrl, url: endpoints.graphqlUrl })
+
+  const login = options.login?.toLowerCase() || ''
+  if (login) {
+    addResponseCache(octokit, login)
+    octokit.hook.after('request', response => recordRateLimit(login, response.headers))
+    octokit.hook.error('request', error => {
+      if (error instanceof RequestError) recordRateLimit(login, error.response?.headers)
+      throw error
+    })
+  }
+
+  return octokit
+}
+
+/**
+ * Latest quota recorded for a user's requests (null until one has been made)
+ */
+export function getRecordedRateLimit(login: string, resource = 'core'): GitHubRateLimit | null {
+  return rateLimits.get(login.toLowerCase())?.[resource] || null
+}
+
+/**
+ * Ask GitHub for the current core quota (this call doesn't count against it)
+ */
+export async function fetchRateLimit(octokit: GitHubClient): Promise<GitHubRateLimit> {
+  const { data } = await octokit.rateLimit.get()
+  const core = data.resources.core
+  return {
+    resource: 'core',
+    limit: core.limit,
+    remaining: core.remaining,
+    used: core.used,
+    resetAt: new Date(core.reset * 1000).toISOString(),
+  }
+}
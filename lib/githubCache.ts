@@ -0,0 +1,76 @@
+import { getDb } from '@/lib/db'
+
+/**
+ * GitHub response cache (SQLite) - GET responses keyed by user and URL, replayed when
+ * GitHub answers a conditional request (If-None-Match) with 304. Every hit is still
+ * revalidated with the user's own token, so access changes are honored, and 304s
+ * don't count against the rate limit.
+ * Storage errors are logged and treated as a miss - the cache never blocks a request.
+ */
+
+// Entries not revalidated for this long are deleted
+const MAX_AGE_DAYS = 30
+
+export interface CachedResponse {
+  etag: string
+  link: string | null  // Pagination header, needed to replay paginated pages
+  data: unknown
+}
+
+interface ResponseRow {
+  etag: string
+  link: string | null
+  data: string
+}
+
+let pruned = false
+
+function pruneOnce(): void {
+  if (pruned) return
+  pruned = true
+  const cutoff = new Date(Date.now() - MAX_AGE_DAYS * 86400000).toISOString()
+  getDb().prepare('DELETE FROM github_cache WHERE updated_at < ?').run(cutoff)
+}
+
+function toCacheKey(login: string, url: string): string {
+  return `${login.toLowerCase()} ${url}`
+}
+
+/**
+ * Look up a cached response (null on miss)
+ */
+export function getCachedResponse(login: string, url: string): CachedResponse | null {
+  try {
+    pruneOnce()
+    const row = getDb()
+      .prepare('SELECT etag, link, data FROM github_cache WHERE cache_key = ?')
+      .get(toCacheKey(login, url)) as ResponseRow | undefined
+    if (!row) return null
+
+    return { etag: row.etag, link: row.link, data: JSON.parse(row.data) }
+  } catch (error) {
+    console.error('Error reading GitHub cache:', error)
+    return null
+  }
+}
+
+/**
+ * Store (or replace) a response, or just mark it fresh after a 304 (data omitted)
+ */
+export function setCachedResponse(login: string, url: string, entry: Partial<CachedResponse> & { etag: string }): void {
+  try {
+    const db = getDb()
+    const now = new Date().toISOString()
+    if (entry.data === undefined) {
+      db.prepare('UPDATE github_cache SET updated_at = ? WHERE cache_key = ?').run(now, toCacheKey(login, url))
+      return
+    }
+
+    db.prepare(`
+      INSERT OR REPLACE INTO github_cache (cache_key, login, etag, link, data, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(toCacheKey(login, url), login.toLowerCase(), entry.etag, entry.link || null, JSON.stringify(entry.data), now)
+  } catch (error) {
+    console.error('Error writing GitHub cache:', error)
+  }
+}
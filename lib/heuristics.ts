@@ -0,0 +1,606 @@
+import type { AISummary, CommitThemes } from '@/types'
+import { getRepoPreferenceKey } from '@/utils/preferencesSchema'
+import { parseConventionalCommit } from '@/utils/commitMessages'
+import type { RhythmMetrics } from '@/utils/rhythmMetrics'
+
+/**
+ * Heuristic summarizer - deterministic, no-network stand-in for the LLM.
+ *
+ * Used when AI is disabled (AI_PROVIDER=none or the "Offline" BYOK choice) and as the
+ * fallback when a provider call fails. Everything here is derived from the README,
+ * description, commit messages and repo metadata - nothing is invented.
+ */
+
+export interface HeuristicSummaryInput {
+  repoName: string
+  description?: string | null
+  readme?: string | null
+  commitMessages?: string[]
+  narrative?: string
+  stats?: {
+    commits?: number
+    additions?: number
+    deletions?: number
+    net?: number
+    primaryLanguage?: string | null
+    commitThemes?: CommitThemes  // Full in-range history; without it the sampled messages are used
+  }
+}
+
+export interface HeuristicRepo {
+  name: string
+  full_name?: string
+  description?: string | null
+  language?: string | null
+  topics?: string[]
+  stats?: {
+    commits?: number
+    additions?: number
+    deletions?: number
+    net?: number
+    languages?: Record<string, number>
+    isOrgRepo?: boolean
+    authorAnalysis?: {
+      copilotCommits?: number
+      botCommits?: number
+      coAuthoredWithCopilot?: number
+    }
+  }
+  aiSummary?: Partial<AISummary>
+}
+
+export interface HeuristicGroup {
+  name: string
+  icon: string
+  description: string
+  repos: string[]
+}
+
+export interface HeuristicPreferences {
+  repos?: Record<string, { customGroup?: string; narrative?: string }>  // Keyed by full_name
+  customGroups?: Record<string, { name: string; icon: string; description: string }>
+}
+
+// Conventional commit types and how they read in a highlight
+const COMMIT_TYPES: Record<string, { label: string; verb: string }> = {
+  feat: { label: 'feature', verb: 'Shipped' },
+  fix: { label: 'bug fix', verb: 'Landed' },
+  perf: { label: 'performance improvement', verb: 'Made' },
+  refactor: { label: 'refactor', verb: 'Completed' },
+  test: { label: 'testing change', verb: 'Made' },
+  docs: { label: 'documentation update', verb: 'Wrote' },
+  build: { label: 'build change', verb: 'Made' },
+  ci: { label: 'CI/CD change', verb: 'Made' },
+  chore: { label: 'maintenance commit', verb: 'Made' },
+  style: { label: 'style cleanup', verb: 'Made' },
+}
+
+// Non-conventional messages are bucketed by keyword
+const KEYWORD_CLUSTERS: Array<{ topic: string; pattern: RegExp }> = [
+  { topic: 'authentication & security', pattern: /\b(auth|login|logout|oauth|session|token|password|permission|security|csrf|jwt)\b/i },
+  { topic: 'APIs & integrations', pattern: /\b(api|endpoint|route|webhook|graphql|rest|client|integration|sdk)\b/i },
+  { topic: 'UI & UX', pattern: /\b(ui|ux|css|style|layout|design|component|page|modal|button|responsive|theme)\b/i },
+  { topic: 'data & storage', pattern: /\b(db|database|schema|migration|sql|query|cache|storage|model)\b/i },
+  { topic: 'testing', pattern: /\b(test|tests|spec|coverage|e2e|jest|vitest|playwright)\b/i },
+  { topic: 'deployment & infrastructure', pattern: /\b(deploy|docker|ci|pipeline|workflow|infra|terraform|k8s|kubernetes|vercel|release)\b/i },
+  { topic: 'performance', pattern: /\b(perf|performance|optimi[sz]e|speed|faster|latency|memory)\b/i },
+  { topic: 'documentation', pattern: /\b(readme|docs?|documentation|guide|changelog)\b/i },
+  { topic: 'dependencies', pattern: /\b(bump|upgrade|dependenc(y|ies)|deps|update .* to v?\d)\b/i },
+]
+
+// Signals that a project uses AI/ML
+const AI_KEYWORDS = [
+  'openai', 'gpt', 'llm', 'claude', 'anthropic', 'gemini', 'langchain', 'llamaindex', 'ollama',
+  'embedding', 'vector', 'rag', 'machine learning', 'deep learning', 'neural', 'pytorch',
+  'tensorflow', 'hugging ?face', 'transformers', 'computer vision', 'nlp', 'chatbot', 'ai-powered',
+]
+
+const LANGUAGE_ICONS: Record<string, string> = {
+  TypeScript: '🔷',
+  JavaScript: '🟨',
+  Python: '🐍',
+  Go: '🐹',
+  Rust: '🦀',
+  Java: '☕',
+  Ruby: '💎',
+  Swift: '🍎',
+  Kotlin: '🤖',
+  'C#': '🎯',
+  Shell: '🐚',
+}
+
+const FEATURED_COLORS = ['cyan', 'purple', 'blue', 'pink', 'orange']
+
+// Generic leading name segments that don't indicate a product family
+const GENERIC_PREFIXES = new Set(['the', 'my', 'app', 'api', 'web', 'test', 'demo', 'new', 'old', 'go', 'js', 'py'])
+
+// ============================================
+// Text helpers
+// ============================================
+
+// Strip markdown/HTML noise so a README line reads as prose
+function cleanMarkdown(text: string): string {
+  return text
+    .replace(/<[^>]+>/g, '')                   // HTML tags
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')       // Images / badges
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')    // Links -> link text
+    .replace(/[*_`~]/g, '')                     // Emphasis / code
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function firstSentences(text: string, maxSentences = 2, maxLength = 300): string {
+  const sentences = text.match(/[^.!?]+[.!?]+/g) || [text]
+  let result = sentences.slice(0, maxSentences).map(sentence => sentence.trim()).join(' ')
+  if (result.length > maxLength) {
+    result = `${result.slice(0, maxLength - 1).trimEnd()}…`
+  }
+  return result
+}
+
+function pluralize(count: number, word: string, plural = /(s|x|ch|sh)$/.test(word) ? `${word}es` : `${word}s`): string {
+  return `${count} ${count === 1 ? word : plural}`
+}
+
+function titleCase(text: string): string {
+  return text.replace(/\b\w/g, c => c.toUpperCase())
+}
+
+// ============================================
+// README parsing
+// ============================================
+
+interface ReadmeOutline {
+  title: string | null
+  intro: string | null
+  headings: string[]
+  featureItems: string[]
+}
+
+/**
+ * Pull the title, first prose paragraph, section headings and "Features" bullets out of a README
+ */
+export function parseReadme(readme: string): ReadmeOutline {
+  const lines = readme.split(/\r?\n/)
+  const outline: ReadmeOutline = { title: null, intro: null, headings: [], featureItems: [] }
+
+  let inCodeBlock = false
+  let inFeatures = false
+  let paragraph: string[] = []
+
+  const flushParagraph = () => {
+    if (!outline.intro && paragraph.length > 0) {
+      const text = cleanMarkdown(paragraph.join(' '))
+      // Skip leftover badge rows and one-word lines
+      if (text.split(' ').length >= 4) outline.intro = text
+    }
+    paragraph = []
+  }
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim()
+
+    if (line.startsWith('```')) {
+      inCodeBlock = !inCodeBlock
+      flushParagraph()
+      continue
+    }
+    if (inCodeBlock) continue
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/)
+    if (heading) {
+      flushParagraph()
+      const text = cleanMarkdown(heading[2])
+      if (heading[1].length === 1 && !outline.title) {
+        outline.title = text
+      } else if (text) {
+        outline.headings.push(text)
+      }
+      inFeatures = /feature|highlight|what it does|capabilit/i.test(text)
+      continue
+    }
+
+    const bullet = line.match(/^[-*+]\s+(.*)$/) || line.match(/^\d+\.\s+(.*)$/)
+    if (bullet) {
+      flushParagraph()
+      if (inFeatures) {
+        const item = cleanMarkdown(bullet[1])
+        if (item.length > 0) outline.featureItems.push(item)
+      }
+      continue
+    }
+
+    if (line === '' || line.startsWith('|') || line.startsWith('>') || line.startsWith('<')) {
+      flushParagraph()
+      continue
+    }
+
+    paragraph.push(line)
+  }
+  flushParagraph()
+
+  return outline
+}
+
+// ============================================
+// Commit message analysis
+// ============================================
+
+interface CommitBreakdown {
+  byType: Record<string, string[]>     // Conventional type -> subjects
+  byTopic: Record<string, number>      // Keyword cluster -> commit count
+}
+
+/**
+ * Bucket commit messages by conventional-commit type and keyword cluster
+ */
+export function analyzeCommitMessages(messages: string[]): CommitBreakdown {
+  const breakdown: CommitBreakdown = { byType: {}, byTopic: {} }
+
+  messages.forEach(message => {
+    const subject = (message || '').split('\n')[0].trim()
+    if (!subject || /^merge\b/i.test(subject)) return
+
+    const conventional = parseConventionalCommit(subject)
+    if (conventional && COMMIT_TYPES[conventional.type]) {
+      const { type, description } = conventional
+      if (!breakdown.byType[type]) breakdown.byType[type] = []
+      breakdown.byType[type].push(description)
+    }
+
+    KEYWORD_CLUSTERS.forEach(({ topic, pattern }) => {
+      if (pattern.test(subject)) {
+        breakdown.byTopic[topic] = (breakdown.byTopic[topic] || 0) + 1
+      }
+    })
+  })
+
+  return breakdown
+}
+
+/**
+ * Commit themes over a repo's whole in-range history (computed with the stats, where
+ * every message is at hand - the summary input only carries a sample)
+ */
+export function summarizeCommitThemes(messages: string[]): CommitThemes {
+  const breakdown = analyzeCommitMessages(messages)
+  const byType: CommitThemes['byType'] = {}
+  Object.entries(breakdown.byType).forEach(([type, subjects]) => {
+    byType[type] = { count: subjects.length, example: subjects[0] }
+  })
+  return { byType, byTopic: breakdown.byTopic }
+}
+
+function detectAIKeywords(text: string): string[] {
+  const lower = text.toLowerCase()
+  return AI_KEYWORDS.filter(keyword => new RegExp(`\\b${keyword}\\b`).test(lower))
+    .map(keyword => keyword.replace(' ?', ' '))
+}
+
+// ============================================
+// Per-repo summary
+// ============================================
+
+/**
+ * Build an AISummary for one repository without calling an LLM
+ */
+export function summarizeRepository(input: HeuristicSummaryInput): AISummary {
+  const { repoName, description, readme, commitMessages = [], narrative, stats = {} } = input
+  const outline = readme ? parseReadme(readme) : null
+  const language = stats.primaryLanguage || 'software'
+
+  // project_function: description first, README intro as the detail
+  const parts: string[] = []
+  if (description?.trim()) parts.push(firstSentences(description.trim(), 1))
+  if (outline?.intro && !parts.some(p => outline.intro!.startsWith(p.replace(/…$/, '')))) {
+    parts.push(firstSentences(outline.intro, parts.length > 0 ? 1 : 2))
+  }
+  if (parts.length === 0 && narrative?.trim()) parts.push(firstSentences(narrative.trim(), 2))
+  const projectFunction = parts.length > 0
+    ? parts.join(' ')
+    : `${outline?.title || repoName} is a ${language} project with ${pluralize(stats.commits || 0, 'commit')}.`
+
+  // ai_integration: AI keywords from README/description/commits, otherwise the README's own sections
+  const searchable = [description || '', readme || '', commitMessages.join('\n'), narrative || ''].join('\n')
+  const aiKeywords = detectAIKeywords(searchable)
+  let aiIntegration: string
+  if (aiKeywords.length > 0) {
+    aiIntegration = `Uses AI/ML tooling - mentions ${aiKeywords.slice(0, 4).join(', ')}.`
+  } else if (outline && outline.headings.length > 0) {
+    const sections = outline.headings
+      .filter(h => !/install|license|contribut|getting started|setup|usage|table of contents/i.test(h))
+      .slice(0, 3)
+    aiIntegration = sections.length > 0
+      ? `No AI features detected. Documented areas: ${sections.join(', ')}.`
+      : `No AI features detected - a ${language} codebase.`
+  } else {
+    aiIntegration = `No AI features detected - a ${language} codebase.`
+  }
+
+  // development_highlights: README feature bullets, then commit breakdown, then raw stats
+  const highlights: string[] = (outline?.featureItems || []).slice(0, 2).map(item => firstSentences(item, 1, 140))
+  const themes = stats.commitThemes || summarizeCommitThemes(commitMessages)
+
+  Object.entries(themes.byType)
+    .filter(([type]) => COMMIT_TYPES[type])
+    .sort((a, b) => b[1].count - a[1].count)
+    .slice(0, 2)
+    .forEach(([type, { count, example }]) => {
+      const { label, verb } = COMMIT_TYPES[type]
+      highlights.push(`${verb} ${pluralize(count, label)}, e.g. "${example}"`)
+    })
+
+  Object.entries(themes.byTopic)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 2)
+    .forEach(([topic, count]) => {
+      highlights.push(`Focused work on ${topic} (${pluralize(count, 'commit')})`)
+    })
+
+  const statHighlights = [
+    `${pluralize(stats.commits || 0, 'commit')} with ${(stats.additions || 0).toLocaleString()} lines added and ${(stats.deletions || 0).toLocaleString()} removed`,
+    `Primary language: ${stats.primaryLanguage || 'Not specified'}`,
+  ]
+  for (const line of statHighlights) {
+    if (highlights.length >= 4) break
+    highlights.push(line)
+  }
+
+  return {
+    project_function: projectFunction,
+    ai_integration: aiIntegration,
+    development_highlights: highlights.slice(0, 4),
+  }
+}
+
+// ============================================
+// Grouping
+// ============================================
+
+// Leading segment of a repo name ("focusai-web" -> "focusai")
+function getNamePrefix(name: string): string | null {
+  const prefix = name.toLowerCase().split(/[-_.]/)[0]
+  return prefix.length >= 3 && !GENERIC_PREFIXES.has(prefix) ? prefix : null
+}
+
+/**
+ * Group repositories without an LLM: user custom groups first, then shared name
+ * prefixes (product families), then shared topics, then primary language
+ */
+export function groupRepositories(repositories: HeuristicRepo[], preferences?: HeuristicPreferences): HeuristicGroup[] {
+  const groups: HeuristicGroup[] = []
+  const assigned = new Set<string>()
+
+  const addGroup = (group: HeuristicGroup) => {
+    group.repos.forEach(name => assigned.add(name))
+    groups.push(group)
+  }
+  const unassigned = () => repositories.filter(r => !assigned.has(r.name))
+
+  // 1. User-defined custom groups
+  const customGroups = preferences?.customGroups || {}
+  Object.entries(customGroups).forEach(([key, custom]) => {
+    const members = repositories
+      .filter(r => preferences?.repos?.[getRepoPreferenceKey(r)]?.customGroup === key)
+      .map(r => r.name)
+    if (members.length > 0) {
+      addGroup({ name: custom.name, icon: custom.icon, description: custom.description || 'User-defined group', repos: members })
+    }
+  })
+
+  // 2. Product families by shared name prefix
+  const byPrefix: Record<string, string[]> = {}
+  unassigned().forEach(repo => {
+    const prefix = getNamePrefix(repo.name)
+    if (prefix) {
+      if (!byPrefix[prefix]) byPrefix[prefix] = []
+      byPrefix[prefix].push(repo.name)
+    }
+  })
+  Object.entries(byPrefix)
+    .filter(([, names]) => names.length >= 2)
+    .sort((a, b) => b[1].length - a[1].length)
+    .forEach(([prefix, names]) => {
+      addGroup({
+        name: `${titleCase(prefix)} Family`,
+        icon: '🚀',
+        description: `Related ${prefix}-* projects`,
+        repos: names,
+      })
+    })
+
+  // 3. Shared topics - greedily take the most common topic each round
+  for (;;) {
+    const topicCounts: Record<string, string[]> = {}
+    unassigned().forEach(repo => {
+      (repo.topics || []).forEach(topic => {
+        if (!topicCounts[topic]) topicCounts[topic] = []
+        topicCounts[topic].push(repo.name)
+      })
+    })
+    const best = Object.entries(topicCounts)
+      .filter(([, names]) => names.length >= 2)
+      .sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]))[0]
+    if (!best) break
+
+    addGroup({
+      name: titleCase(best[0].replace(/-/g, ' ')),
+      icon: '🏷️',
+      description: `Projects tagged "${best[0]}"`,
+      repos: best[1],
+    })
+  }
+
+  // 4. Everything else by language
+  const byLanguage: Record<string, string[]> = {}
+  unassigned().forEach(repo => {
+    const lang = repo.language || 'Other'
+    if (!byLanguage[lang]) byLanguage[lang] = []
+    byLanguage[lang].push(repo.name)
+  })
+  Object.entries(byLanguage)
+    .sort((a, b) => b[1].length - a[1].length)
+    .forEach(([lang, names]) => {
+      addGroup({
+        name: `${lang} Projects`,
+        icon: LANGUAGE_ICONS[lang] || '📦',
+        description: `Projects built with ${lang}`,
+        repos: names,
+      })
+    })
+
+  return groups
+}
+
+// ============================================
+// Year-level insights
+// ============================================
+
+export interface HeuristicDetectedStats {
+  totalCopilotCommits: number
+  totalBotCommits: number
+  totalCoAuthoredWithCopilot: number
+  aiAssistedPercentage: number
+  orgRepos: number
+  personalRepos: number
+  userReportedAiPercentage?: number | null
+}
+
+// Ownership and AI-commit counts straight from the repo stats
+function detectStats(repositories: HeuristicRepo[]): HeuristicDetectedStats {
+  const detected: HeuristicDetectedStats = {
+    totalCopilotCommits: 0,
+    totalBotCommits: 0,
+    totalCoAuthoredWithCopilot: 0,
+    aiAssistedPercentage: 0,
+    orgRepos: 0,
+    personalRepos: 0,
+  }
+  let totalCommits = 0
+  repositories.forEach(repo => {
+    const analysis = repo.stats?.authorAnalysis || {}
+    detected.totalCopilotCommits += analysis.copilotCommits || 0
+    detected.totalBotCommits += analysis.botCommits || 0
+    detected.totalCoAuthoredWithCopilot += analysis.coAuthoredWithCopilot || 0
+    if (repo.stats?.isOrgRepo) detected.orgRepos++
+    else detected.personalRepos++
+    totalCommits += repo.stats?.commits || 0
+  })
+  detected.aiAssistedPercentage = totalCommits > 0
+    ? Math.round(((detected.totalCopilotCommits + detected.totalCoAuthoredWithCopilot) / totalCommits) * 100)
+    : 0
+  return detected
+}
+
+// Weekend share that earns the "Weekend Warrior" achievement
+const WEEKEND_WARRIOR_SHARE = 30
+
+// Achievement text per chronotype ("around the clock" gets none)
+const RHYTHM_ACHIEVEMENTS: Partial<Record<RhythmMetrics['chronotype'], (rhythm: RhythmMetrics) => string>> = {
+  'night-owl': r => `${r.nightShare}% of commits between 10pm and 5am`,
+  'early-bird': r => `${r.morningShare}% of commits before 9am`,
+  'nine-to-five': r => `${r.workHoursShare}% of commits during work hours`,
+}
+
+/**
+ * Build the full wrapped analysis (same shape the group route gets back from the LLM).
+ * Pass the route's detected stats when available; otherwise they're derived from the repos.
+ */
+export function buildHeuristicAnalysis(
+  repositories: HeuristicRepo[],
+  preferences?: HeuristicPreferences,
+  detected: HeuristicDetectedStats = detectStats(repositories),
+  year?: number | null,
+  rhythm?: RhythmMetrics | null
+) {
+  const groups = groupRepositories(repositories, preferences)
+  const commitsOf = (r: HeuristicRepo) => r.stats?.commits || 0
+  const totalCommits = repositories.reduce((sum, r) => sum + commitsOf(r), 0)
+  const totalAdditions = repositories.reduce((sum, r) => sum + (r.stats?.additions || 0), 0)
+  const byCommits = [...repositories].sort((a, b) => commitsOf(b) - commitsOf(a))
+
+  // Languages by number of repos
+  const languageCounts: Record<string, number> = {}
+  repositories.forEach(r => {
+    if (r.language) languageCounts[r.language] = (languageCounts[r.language] || 0) + 1
+  })
+  const topLanguages = Object.entries(languageCounts)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 5)
+    .map(([name, count]) => ({ name, count, percentage: Math.round((count / repositories.length) * 100) }))
+
+  const groupOf = (name: string) => groups.find(g => g.repos.includes(name))
+
+  const featuredProjects = byCommits.slice(0, 3).filter(r => commitsOf(r) > 0).map((repo, i) => {
+    const group = groupOf(repo.name)
+    return {
+      repoName: repo.name,
+      category: group?.name || repo.language || 'Project',
+      categoryIcon: group?.icon || '📦',
+      headline: repo.name,
+      description: repo.aiSummary?.project_function
+        || `${pluralize(commitsOf(repo), 'commit')} and ${(repo.stats?.additions || 0).toLocaleString()} lines added this year.`,
+      color: FEATURED_COLORS[i % FEATURED_COLORS.length],
+    }
+  })
+
+  const { orgRepos, personalRepos } = detected
+  const type: 'work' | 'personal' | 'mixed' = orgRepos > personalRepos ? 'work' : orgRepos > 0 ? 'mixed' : 'personal'
+  const aiPercentage = detected.userReportedAiPercentage ?? detected.aiAssistedPercentage
+  const scale: 'small' | 'medium' | 'large' = totalCommits > 1000 ? 'large' : totalCommits > 200 ? 'medium' : 'small'
+  const topLanguage = topLanguages[0]?.name
+
+  const toolsUsed: string[] = []
+  if (detected.totalCopilotCommits > 0 || detected.totalCoAuthoredWithCopilot > 0) toolsUsed.push('GitHub Copilot')
+  if (detected.totalBotCommits > detected.totalCopilotCommits) toolsUsed.push('Automation bots (e.g. Dependabot)')
+
+  const rhythmAchievement = rhythm && rhythm.totalCommits > 0 ? RHYTHM_ACHIEVEMENTS[rhythm.chronotype]?.(rhythm) : undefined
+
+  const achievements = [
+    { icon: '📝', title: `${totalCommits.toLocaleString()} Commits`, description: `Across ${pluralize(repositories.length, 'repository', 'repositories')}` },
+    { icon: '➕', title: `${totalAdditions.toLocaleString()} Lines Added`, description: 'Code written this year' },
+    byCommits[0] && commitsOf(byCommits[0]) > 0
+      ? { icon: '🏆', title: 'Most Active Project', description: `${byCommits[0].name} with ${pluralize(commitsOf(byCommits[0]), 'commit')}` }
+      : null,
+    topLanguages.length > 1
+      ? { icon: '🌐', title: 'Polyglot', description: `Shipped code in ${pluralize(Object.keys(languageCounts).length, 'language')}` }
+      : null,
+    groups.length > 1
+      ? { icon: '🧩', title: 'Many Fronts', description: `Work spread over ${groups.length} project areas` }
+      : null,
+    rhythm && rhythmAchievement
+      ? { icon: rhythm.chronotypeIcon, title: rhythm.chronotypeLabel, description: rhythmAchievement }
+      : null,
+    rhythm && rhythm.weekendShare >= WEEKEND_WARRIOR_SHARE
+      ? { icon: '🏖️', title: 'Weekend Warrior', description: `${rhythm.weekendShare}% of commits landed on a weekend` }
+      : null,
+  ].filter((a): a is { icon: string; title: string; description: string } => a !== null)
+
+  return {
+    groups,
+    featuredProjects,
+    yearNarrative: {
+      title: `${year ? `${year}: ` : ''}${topLanguage ? `A ${topLanguage} Year` : 'A Year of Building'}`,
+      intro: `${totalCommits.toLocaleString()} commits across ${pluralize(repositories.length, 'repository', 'repositories')}${topLanguage ? `, led by ${topLanguage}` : ''}.`,
+      context: `Across ${pluralize(orgRepos, 'organization repo')} and ${pluralize(personalRepos, 'personal project')}.`,
+    },
+    aiInsights: {
+      headline: aiPercentage > 10 ? 'AI-Assisted Development' : 'Hands-On Development',
+      description: `${aiPercentage}% of commits show AI assistance. Summaries were generated offline from READMEs and commit history.`,
+      toolsUsed,
+      whatChanged: groups.slice(0, 4).map(g => `${g.icon} ${g.name}: ${pluralize(g.repos.length, 'repo')}`),
+      honestTake: [
+        byCommits[0] ? `${byCommits[0].name} took the most commits (${commitsOf(byCommits[0])})` : null,
+        topLanguage ? `${topLanguage} was the most used language (${languageCounts[topLanguage]} repos)` : null,
+        `${orgRepos} organization vs ${personalRepos} personal repositories`,
+      ].filter((s): s is string => s !== null),
+    },
+    achievements,
+    topLanguages,
+    developmentPattern: {
+      type,
+      aiAssisted: aiPercentage > 10,
+      scale,
+    },
+  }
+}
@@ -0,0 +1,348 @@
+import OpenAI, { AzureOpenAI } from 'openai'
+import { getStoredAIKey, type StoredAIKey } from '@/lib/aiKeyStore'
+
+/**
+ * LLM provider layer - one interface for OpenAI, Anthropic, Azure OpenAI and any
+ * OpenAI-compatible server (Ollama, llama.cpp, vLLM...).
+ *
+ * The provider comes from server env (AI_PROVIDER / AI_MODEL) or, per request, from the
+ * x-ai-provider / x-ai-model / x-ai-base-url / x-ai-key headers sent by the BYOK flow.
+ * A provider of "none" disables AI entirely (see lib/heuristics.ts).
+ */
+
+export type LLMProviderId = 'openai' | 'anthropic' | 'azure' | 'openai-compatible'
+
+export const LLM_PROVIDERS: LLMProviderId[] = ['openai', 'anthropic', 'azure', 'openai-compatible']
+
+export const DEFAULT_MODELS: Record<LLMProviderId, string> = {
+  'openai': 'gpt-4o',
+  'anthropic': 'claude-3-5-sonnet-latest',
+  'azure': 'gpt-4o',  // Azure uses the deployment name as the model
+  'openai-compatible': 'llama3.1',
+}
+
+const DEFAULT_AZURE_API_VERSION = '2024-10-21'
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages'
+const ANTHROPIC_API_VERSION = '2023-06-01'
+
+export interface LLMConfig {
+  provider: LLMProviderId
+  model: string
+  apiKey?: string
+  baseURL?: string     // Azure endpoint or OpenAI-compatible server URL
+  apiVersion?: string  // Azure only
+  serverKey?: boolean  // Runs on the server's credentials - counts toward AI quotas
+}
+
+export interface LLMRequest {
+  system: string
+  user: string
+  temperature?: number
+  maxTokens?: number
+  json?: boolean  // Ask for a single JSON object back
+  signal?: AbortSignal  // Aborts the provider call (e.g. when an analysis job is cancelled)
+}
+
+// Same shape as OpenAI's usage object so routes can keep returning it unchanged
+export interface LLMUsage {
+  prompt_tokens: number
+  completion_tokens: number
+  total_tokens: number
+}
+
+export interface LLMCompletion {
+  content: string
+  usage?: LLMUsage
+  provider: LLMProviderId
+  model: string
+  servedModel?: string  // Model the provider reports running (Azure: the one behind the deployment)
+}
+
+export interface LLMClient {
+  config: LLMConfig
+  complete(request: LLMRequest): Promise<LLMCompletion>
+}
+
+function isProviderId(value: string | null | undefined): value is LLMProviderId {
+  return !!value && (LLM_PROVIDERS as string[]).includes(value)
+}
+
+// Comma-separated list of base URLs clients may point OpenAI-compatible/Azure requests at
+function getAllowedBaseURLs(): string[] {
+  return (process.env.AI_ALLOWED_BASE_URLS || '')
+    .split(',')
+    .map(u => u.trim().replace(/\/+$/, ''))
+    .filter(u => u.length > 0)
+}
+
+/**
+ * Check a client-supplied base URL before the server calls it.
+ * Only pre-approved URLs (and Azure OpenAI resources) are accepted so the
+ * header can't be used to make the server fetch arbitrary hosts.
+ */
+export function isAllowedBaseURL(provider: LLMProviderId, baseURL: string): boolean {
+  let url: URL
+  try {
+    url = new URL(baseURL)
+  } catch {
+    return false
+  }
+
+  const normalized = baseURL.replace(/\/+$/, '')
+  if (getAllowedBaseURLs().some(allowed => normalized === allowed || normalized.startsWith(`${allowed}/`))) {
+    return true
+  }
+
+  return provider === 'azure' && url.protocol === 'https:' && url.hostname.endsWith('.openai.azure.com')
+}
+
+// Models clients may pick on the server's credentials besides the configured one
+// (comma-separated AI_ALLOWED_MODELS) - anything else falls back to the configured model
+function getAllowedServerModels(): string[] {
+  return (process.env.AI_ALLOWED_MODELS || '')
+    .split(',')
+    .map(m => m.trim().toLowerCase())
+    .filter(m => m.length > 0)
+}
+
+/**
+ * Build the server's LLM config from env.
+ * An optional provider/model preference (from request headers) is honored when the
+ * server has credentials for that provider; a preferred model only when it's the
+ * configured one or on AI_ALLOWED_MODELS (allowAnyModel is for the operator's own CLI).
+ */
+export function getServerLLMConfig(
+  preferred?: { provider?: string | null; model?: string | null },
+  options: { allowAnyModel?: boolean } = {}
+): LLMConfig | null {
+  const configs: Partial<Record<LLMProviderId, LLMConfig>> = {}
+
+  if (process.env.OPENAI_API_KEY) {
+    configs['openai'] = { provider: 'openai', model: DEFAULT_MODELS['openai'], apiKey: process.env.OPENAI_API_KEY }
+  }
+  if (process.env.ANTHROPIC_API_KEY) {
+    configs['anthropic'] = { provider: 'anthropic', model: DEFAULT_MODELS['anthropic'], apiKey: process.env.ANTHROPIC_API_KEY }
+  }
+  if (process.env.AZURE_OPENAI_API_KEY && process.env.AZURE_OPENAI_ENDPOINT) {
+    configs['azure'] = {
+      provider: 'azure',
+      model: process.env.AZURE_OPENAI_DEPLOYMENT || DEFAULT_MODELS['azure'],
+      apiKey: process.env.AZURE_OPENAI_API_KEY,
+      baseURL: process.env.AZURE_OPENAI_ENDPOINT,
+      apiVersion: process.env.AZURE_OPENAI_API_VERSION || DEFAULT_AZURE_API_VERSION,
+    }
+  }
+  if (process.env.OPENAI_COMPATIBLE_BASE_URL) {
+    configs['openai-compatible'] = {
+      provider: 'openai-compatible',
+      model: DEFAULT_MODELS['openai-compatible'],
+      apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+      baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL,
+    }
+  }
+
+  const envProvider = isProviderId(process.env.AI_PROVIDER) ? process.env.AI_PROVIDER : 'openai'
+  const preferredProvider = isProviderId(preferred?.provider) ? preferred!.provider as LLMProviderId : null
+
+  // Preferred provider if configured, otherwise the env default
+  const config = (preferredProvider && configs[preferredProvider]) || configs[envProvider]
+  if (!config) return null
+
+  // AI_MODEL only applies to the env default provider; an allowed per-request model wins over both
+  const configuredModel = (config.provider === envProvider ? process.env.AI_MODEL : undefined) || config.model
+  const requestedModel = preferred?.model?.trim()
+  const model = requestedModel && (
+    options.allowAnyModel
+    || requestedModel === configuredModel
+    || getAllowedServerModels().includes(requestedModel.toLowerCase())
+  ) ? requestedModel : configuredModel
+
+  return { ...config, model, serverKey: true }
+}
+
+/**
+ * Build a BYOK LLM config from request headers (null if the request didn't bring its own provider).
+ * With x-ai-key-source: server the provider, endpoint and key come from the user's
+ * stored key instead; only the model is taken from the headers.
+ */
+export function getRequestLLMConfig(headers: Headers, stored?: StoredAIKey | null): LLMConfig | null {
+  const fromServer = headers.get('x-ai-key-source') === 'server'
+  if (fromServer && !stored) return null
+
+  const providerHeader = fromServer ? stored!.provider : headers.get('x-ai-provider')
+  const provider: LLMProviderId = isProviderId(providerHeader) ? providerHeader : 'openai'
+  // x-openai-key is the original BYOK header - still accepted
+  const apiKey = fromServer ? stored!.apiKey : headers.get('x-ai-key') || headers.get('x-openai-key') || undefined
+  const model = headers.get('x-ai-model')?.trim() || DEFAULT_MODELS[provider]
+  const baseURL = (fromServer ? stored!.baseURL : headers.get('x-ai-base-url'))?.trim() || undefined
+
+  if (provider === 'azure' || provider === 'openai-compatible') {
+    if (!baseURL || !isAllowedBaseURL(provider, baseURL)) return null
+    // Local OpenAI-compatible servers often don't need a key; Azure always does
+    if (provider === 'azure' && !apiKey) return null
+    return {
+      provider,
+      model,
+      apiKey,
+      baseURL,
+      apiVersion: provider === 'azure' ? (headers.get('x-ai-api-version') || DEFAULT_AZURE_API_VERSION) : undefined,
+    }
+  }
+
+  if (!apiKey) return null
+  return { provider, model, apiKey }
+}
+
+/**
+ * Whether AI is turned off for this request - server-wide (AI_PROVIDER=none) or by a
+ * client that chose offline mode. Routes fall back to the heuristic summarizer.
+ */
+export function isAIDisabled(headers: Headers): boolean {
+  return process.env.AI_PROVIDER === 'none' || headers.get('x-ai-provider') === 'none'
+}
+
+/**
+ * Resolve which LLM config a request should use.
+ * Allowlisted users run on the server's credentials (optionally picking one of the
+ * server-configured providers); everyone else must bring their own - sent along, or
+ * stored server-side and looked up by their verified login.
+ */
+export function resolveLLMConfig(headers: Headers, options: { allowServerKeys: boolean; login: string }): LLMConfig | null {
+  if (options.allowServerKeys) {
+    const serverConfig = getServerLLMConfig({
+      provider: headers.get('x-ai-provider'),
+      model: headers.get('x-ai-model'),
+    })
+    if (serverConfig) return serverConfig
+  }
+  const stored = headers.get('x-ai-key-source') === 'server' ? getStoredAIKey(options.login) : null
+  return getRequestLLMConfig(headers, stored)
+}
+
+/**
+ * Parse a JSON object out of a model response.
+ * Tolerates markdown code fences and chatter around the object, which providers
+ * without a native JSON mode sometimes add.
+ */
+export function parseJSONContent<T = any>(content: string): T {
+  const trimmed = content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '')
+  try {
+    return JSON.parse(trimmed)
+  } catch {
+    const start = trimmed.indexOf('{')
+    const end = trimmed.lastIndexOf('}')
+    if (start >= 0 && end > start) {
+      return JSON.parse(trimmed.slice(start, end + 1))
+    }
+    throw new Error('Model response was not valid JSON')
+  }
+}
+
+// OpenAI, Azure OpenAI and OpenAI-compatible servers all speak chat.completions
+function createOpenAIStyleClient(config: LLMConfig): LLMClient {
+  const client = config.provider === 'azure'
+    ? new AzureOpenAI({
+        apiKey: config.apiKey,
+        endpoint: config.baseURL,
+        apiVersion: config.apiVersion || DEFAULT_AZURE_API_VERSION,
+        deployment: config.model,
+      })
+    : new OpenAI({
+        // Local servers ignore the key, but the SDK requires one
+        apiKey: config.apiKey || (config.provider === 'openai-compatible' ? 'not-needed' : undefined),
+        baseURL: config.provider === 'openai-compatible' ? config.baseURL : undefined,
+      })
+
+  return {
+    config,
+    async complete(request) {
+      const completion = await client.chat.completions.create({
+        model: config.model,
+        messages: [
+          { role: 'system', content: request.system },
+          { role: 'user', content: request.user },
+        ],
+        ...(request.json ? { response_format: { type: 'json_object' as const } } : {}),
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+      }, { signal: request.signal })
+
+      return {
+        content: completion.choices[0]?.message?.content || '',
+        usage: completion.usage,
+        provider: config.provider,
+        model: config.model,
+        servedModel: completion.model || undefined,
+      }
+    },
+  }
+}
+
+// Anthropic Messages API via fetch (no SDK dependency)
+function createAnthropicClient(config: LLMConfig): LLMClient {
+  return {
+    config,
+    async complete(request) {
+      // No native JSON mode - instruct, then prefill the assistant turn with "{"
+      const system = request.json
+        ? `${request.system}\n\nRespond with a single JSON object and nothing else.`
+        : request.system
+      const messages: Array<{ role: 'user' | 'assistant'; content: string }> = [
+        { role: 'user', content: request.user },
+      ]
+      if (request.json) {
+        messages.push({ role: 'assistant', content: '{' })
+      }
+
+      const response = await fetch(ANTHROPIC_API_URL, {
+        method: 'POST',
+        headers: {
+          'x-api-key': config.apiKey || '',
+          'anthropic-version': ANTHROPIC_API_VERSION,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: config.model,
+          system,
+          messages,
+          temperature: request.temperature,
+          max_tokens: request.maxTokens || 1024,
+        }),
+        signal: request.signal,
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data?.error?.message || `Anthropic request failed (${response.status})`)
+      }
+
+      const text = (data.content || [])
+        .filter((block: any) => block.type === 'text')
+        .map((block: any) => block.text)
+        .join('')
+      const inputTokens = data.usage?.input_tokens || 0
+      const outputTokens = data.usage?.output_tokens || 0
+
+      return {
+        content: request.json ? `{${text}` : text,
+        usage: {
+          prompt_tokens: inputTokens,
+          completion_tokens: outputTokens,
+          total_tokens: inputTokens + outputTokens,
+        },
+        provider: config.provider,
+        model: config.model,
+      }
+    },
+  }
+}
+
+/**
+ * Create an LLM client for a resolved config
+ */
+export function createLLMClient(config: LLMConfig): LLMClient {
+  if (config.provider === 'anthropic') {
+    return createAnthropicClient(config)
+  }
+  return createOpenAIStyleClient(config)
+}
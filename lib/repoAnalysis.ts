@@ -0,0 +1,133 @@
+import type { AISummary } from '@/types'
+import { parseJSONContent, type LLMClient, type LLMCompletion } from '@/lib/llm'
+import { setCachedSummary } from '@/lib/summaryCache'
+import { buildSummaryCacheKey } from '@/utils/summaryCache'
+import { summarizeCommitMessages, formatCommitMessageStatsForPrompt } from '@/utils/commitMessages'
+
+/**
+ * Repository Analysis - the LLM summary of one repository.
+ * Server-only; shared by the analyze route and analysis jobs.
+ */
+
+export interface RepoSummaryInput {
+  owner?: string
+  repoName: string
+  description?: string | null
+  stats: any  // Stats route output plus primaryLanguage
+  readme?: string | null
+  commitMessages?: string[]
+  narrative?: string
+  year?: number | null
+}
+
+/**
+ * Cache key for a summary of this head SHA, narrative and scope, for the verified login
+ * (null without an owner, SHA or login)
+ */
+export function getSummaryCacheKey(input: RepoSummaryInput, headSha: string | null, login: string): string | null {
+  if (!input.owner || !headSha || !login) return null
+  return buildSummaryCacheKey({
+    login,
+    owner: input.owner,
+    repo: input.repoName,
+    headSha,
+    narrative: input.narrative,
+    range: input.stats?.range,
+    authorLogins: input.stats?.authorLogins,
+  })
+}
+
+/**
+ * Ask the LLM for a repository summary, caching it under the head SHA when one is given
+ */
+export async function generateRepoSummary(
+  llm: LLMClient,
+  input: RepoSummaryInput,
+  cache?: { cacheKey: string; headSha: string } | null
+): Promise<{ summary: AISummary; completion: LLMCompletion }> {
+  const { owner, repoName, description, stats, readme, commitMessages, narrative, year } = input
+
+  // Build context for AI
+  const contextParts = [
+    `Repository: ${repoName}`,
+    description ? `Description: ${description}` : '',
+    year ? `Wrapped Year: ${year} (statistics and commits cover this year only)` : '',
+    `Statistics:`,
+    `- Total Commits: ${stats.commits}`,
+    `- Lines Added: ${stats.additions?.toLocaleString() || 'N/A'}`,
+    `- Lines Deleted: ${stats.deletions?.toLocaleString() || 'N/A'}`,
+    `- Net LOC: ${stats.net?.toLocaleString() || 'N/A'}`,
+    `- Primary Language: ${stats.primaryLanguage || 'Unknown'}`,
+  ]
+
+  if (readme) {
+    // Truncate README to fit in context
+    const truncatedReadme = readme.substring(0, 2000)
+    contextParts.push(`\nREADME:\n${truncatedReadme}`)
+  }
+
+  // Aggregates over the whole in-range history (older stats only have sample messages)
+  const messageStats = stats.commitMessageStats
+    || (commitMessages && commitMessages.length > 0 ? summarizeCommitMessages(commitMessages) : null)
+  if (messageStats && messageStats.total > 0) {
+    contextParts.push(`\nCommit message analysis:\n${formatCommitMessageStatsForPrompt(messageStats)}`)
+  }
+
+  const context = contextParts.filter(Boolean).join('\n')
+
+  // Add developer narrative context if provided
+  const narrativeContext = narrative ? `
+
+DEVELOPER CONTEXT: The developer has provided this note about the project:
+"${narrative}"
+
+Incorporate this context into your analysis. This provides insider knowledge
+about the project's purpose, constraints, or achievements that may not be
+obvious from the code alone.` : ''
+
+  // Call the configured LLM provider to generate summary
+  const completion = await llm.complete({
+    system: `You are an expert software analyst. Generate a structured JSON summary of a GitHub repository based on the provided data. Focus on:
+1. What problem the project solves for users
+2. Any AI/ML features, intelligent automation, or technically interesting aspects
+3. Standout technical implementations and features
+4. Development highlights (bugs fixed, optimizations made, architecture decisions)
+
+Always base your analysis on the actual data provided. Do not invent statistics.`,
+    user: `Analyze this repository and provide a JSON response with this exact structure:
+
+{
+"project_function": "A concise 2-3 sentence description of what the project does in user-centric terms",
+"ai_integration": "Description of AI/ML features, intelligent automation, or most technically interesting aspects. If no AI, focus on the most innovative technical elements",
+"development_highlights": [
+  "Key feature or technical achievement 1",
+  "Key feature or technical achievement 2",
+  "Key feature or technical achievement 3",
+  "Key feature or technical achievement 4"
+]
+}
+
+Repository Data:
+${context}${narrativeContext}
+
+Provide only the JSON response, no additional text.`,
+    json: true,
+    temperature: 0.7,
+    maxTokens: 1000,
+  })
+
+  const aiSummary = parseJSONContent(completion.content || '{}')
+
+  if (cache && owner) {
+    setCachedSummary(cache.cacheKey, {
+      owner,
+      repo: repoName,
+      headSha: cache.headSha,
+      summary: aiSummary,
+      provider: completion.provider,
+      model: completion.model,
+    })
+  }
+
+  return { summary: aiSummary, completion }
+}
@@ -0,0 +1,424 @@
+import { Octokit } from '@octokit/rest'
+import type { Endpoints } from '@octokit/types'
+import { getRangeOverlapShare, isWithinRange, type DateRange } from '@/utils/dateRange'
+import { summarizeCommitMessages } from '@/utils/commitMessages'
+import { summarizeCommitThemes } from '@/lib/heuristics'
+import { buildCommitCacheKey, getCachedCommits, setCachedCommits, type CommitRecord } from '@/lib/commitCache'
+import type { AuthorScope } from '@/types'
+
+/**
+ * Repository Stats - commits, LOC, languages, README and author analysis for one
+ * repository, scoped to a date range and a set of authors.
+ * Server-only; shared by the stats route and analysis jobs.
+ */
+
+interface LineTotals {
+  commits: number
+  additions: number
+  deletions: number
+}
+
+interface ContributorTotals {
+  total: LineTotals   // Every contributor
+  scoped: LineTotals  // Only contributors matching the author scope
+}
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000
+
+const EMPTY_TOTALS: ContributorTotals = {
+  total: { commits: 0, additions: 0, deletions: 0 },
+  scoped: { commits: 0, additions: 0, deletions: 0 },
+}
+
+type GitHubCommit = Endpoints['GET /repos/{owner}/{repo}/commits']['response']['data'][number]
+
+// Commits one compare call returns - a head that moved further is listed in full
+const MAX_COMPARE_COMMITS = 250
+
+// Helper to fetch contributor stats with polling for 202 responses
+// GitHub returns 202 while computing stats - we need to poll until we get actual data,
+// backing off (1s, 2s, 4s...) so busy repos don't burn quota
+// Weekly buckets that straddle a range boundary are prorated by the share of the week
+// inside the range - an approximation, GitHub doesn't split weeks by day - and
+// contributors are matched against authorLogins (null = everyone) for the scoped totals
+async function fetchContributorStatsWithRetry(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  range: DateRange | null,
+  authorLogins: string[] | null,
+  maxRetries = 5,
+  delayMs = 1000
+): Promise<ContributorTotals> {
+  const scopedLogins = authorLogins ? new Set(authorLogins.map(l => l.toLowerCase())) : null
+  
+  for (let attempt = 0; attempt < maxRetries; attempt++) {
+    try {
+      const response = await octokit.repos.getContributorsStats({ owner, repo })
+      
+      // 202 means GitHub is computing stats - retry after delay
+      if (response.status === 202) {
+        if (attempt < maxRetries - 1) {
+          await new Promise(resolve => setTimeout(resolve, delayMs * 2 ** attempt))
+          continue
+        }
+        // Final attempt still 202 - return zeros
+        return EMPTY_TOTALS
+      }
+      
+      // Calculate totals from response
+      const total: LineTotals = { commits: 0, additions: 0, deletions: 0 }
+      const scoped: LineTotals = { commits: 0, additions: 0, deletions: 0 }
+      
+      if (Array.isArray(response.data) && response.data.length > 0) {
+        for (const contributor of response.data) {
+          const login = contributor.author?.login?.toLowerCase() || ''
+          const inScope = !scopedLogins || scopedLogins.has(login)
+          
+          if (contributor.weeks) {
+            for (const week of contributor.weeks) {
+              // week.w is the Unix timestamp (seconds) of the start of the week
+              const weekStart = (week.w || 0) * 1000
+              const share = getRangeOverlapShare(weekStart, weekStart + WEEK_MS, range)
+              if (share === 0) continue
+              total.commits += (week.c || 0) * share
+              total.additions += (week.a || 0) * share
+              total.deletions += (week.d || 0) * share
+              if (inScope) {
+                scoped.commits += (week.c || 0) * share
+                scoped.additions += (week.a || 0) * share
+                scoped.deletions += (week.d || 0) * share
+              }
+            }
+          }
+        }
+        
+        // If we got 200 but totals are still 0, the data might not be ready
+        // Only retry if we have no data at all (empty response is different from all-zero weeks)
+        if (total.additions === 0 && total.deletions === 0 && attempt < maxRetries - 1) {
+          // Check if it's genuinely empty or just not computed
+          const hasAnyWeeks = response.data.some(c => c.weeks && c.weeks.length > 0)
+          if (!hasAnyWeeks) {
+            await new Promise(resolve => setTimeout(resolve, delayMs))
+            continue
+          }
+        }
+      } else if (attempt < maxRetries - 1) {
+        // Empty array - might still be computing
+        await new Promise(resolve => setTimeout(resolve, delayMs))
+        continue
+      }
+      
+      return { total: roundTotals(total), scoped: roundTotals(scoped) }
+    } catch (error) {
+      if (attempt < maxRetries - 1) {
+        await new Promise(resolve => setTimeout(resolve, delayMs * 2 ** attempt))
+        continue
+      }
+      return EMPTY_TOTALS
+    }
+  }
+  
+  return EMPTY_TOTALS
+}
+
+// Prorated weeks leave fractions - report whole commits and lines
+function roundTotals(totals: LineTotals): LineTotals {
+  return {
+    commits: Math.round(totals.commits),
+    additions: Math.round(totals.additions),
+    deletions: Math.round(totals.deletions),
+  }
+}
+
+/**
+ * Resolve the author scope to a list of logins (null = all contributors)
+ */
+export function resolveAuthorLogins(scope: AuthorScope, sessionLogin: string): string[] | null {
+  if (Array.isArray(scope)) {
+    const logins = scope.map(l => String(l).trim()).filter(l => l.length > 0)
+    return logins.length > 0 ? logins : null
+  }
+  if (scope === 'me' && sessionLogin) {
+    return [sessionLogin]
+  }
+  return null
+}
+
+function toCommitRecord(commit: GitHubCommit): CommitRecord {
+  return {
+    sha: commit.sha,
+    message: commit.commit?.message || '',
+    authorLogin: commit.author?.login || '',
+    authorName: commit.commit?.author?.name || '',
+    date: commit.commit?.author?.date || commit.commit?.committer?.date || null,
+  }
+}
+
+// Fetch commits for a set of authors - listCommits only filters one author at a time,
+// so run one paginated call per login and merge (deduplicated by SHA, newest first)
+async function listCommitsForAuthors(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  range: DateRange | null,
+  authorLogins: string[] | null
+): Promise<CommitRecord[]> {
+  const baseParams = {
+    owner,
+    repo,
+    per_page: 100,
+    ...(range ? { since: range.since, until: range.until } : {}),
+  }
+  
+  const perAuthor = await Promise.all(
+    (authorLogins || [undefined]).map(author =>
+      octokit.paginate(octokit.repos.listCommits, { ...baseParams, ...(author ? { author } : {}) })
+    )
+  )
+  
+  return mergeCommits(perAuthor.flat().map(toCommitRecord))
+}
+
+// Commits the head gained since the cached head, filtered like listCommitsForAuthors
+// (range by committer date, author by login). Comparing heads rather than re-listing a
+// date window also catches merged branches, whose commits keep their older dates.
+// null = list everything again: history was rewritten (force-push) or the gap is too long.
+async function listCommitsSinceHead(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  cachedHeadSha: string,
+  headSha: string,
+  range: DateRange | null,
+  authorLogins: string[] | null
+): Promise<CommitRecord[] | null> {
+  if (cachedHeadSha === headSha) return []
+
+  try {
+    const { data } = await octokit.repos.compareCommitsWithBasehead({
+      owner,
+      repo,
+      basehead: `${cachedHeadSha}...${headSha}`,
+      per_page: MAX_COMPARE_COMMITS,
+    })
+    if (data.status !== 'ahead' || data.total_commits > data.commits.length) return null
+
+    const scopedLogins = authorLogins ? new Set(authorLogins.map(l => l.toLowerCase())) : null
+    return data.commits
+      .filter(commit => isWithinRange(commit.commit.committer?.date || commit.commit.author?.date || 0, range))
+      .filter(commit => !scopedLogins || scopedLogins.has((commit.author?.login || '').toLowerCase()))
+      .map(toCommitRecord)
+  } catch {
+    // The cached head is gone (e.g. force-pushed away and collected) - start over
+    return null
+  }
+}
+
+// Deduplicate by SHA (first list wins) and sort newest first
+function mergeCommits(...lists: CommitRecord[][]): CommitRecord[] {
+  const bySha = new Map<string, CommitRecord>()
+  lists.flat().forEach(commit => {
+    if (!bySha.has(commit.sha)) bySha.set(commit.sha, commit)
+  })
+  
+  const commitTime = (c: CommitRecord) => new Date(c.date || 0).getTime()
+  return Array.from(bySha.values()).sort((a, b) => commitTime(b) - commitTime(a))
+}
+
+// List commits, only fetching those the head gained since the last scan when earlier
+// ones are cached
+async function listCommitsSinceLastScan(
+  octokit: Octokit,
+  request: RepositoryStatsRequest,
+  authorLogins: string[] | null,
+  headSha: string | null
+): Promise<{ commits: CommitRecord[]; incremental: boolean }> {
+  const { owner, repo, range, sessionLogin, lastScanned } = request
+  // Cached commits are per user - without a login there's nothing to key them by
+  if (!sessionLogin) {
+    return { commits: await listCommitsForAuthors(octokit, owner, repo, range, authorLogins), incremental: false }
+  }
+
+  const cacheKey = buildCommitCacheKey({ login: sessionLogin, owner, repo, range, authorLogins })
+  const cached = lastScanned ? getCachedCommits(cacheKey) : null
+
+  const newer = cached?.headSha && headSha
+    ? await listCommitsSinceHead(octokit, owner, repo, cached.headSha, headSha, range, authorLogins)
+    : null
+  let commits: CommitRecord[]
+  let incremental = false
+
+  if (cached && newer) {
+    commits = mergeCommits(newer, cached.commits)
+    incremental = true
+  } else {
+    commits = await listCommitsForAuthors(octokit, owner, repo, range, authorLogins)
+  }
+
+  setCachedCommits(cacheKey, { login: sessionLogin, owner, repo, headSha, commits })
+  return { commits, incremental }
+}
+
+export interface RepositoryStatsRequest {
+  owner: string
+  repo: string
+  range: DateRange | null   // null = all-time
+  authorScope: AuthorScope
+  sessionLogin: string      // Who 'me' resolves to
+  lastScanned?: string | null  // Previous scan (RepoPreference.lastScanned) - only newer commits are listed
+}
+
+/**
+ * Fetch everything the wrapped needs to know about one repository
+ */
+export async function fetchRepositoryStats(octokit: Octokit, request: RepositoryStatsRequest) {
+  const { owner, repo, range, authorScope, sessionLogin } = request
+
+  // Whose commits count: 'me' (default), 'all' contributors, or an explicit list of logins
+  const authorLogins = resolveAuthorLogins(authorScope, sessionLogin)
+
+  // Default branch head - summaries are cached per SHA, and rescans list what it gained
+  const headSha = await octokit.repos.listCommits({ owner, repo, per_page: 1 })
+    .then(res => res.data[0]?.sha || null)
+    .catch(() => null)
+
+  // Fetch all data in parallel for efficiency
+  const [commitList, contributorStats, languages, readmeResult, repoInfo] = await Promise.all([
+    // Get commits (just for count and messages - paginated, one call per scoped author,
+    // only those the head gained since the last scan when the earlier ones are cached)
+    listCommitsSinceLastScan(octokit, request, authorLogins, headSha),
+    
+    // Get contributor stats with retry logic for 202 responses
+    fetchContributorStatsWithRetry(octokit, owner, repo, range, authorLogins),
+    
+    // Get languages
+    octokit.repos.listLanguages({ owner, repo }),
+    
+    // Get README
+    octokit.repos.getReadme({ owner, repo }).catch(() => null),
+    
+    // Get repo info to determine if it's an org or personal repo
+    octokit.repos.get({ owner, repo }).catch(() => null),
+  ])
+
+  const { commits, incremental } = commitList
+
+  // Parse README
+  let readmeContent = null
+  if (readmeResult?.data?.content) {
+    readmeContent = Buffer.from(readmeResult.data.content, 'base64').toString('utf-8')
+  }
+
+  // Analyze commit authors to detect bot/Copilot commits
+  const authorAnalysis = {
+    totalCommits: commits.length,
+    humanCommits: 0,
+    botCommits: 0,
+    copilotCommits: 0,
+    coAuthoredWithCopilot: 0,
+    uniqueAuthors: new Set<string>(),
+    botAuthors: [] as string[],
+  }
+  
+  for (const commit of commits) {
+    const { authorLogin, authorName, message } = commit
+    
+    // Detect bot authors (includes copilot, dependabot, github-actions, etc.)
+    const isBot = authorLogin.includes('[bot]') || 
+                 authorLogin === 'dependabot' ||
+                 authorName.toLowerCase().includes('bot') ||
+                 authorLogin.endsWith('-bot')
+    
+    const isCopilot = authorLogin.includes('copilot') || 
+                     authorName.toLowerCase().includes('copilot')
+    
+    // Check for Co-authored-by with Copilot
+    const hasCopilotCoAuthor = message.includes('Co-authored-by') && 
+                               message.toLowerCase().includes('copilot')
+    
+    if (isCopilot) {
+      authorAnalysis.copilotCommits++
+      authorAnalysis.botCommits++
+      if (!authorAnalysis.botAuthors.includes(authorLogin)) {
+        authorAnalysis.botAuthors.push(authorLogin)
+      }
+    } else if (isBot) {
+      authorAnalysis.botCommits++
+      if (!authorAnalysis.botAuthors.includes(authorLogin)) {
+        authorAnalysis.botAuthors.push(authorLogin)
+      }
+    } else {
+      authorAnalysis.humanCommits++
+      if (authorLogin) authorAnalysis.uniqueAuthors.add(authorLogin)
+    }
+    
+    if (hasCopilotCoAuthor) {
+      authorAnalysis.coAuthoredWithCopilot++
+    }
+  }
+
+  // Determine repo ownership type
+  const ownerType = repoInfo?.data?.owner?.type || 'Unknown' // 'User' or 'Organization'
+  const isOrgRepo = ownerType === 'Organization'
+
+  // Extract commit dates for heatmap
+  const commitDates = commits
+    .map(c => c.date)
+    .filter((d): d is string => !!d)
+
+  // Scoped share vs. whole-repo totals (for ownership percentages)
+  // Commit totals come from contributor stats; listCommits is authoritative for our own count
+  const myShare = {
+    commits: commits.length,
+    additions: contributorStats.scoped.additions,
+    deletions: contributorStats.scoped.deletions,
+    net: contributorStats.scoped.additions - contributorStats.scoped.deletions,
+  }
+  const repoTotal = authorLogins ? {
+    commits: Math.max(contributorStats.total.commits, commits.length),
+    additions: contributorStats.total.additions,
+    deletions: contributorStats.total.deletions,
+    net: contributorStats.total.additions - contributorStats.total.deletions,
+  } : myShare
+
+  const stats = {
+    commits: myShare.commits,
+    additions: myShare.additions,
+    deletions: myShare.deletions,
+    net: myShare.net,
+    languages: languages.data,
+    readme: readmeContent,
+    commitMessages: commits.slice(0, 20).map(c => c.message),  // Samples for offline summaries
+    commitMessageStats: summarizeCommitMessages(commits.map(c => c.message)),
+    commitThemes: summarizeCommitThemes(commits.map(c => c.message)),
+    commitDates,
+    // New: author analysis for AI detection
+    authorAnalysis: {
+      humanCommits: authorAnalysis.humanCommits,
+      botCommits: authorAnalysis.botCommits,
+      copilotCommits: authorAnalysis.copilotCommits,
+      coAuthoredWithCopilot: authorAnalysis.coAuthoredWithCopilot,
+      uniqueHumanAuthors: authorAnalysis.uniqueAuthors.size,
+      botAuthors: authorAnalysis.botAuthors,
+    },
+    // New: ownership context
+    ownerType,
+    isOrgRepo,
+    // Date range the stats were scoped to (null = all-time)
+    range,
+    // Author scope and ownership split
+    authorScope: authorLogins ? authorScope : 'all',
+    authorLogins,
+    myShare,
+    repoTotal,
+    // Default branch head SHA - summaries are cached per SHA
+    headSha,
+    // Whether only commits since the last scan were listed
+    incrementalCommits: incremental,
+  }
+
+  return stats
+}
+
+export type RepositoryStatsResult = Awaited<ReturnType<typeof fetchRepositoryStats>>
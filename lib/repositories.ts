@@ -0,0 +1,189 @@
+import type { GitHubClient } from '@/lib/github'
+import type { Repository, RepositorySource } from '@/types'
+
+/**
+ * Repository discovery - every repo the user owns, collaborates on or can access
+ * through an org, archived ones included unless turned off, plus (optionally) forks
+ * and repos they only contributed pull requests to. Shared by the repositories route and the CLI.
+ */
+
+export interface RepositoryDiscoveryOptions {
+  includeForks?: boolean
+  includeArchived?: boolean  // Default true - archived projects still belong in a wrapped
+  includeContributed?: boolean
+}
+
+interface ContributedRepoNode {
+  databaseId: number
+  name: string
+  nameWithOwner: string
+  description: string | null
+  primaryLanguage: { name: string } | null
+  createdAt: string
+  updatedAt: string
+  pushedAt: string
+  stargazerCount: number
+  forkCount: number
+  url: string
+  homepageUrl: string | null
+  owner: { login: string; avatarUrl: string }
+  isPrivate: boolean
+  isFork: boolean
+  isArchived: boolean
+  repositoryTopics: { nodes: Array<{ topic: { name: string } }> }
+}
+
+interface ContributedReposResponse {
+  viewer: {
+    repositoriesContributedTo: {
+      pageInfo: { hasNextPage: boolean; endCursor: string | null }
+      nodes: ContributedRepoNode[]
+    }
+  }
+}
+
+// Repos the user opened pull requests against but doesn't own or collaborate on
+const CONTRIBUTED_REPOS_QUERY = `
+  query($after: String) {
+    viewer {
+      repositoriesContributedTo(
+        first: 100
+        after: $after
+        contributionTypes: [PULL_REQUEST]
+        includeUserRepositories: false
+      ) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        nodes {
+          databaseId
+          name
+          nameWithOwner
+          description
+          primaryLanguage { name }
+          createdAt
+          updatedAt
+          pushedAt
+          stargazerCount
+          forkCount
+          url
+          homepageUrl
+          owner { login avatarUrl }
+          isPrivate
+          isFork
+          isArchived
+          repositoryTopics(first: 20) {
+            nodes { topic { name } }
+          }
+        }
+      }
+    }
+  }
+`
+
+// Fetch every page of the contributed-to connection
+async function fetchContributedRepositories(octokit: GitHubClient): Promise<Repository[]> {
+  const repos: Repository[] = []
+  let after: string | null = null
+
+  do {
+    const result: ContributedReposResponse = await octokit.graphql(CONTRIBUTED_REPOS_QUERY, { after })
+    const connection = result.viewer.repositoriesContributedTo
+
+    connection.nodes.filter(Boolean).forEach(node => {
+      repos.push({
+        id: node.databaseId,
+        name: node.name,
+        full_name: node.nameWithOwner,
+        description: node.description,
+        language: node.primaryLanguage?.name || null,
+        created_at: node.createdAt,
+        updated_at: node.updatedAt,
+        pushed_at: node.pushedAt,
+        stargazers_count: node.stargazerCount,
+        forks_count: node.forkCount,
+        url: node.url,
+        homepage: node.homepageUrl,
+        owner: {
+          login: node.owner.login,
+          avatar_url: node.owner.avatarUrl,
+        },
+        private: node.isPrivate,
+        fork: node.isFork,
+        archived: node.isArchived,
+        source: 'contributed',
+        topics: node.repositoryTopics.nodes.map(n => n.topic.name),
+      })
+    })
+
+    after = connection.pageInfo.hasNextPage ? connection.pageInfo.endCursor : null
+  } while (after)
+
+  return repos
+}
+
+/**
+ * List the user's repositories (login decides which ones count as their own)
+ */
+export async function fetchUserRepositories(
+  octokit: GitHubClient,
+  login: string,
+  options: RepositoryDiscoveryOptions = {}
+): Promise<Repository[]> {
+  const { includeForks, includeArchived = true, includeContributed } = options
+
+  // Fetch every repository the user owns, collaborates on, or can access through an org
+  const repos = await octokit.paginate(octokit.repos.listForAuthenticatedUser, {
+    per_page: 100,
+    sort: 'updated',
+    affiliation: 'owner,collaborator,organization_member',
+  })
+
+  // Where the repo came from - the REST API doesn't say which affiliation matched,
+  // so infer it from the owner
+  const getSource = (repo: typeof repos[number]): RepositorySource => {
+    if (repo.owner?.login?.toLowerCase() === login.toLowerCase()) return 'owner'
+    if (repo.owner?.type === 'Organization') return 'organization'
+    return 'collaborator'
+  }
+
+  // Format repositories
+  const formattedRepos: Repository[] = repos.map(repo => ({
+    id: repo.id,
+    name: repo.name,
+    full_name: repo.full_name,
+    description: repo.description,
+    language: repo.language,
+    created_at: repo.created_at || '',
+    updated_at: repo.updated_at || '',
+    pushed_at: repo.pushed_at || '',
+    stargazers_count: repo.stargazers_count,
+    forks_count: repo.forks_count,
+    url: repo.html_url,
+    homepage: repo.homepage, // For auto-detecting deployment URLs
+    owner: {
+      login: repo.owner?.login,
+      avatar_url: repo.owner?.avatar_url,
+    },
+    private: repo.private,
+    fork: repo.fork,
+    archived: repo.archived,
+    source: getSource(repo),
+    topics: repo.topics || [],
+  }))
+
+  // Add repos the user only contributed to via pull requests
+  if (includeContributed) {
+    const knownIds = new Set(formattedRepos.map(r => r.id))
+    const contributed = await fetchContributedRepositories(octokit)
+    contributed
+      .filter(repo => !knownIds.has(repo.id))
+      .forEach(repo => formattedRepos.push(repo))
+  }
+
+  // Forks are excluded unless asked for; archived repos unless turned off
+  return formattedRepos
+    .filter(repo => includeForks || !repo.fork)
+    .filter(repo => includeArchived || !repo.archived)
+}
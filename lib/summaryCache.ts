@@ -0,0 +1,72 @@
+import { getDb } from '@/lib/db'
+import type { AISummary } from '@/types'
+
+/**
+ * Server-side AI summary cache (SQLite). Keys come from buildSummaryCacheKey in
+ * utils/summaryCache.ts so the client mirror uses the same ones.
+ * Storage errors are logged and treated as a miss - the cache never blocks analysis.
+ */
+
+export interface CachedSummary {
+  summary: AISummary
+  provider: string | null
+  model: string | null
+  cachedAt: string
+}
+
+interface SummaryRow {
+  summary: string
+  provider: string | null
+  model: string | null
+  created_at: string
+}
+
+/**
+ * Look up a cached summary (null on miss)
+ */
+export function getCachedSummary(cacheKey: string): CachedSummary | null {
+  try {
+    const row = getDb()
+      .prepare('SELECT summary, provider, model, created_at FROM summary_cache WHERE cache_key = ?')
+      .get(cacheKey) as SummaryRow | undefined
+    if (!row) return null
+
+    return {
+      summary: JSON.parse(row.summary),
+      provider: row.provider,
+      model: row.model,
+      cachedAt: row.created_at,
+    }
+  } catch (error) {
+    console.error('Error reading summary cache:', error)
+    return null
+  }
+}
+
+/**
+ * Store (or replace) a summary
+ */
+export function setCachedSummary(
+  cacheKey: string,
+  entry: { owner: string; repo: string; headSha: string; summary: AISummary; provider?: string; model?: string }
+): void {
+  try {
+    getDb()
+      .prepare(`
+        INSERT OR REPLACE INTO summary_cache (cache_key, owner, repo, head_sha, summary, provider, model, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        cacheKey,
+        entry.owner,
+        entry.repo,
+        entry.headSha,
+        JSON.stringify(entry.summary),
+        entry.provider || null,
+        entry.model || null,
+        new Date().toISOString()
+      )
+  } catch (error) {
+    console.error('Error writing summary cache:', error)
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { getUserDocument, saveUserDocument, MAX_DOCUMENT_BYTES, type UserDocumentKind } from '@/lib/userStore'
+
+/**
+ * GET/PUT handlers for a per-user document route (/api/user/preferences, /api/user/wrapped).
+ * The document always belongs to the signed-in GitHub login.
+ */
+export function createUserDocumentHandlers(kind: UserDocumentKind) {
+  async function GET() {
+    try {
+      const session = await getServerSession(authOptions)
+      const login = session?.user?.login
+
+      if (!session?.accessToken || !login) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+
+      const document = getUserDocument(login, kind)
+      return NextResponse.json({
+        data: document?.data ?? null,
+        updatedAt: document?.updatedAt ?? null,
+      })
+    } catch (error: any) {
+      console.error(`Error loading ${kind}:`, error)
+      return NextResponse.json(
+        { error: error.message || `Failed to load ${kind}` },
+        { status: 500 }
+      )
+    }
+  }
+
+  async function PUT(request: NextRequest) {
+    try {
+      const session = await getServerSession(authOptions)
+      const login = session?.user?.login
+
+      if (!session?.accessToken || !login) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+
+      const raw = await request.text()
+      if (raw.length > MAX_DOCUMENT_BYTES) {
+        return NextResponse.json({ error: 'Document too large' }, { status: 413 })
+      }
+
+      const { data, updatedAt } = JSON.parse(raw || '{}')
+      if (data === undefined || !updatedAt || isNaN(Date.parse(updatedAt))) {
+        return NextResponse.json({ error: 'Missing data or updatedAt' }, { status: 400 })
+      }
+
+      // Last-modified wins - if the server copy is newer it's returned for the client to adopt
+      const result = saveUserDocument(login, kind, { data, updatedAt })
+      return NextResponse.json({
+        data: result.document.data,
+        updatedAt: result.document.updatedAt,
+        accepted: result.accepted,
+      })
+    } catch (error: any) {
+      console.error(`Error saving ${kind}:`, error)
+      return NextResponse.json(
+        { error: error.message || `Failed to save ${kind}` },
+        { status: 500 }
+      )
+    }
+  }
+
+  return { GET, PUT }
+}
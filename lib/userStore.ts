@@ -0,0 +1,66 @@
+import { getDb } from '@/lib/db'
+
+/**
+ * Per-user document storage (SQLite), keyed by GitHub login.
+ *
+ * Each document is the JSON the browser keeps in localStorage plus an updatedAt
+ * timestamp; writes are last-modified-wins, so an older copy never overwrites a newer one.
+ */
+
+export type UserDocumentKind = 'preferences' | 'wrapped'
+
+export interface UserDocument<T = unknown> {
+  data: T
+  updatedAt: string  // ISO date string of the last client-side change
+}
+
+export interface SaveResult<T = unknown> {
+  document: UserDocument<T>  // What the server now holds
+  accepted: boolean          // false = the stored copy was newer and was kept
+}
+
+// Large enough for a full wrapped (READMEs included), small enough to reject junk
+export const MAX_DOCUMENT_BYTES = 5 * 1024 * 1024
+
+interface DocumentRow {
+  data: string
+  updated_at: string
+}
+
+/**
+ * Get a user's stored document (null if they've never synced one)
+ */
+export function getUserDocument<T = unknown>(login: string, kind: UserDocumentKind): UserDocument<T> | null {
+  const row = getDb()
+    .prepare('SELECT data, updated_at FROM user_documents WHERE login = ? AND kind = ?')
+    .get(login.toLowerCase(), kind) as DocumentRow | undefined
+  if (!row) return null
+
+  return { data: JSON.parse(row.data), updatedAt: row.updated_at }
+}
+
+/**
+ * Save a user's document unless the stored copy is newer
+ */
+export function saveUserDocument<T = unknown>(
+  login: string,
+  kind: UserDocumentKind,
+  document: UserDocument<T>
+): SaveResult<T> {
+  const db = getDb()
+
+  return db.transaction((): SaveResult<T> => {
+    const existing = getUserDocument<T>(login, kind)
+    if (existing && Date.parse(existing.updatedAt) > Date.parse(document.updatedAt)) {
+      return { document: existing, accepted: false }
+    }
+
+    db.prepare(`
+      INSERT INTO user_documents (login, kind, data, updated_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT (login, kind) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at
+    `).run(login.toLowerCase(), kind, JSON.stringify(document.data), document.updatedAt)
+
+    return { document, accepted: true }
+  })()
+}
@@ -0,0 +1,363 @@
+import { parseJSONContent, type LLMClient, type LLMCompletion } from '@/lib/llm'
+import { buildHeuristicAnalysis } from '@/lib/heuristics'
+import { getRepoPreferenceKey } from '@/utils/preferencesSchema'
+import { buildWrappedSnapshot, compareSnapshots, describeComparison, formatMetricChange, isWrappedSnapshot } from '@/utils/yearComparison'
+import { computeRhythmMetrics, describeRhythm, resolveTimeZone } from '@/utils/rhythmMetrics'
+import type { YearComparison } from '@/types'
+
+/**
+ * Wrapped Analysis - groups, featured projects, narrative, insights and achievements
+ * for a set of analyzed repositories (LLM, or heuristics when llm is null).
+ * Server-only; shared by the group route and analysis jobs.
+ */
+
+export interface WrappedAnalysisInput {
+  repositories: any[]
+  totalStats?: {
+    totalCommits: number
+    totalAdditions: number
+    totalDeletions: number
+    totalNet: number
+  }
+  userPreferences?: any
+  year: number | null
+  previousYear?: unknown  // Last year's snapshot (validated before use)
+  timeZone?: unknown      // Viewer's timezone for the coding rhythm (validated before use)
+}
+
+// Year-over-year numbers as prompt lines
+function formatComparisonForPrompt(comparison: YearComparison): string {
+  const lines = comparison.metrics.map(m =>
+    `- ${m.label}: ${m.current.toLocaleString()} (was ${m.previous.toLocaleString()}, ${formatMetricChange(m)})`
+  )
+  if (comparison.newProjects.length > 0) lines.push(`- New projects: ${comparison.newProjects.join(', ')}`)
+  if (comparison.retiredProjects.length > 0) lines.push(`- Retired projects (no activity this year): ${comparison.retiredProjects.join(', ')}`)
+  if (comparison.newLanguages.length > 0) lines.push(`- New languages: ${comparison.newLanguages.join(', ')}`)
+  if (comparison.droppedLanguages.length > 0) lines.push(`- Dropped languages: ${comparison.droppedLanguages.join(', ')}`)
+  return lines.join('\n')
+}
+
+/**
+ * Analyze the whole wrapped in one call
+ */
+export async function analyzeWrapped(llm: LLMClient | null, input: WrappedAnalysisInput) {
+  const { repositories, totalStats, userPreferences, year } = input
+
+  // Analyze the data to provide context to the AI
+  let totalCopilotCommits = 0
+  let totalBotCommits = 0
+  let totalCoAuthoredWithCopilot = 0
+  let orgRepos = 0
+  let personalRepos = 0
+  
+  // Track user-reported AI assistance
+  let userReportedAiRepos = 0
+  let userReportedManualRepos = 0
+  
+  // Build a rich summary of all repos for the AI to analyze
+  const repoSummaries = repositories.map((repo: any) => {
+    // Count AI/bot stats
+    const authorAnalysis = repo.stats?.authorAnalysis || {}
+    totalCopilotCommits += authorAnalysis.copilotCommits || 0
+    totalBotCommits += authorAnalysis.botCommits || 0
+    totalCoAuthoredWithCopilot += authorAnalysis.coAuthoredWithCopilot || 0
+    
+    // Count repo types
+    if (repo.stats?.isOrgRepo) {
+      orgRepos++
+    } else {
+      personalRepos++
+    }
+    
+    // Get user preference for this repo
+    const repoPref = userPreferences?.repos?.[getRepoPreferenceKey(repo)]
+    const userNarrative = repoPref?.narrative || ''
+    const userReportedAi = repoPref?.aiAssisted ?? null
+    const userCustomGroup = repoPref?.customGroup || null
+    
+    if (userReportedAi === true) userReportedAiRepos++
+    if (userReportedAi === false) userReportedManualRepos++
+    
+    return {
+      name: repo.name,
+      description: repo.description || '',
+      language: repo.language || 'Unknown',
+      topics: repo.topics || [],
+      aiSummary: repo.aiSummary?.project_function || '',
+      aiIntegration: repo.aiSummary?.ai_integration || 'None',
+      highlights: repo.aiSummary?.development_highlights || [],
+      commits: repo.stats?.commits || 0,
+      additions: repo.stats?.additions || 0,
+      deletions: repo.stats?.deletions || 0,
+      // Include author analysis for AI detection
+      copilotCommits: authorAnalysis.copilotCommits || 0,
+      botCommits: authorAnalysis.botCommits || 0,
+      coAuthoredWithCopilot: authorAnalysis.coAuthoredWithCopilot || 0,
+      humanAuthors: authorAnalysis.uniqueHumanAuthors || 1,
+      isOrgRepo: repo.stats?.isOrgRepo || false,
+      // User-provided context
+      userNarrative,
+      userReportedAi,
+      userCustomGroup,
+    }
+  })
+
+  // Calculate derived metrics
+  const totalCommits = totalStats?.totalCommits || repositories.reduce((sum: number, r: any) => sum + (r.stats?.commits || 0), 0)
+  const aiAssistedPercentage = totalCommits > 0 
+    ? Math.round(((totalCopilotCommits + totalCoAuthoredWithCopilot) / totalCommits) * 100)
+    : 0
+  
+  // Calculate user-reported AI usage (more accurate than auto-detection)
+  const userReportedTotal = userReportedAiRepos + userReportedManualRepos
+  const userReportedAiPercentage = userReportedTotal > 0
+    ? Math.round((userReportedAiRepos / userReportedTotal) * 100)
+    : null
+  
+  // Determine the dominant pattern
+  const repoTypeContext = orgRepos > personalRepos 
+    ? 'primarily organization/work repositories' 
+    : orgRepos > 0 
+      ? 'a mix of personal and organization repositories'
+      : 'personal repositories'
+
+  // Use user-reported data if available, otherwise fall back to auto-detection
+  const effectiveAiPercentage = userReportedAiPercentage !== null ? userReportedAiPercentage : aiAssistedPercentage
+  const aiUsageContext = userReportedAiPercentage !== null
+    ? (userReportedAiPercentage > 50
+        ? `developer self-reported ${userReportedAiPercentage}% AI-assisted development`
+        : userReportedAiPercentage > 0
+          ? `developer self-reported ${userReportedAiPercentage}% AI-assisted development`
+          : 'developer reports primarily manual development')
+    : (aiAssistedPercentage > 50
+        ? 'heavily AI-assisted development (Copilot/bots)'
+        : aiAssistedPercentage > 10
+          ? 'some AI-assisted development'
+          : totalCopilotCommits > 0 || totalCoAuthoredWithCopilot > 0
+            ? 'occasional AI assistance'
+            : 'traditional development (no detected AI commits)')
+
+  // Last year's snapshot (optional) - compared against this run for a "what changed" narrative
+  const yearComparison = year && isWrappedSnapshot(input.previousYear) && input.previousYear.year < year
+    ? compareSnapshots(buildWrappedSnapshot({
+        year,
+        repositories,
+        repoPreferences: userPreferences?.repos,
+        developmentMode: userPreferences?.defaultMode,
+      }), input.previousYear)
+    : null
+
+  // When the developer codes (commit timestamps in their own timezone)
+  const rhythm = computeRhythmMetrics(
+    repositories.flatMap((r: any) => r.stats?.commitDates || []),
+    resolveTimeZone(input.timeZone)
+  )
+
+  // Collect user custom groups for the AI to respect
+  const userCustomGroups = userPreferences?.customGroups || {}
+  const customGroupsList = Object.values(userCustomGroups).map((g: any) => `${g.icon} ${g.name}: ${g.description || 'User-defined group'}`).join('\n')
+
+  let analysisResult: any
+  let completion: LLMCompletion | null = null
+  if (llm) {
+    completion = await llm.complete({
+      system: `You are an expert developer portfolio analyst. Given a comprehensive list of repositories with their statistics and metadata, you will create a data-driven year-in-review.
+
+CRITICAL RULES:
+1. Let the DATA drive your analysis - don't assume side projects, AI usage, etc.
+2. **EVERY repository MUST be included in exactly ONE group** - no repos left out!
+3. Look for naming patterns in repos (e.g., "focusai-*", "walkies-*", "mealsage-*") and group related projects together
+4. Base your narrative entirely on what the numbers and repo characteristics tell you.
+5. If a repo has a userCustomGroup specified, respect that assignment.
+6. If a repo has userNarrative, incorporate that context into your analysis of that project.
+7. Trust userReportedAi over auto-detected AI metrics - the developer knows best.`,
+      user: `Analyze this developer's ${year ? `${year} ` : ''}year of coding:
+
+OVERALL STATS:
+- Total Commits: ${totalStats?.totalCommits || totalCommits}
+- Lines Added: ${totalStats?.totalAdditions || 'N/A'}
+- Lines Deleted: ${totalStats?.totalDeletions || 'N/A'}
+- Net Lines: ${totalStats?.totalNet || 'N/A'}
+- Total Repositories: ${repositories.length}
+
+AI/AUTOMATION ANALYSIS:
+- Copilot Coding Agent Commits: ${totalCopilotCommits}
+- Co-authored with Copilot: ${totalCoAuthoredWithCopilot}
+- Total Bot Commits (Copilot, Dependabot, etc.): ${totalBotCommits}
+- AI-Assisted Percentage (auto-detected): ${aiAssistedPercentage}%
+${userReportedAiPercentage !== null ? `- User-Reported AI Repos: ${userReportedAiRepos}/${userReportedTotal} (${userReportedAiPercentage}%)` : ''}
+- Pattern: ${aiUsageContext}
+
+REPOSITORY OWNERSHIP:
+- Organization Repos: ${orgRepos}
+- Personal Repos: ${personalRepos}
+- Pattern: ${repoTypeContext}
+${rhythm.totalCommits > 0 ? `\nCODING RHYTHM (achievements may reference this):\n- ${describeRhythm(rhythm)}\n` : ''}${yearComparison ? `\nCOMPARED TO ${yearComparison.previousYear}:\n${formatComparisonForPrompt(yearComparison)}\n` : ''}${customGroupsList ? `\nUSER-DEFINED CUSTOM GROUPS (respect these assignments):\n${customGroupsList}` : ''}
+
+REPOSITORIES (you MUST include ALL ${repositories.length} repos in groups):
+${JSON.stringify(repoSummaries, null, 2)}
+
+CRITICAL: Your groups MUST contain ALL ${repositories.length} repositories listed above. Every single repo name must appear in exactly one group.
+
+GROUPING TIPS:
+- Look for naming patterns: repos starting with same prefix (focusai-*, walkies-*, mealsage-*) are likely related
+- Repos sharing GitHub topics are likely related too
+- Group by product/project family first, then by technology or purpose
+- A repo can only be in ONE group
+
+Respond with JSON in this exact format:
+{
+"groups": [
+  {
+    "name": "Group Name (based on actual project types/themes or naming patterns)",
+    "icon": "🤖",
+    "description": "Brief description of this category",
+    "repos": ["repo-name-1", "repo-name-2"]
+  }
+],
+"featuredProjects": [
+  {
+    "repoName": "project-name",
+    "category": "Category based on what project does",
+    "categoryIcon": "🍳",
+    "headline": "Short catchy title based on actual project",
+    "description": "2-3 sentences about what makes this project impressive (use actual data)",
+    "color": "cyan"
+  }
+],
+"yearNarrative": {
+  "title": "Data-driven year title (reflect actual patterns - work, AI, scale, etc.)",
+  "intro": "2-3 sentence intro based on what the DATA shows",
+  "context": "Context derived from the data (e.g., 'Across X org repos and Y personal projects...')"
+},
+"aiInsights": {
+  "headline": "Compelling title like 'AI-Augmented Development' or 'Modern Development Workflow' based on detected patterns",
+  "description": "2-3 sentence overview of how the developer works, their productivity patterns, and what makes their approach effective",
+  "toolsUsed": ["List actual tools detected - Copilot if copilot commits found, Dependabot if bot commits, CI/CD tools, etc."],
+  "whatChanged": [
+    "Provide 4-6 specific, data-driven insights about HOW the developer works",
+    "Examples: 'Shifted to TypeScript-first development across 8 projects'",
+    "'Adopted AI pair programming for rapid prototyping'",
+    "'Established consistent CI/CD pipelines across org repos'",
+    "'Focused on full-stack development with Next.js dominance'",
+    "Use actual repo names, languages, and numbers from the data"
+  ],
+  "honestTake": [
+    "Provide 4-6 balanced, thoughtful observations about the work",
+    "Examples: 'High velocity output suggests AI assistance or exceptional productivity'",
+    "'Mix of org and personal projects shows both professional and passion work'",
+    "'Consistent commit patterns indicate disciplined development habits'",
+    "'Breadth of languages shows adaptability, depth in TypeScript shows specialization'",
+    "Be specific and use real metrics from the data"
+  ]
+},
+"achievements": [
+  {
+    "icon": "🏆",
+    "title": "Achievement based on actual data",
+    "description": "Brief description with real numbers"
+  }
+],
+"topLanguages": [
+  { "name": "TypeScript", "count": 15, "percentage": 62 }
+],
+"developmentPattern": {
+  "type": "work|personal|mixed",
+  "aiAssisted": true/false,
+  "scale": "small|medium|large"
+}${yearComparison ? `,
+"yearOverYear": "2-3 sentences on what changed since ${yearComparison.previousYear} - use the comparison numbers, new/retired projects and languages"` : ''}
+}
+
+Create 4-8 groups to ensure ALL repos are covered. Use naming patterns to identify product families.
+3-4 featured projects, 4-6 achievements. Use actual project names and REAL numbers!
+
+IMPORTANT for aiInsights:
+- whatChanged: 4-6 specific, actionable insights about development patterns and workflow evolution
+- honestTake: 4-6 balanced observations mixing achievements with honest assessments
+- Make both sections substantive and data-driven, not generic platitudes`,
+      json: true,
+      temperature: 0.8,
+      maxTokens: 3000,
+    })
+
+    analysisResult = parseJSONContent(completion.content || '{}')
+  } else {
+    // AI disabled - same shape, built from names, topics, READMEs and commit history
+    analysisResult = buildHeuristicAnalysis(repositories, userPreferences, {
+      totalCopilotCommits,
+      totalBotCommits,
+      totalCoAuthoredWithCopilot,
+      aiAssistedPercentage,
+      orgRepos,
+      personalRepos,
+      userReportedAiPercentage,
+    }, year, rhythm)
+  }
+
+  // Ensure ALL repos are included in groups - AI sometimes misses some
+  const allRepoNames = repositories.map((r: any) => r.name)
+  const groupedRepoNames = new Set<string>()
+  
+  const groups = analysisResult.groups || []
+  groups.forEach((group: any) => {
+    if (group.repos) {
+      group.repos.forEach((name: string) => groupedRepoNames.add(name))
+    }
+  })
+  
+  // Find any repos that weren't grouped
+  const ungroupedRepos = allRepoNames.filter((name: string) => !groupedRepoNames.has(name))
+  
+  // Add an "Other Projects" group if there are ungrouped repos
+  if (ungroupedRepos.length > 0) {
+    groups.push({
+      name: 'Other Projects',
+      icon: '📁',
+      description: 'Additional projects and experiments',
+      repos: ungroupedRepos,
+    })
+  }
+
+  return {
+    groups,
+    featuredProjects: analysisResult.featuredProjects || [],
+    yearNarrative: analysisResult.yearNarrative || null,
+    aiInsights: analysisResult.aiInsights || null,
+    achievements: analysisResult.achievements || [],
+    topLanguages: analysisResult.topLanguages || [],
+    developmentPattern: analysisResult.developmentPattern || null,
+    yearOverYear: yearComparison
+      ? (analysisResult.yearOverYear || describeComparison(yearComparison))
+      : null,
+    // Include raw stats for display
+    detectedStats: {
+      totalCopilotCommits,
+      totalBotCommits,
+      totalCoAuthoredWithCopilot,
+      aiAssistedPercentage,
+      orgRepos,
+      personalRepos,
+      // Include user-reported stats
+      userReportedAiRepos,
+      userReportedManualRepos,
+      userReportedAiPercentage,
+    },
+    usage: completion?.usage,
+    provider: completion?.provider,
+    model: completion?.model,
+    heuristic: !llm,
+  }
+}
+
+/**
+ * Heuristic analysis used when the LLM call fails
+ */
+export function buildFallbackAnalysis(input: Partial<WrappedAnalysisInput>) {
+  const repositories: any[] = Array.isArray(input.repositories) ? input.repositories : []
+  const rhythm = computeRhythmMetrics(
+    repositories.flatMap(r => r?.stats?.commitDates || []),
+    resolveTimeZone(input.timeZone)
+  )
+  return buildHeuristicAnalysis(repositories, input.userPreferences, undefined, input.year ?? null, rhythm)
+}
@@ -1,4 +1,12 @@
-export { default } from 'next-auth/middleware'
+import { withAuth } from 'next-auth/middleware'
+
+export default withAuth({
+  callbacks: {
+    // GitHub routes also take a token (scripts, service accounts) - the route verifies it
+    authorized: ({ token, req }) =>
+      !!token || (req.nextUrl.pathname.startsWith('/api/github/') && !!req.headers.get('authorization')),
+  },
+})
 
 export const config = {
   // Protect both pages and API routes (defense-in-depth for APIs)
@@ -6,5 +14,7 @@ export const config = {
     '/dashboard/:path*',
     '/wrapped/:path*',
     '/api/github/:path*',
+    '/api/user/:path*',
+    '/api/analysis/:path*',
   ],
 }
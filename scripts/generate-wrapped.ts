@@ -0,0 +1,354 @@
+/**
+ * Generate a wrapped from the command line - runs the same stats -> analyze -> group
+ * pipeline as the dashboard and writes the self-contained HTML export.
+ *
+ *   npm run wrapped -- --year 2024 --org acme --repo 'acme/api-*' --out wrapped.html
+ *
+ * Authenticates with a personal access token (--token or GITHUB_TOKEN) and reads the
+ * same environment as the server (.env.local by default) for AI keys, GitHub
+ * Enterprise URLs and DATA_DIR. Run with --help for every option.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { parseArgs } from 'util'
+import { createGitHubClient } from '@/lib/github'
+import { fetchUserRepositories } from '@/lib/repositories'
+import { fetchContributionData, type ContributionData } from '@/lib/contributions'
+import { startAnalysisJob, subscribeToJob } from '@/lib/analysisJobs'
+import { createLLMClient, getServerLLMConfig, LLM_PROVIDERS, type LLMClient } from '@/lib/llm'
+import { getUserDocument } from '@/lib/userStore'
+import { generateInteractiveHTML } from '@/utils/exportHTML'
+import { migratePreferences } from '@/utils/preferencesSchema'
+import { buildDailyActivity, computeActivityMetrics, getLocalTimeZone } from '@/utils/activityMetrics'
+import { computeWrappedTotals, computeImpactMetrics } from '@/utils/wrappedMetrics'
+import { buildWrappedSnapshot, compareSnapshots } from '@/utils/yearComparison'
+import { getSelectableYears, getYearRange } from '@/utils/dateRange'
+import type {
+  AnalysisJobCompleteEvent,
+  AnalysisJobEvent,
+  AuthorScope,
+  Repository,
+  RepoPreferences,
+  WrappedSnapshot,
+} from '@/types'
+
+const HELP = `Usage: npm run wrapped -- [options]
+
+Options:
+  --token <pat>           GitHub token (default: GITHUB_TOKEN)
+  --year <yyyy>           Wrapped year (default: the preferences' year, else this year)
+  --repo <glob>           Only repos whose owner/name matches, e.g. 'acme/*' (repeatable)
+  --exclude <glob>        Skip repos whose owner/name matches (repeatable)
+  --org <login>           Only repos owned by this user or org (repeatable)
+  --selected              Only repos marked selected in the preferences
+  --include-forks         Include forks
+  --exclude-archived      Leave out archived repos (included by default)
+  --include-contributed   Include repos you only opened pull requests against
+  --preferences <file>    Preferences JSON exported from the app (default: the ones
+                          synced to this server's DATA_DIR, if any)
+  --author-scope <scope>  me, all or comma-separated logins (default: the preferences' scope, else me)
+  --ai-provider <id>      ${LLM_PROVIDERS.join(', ')} (default: AI_PROVIDER)
+  --ai-model <model>      Override the provider's default model
+  --no-ai                 Build summaries and groups heuristically, without an AI provider
+  --time-zone <tz>        IANA timezone for daily activity and rhythm (default: this machine's)
+  --env-file <file>       Environment file to load (default: .env.local if present)
+  --out <file>            Output path (default: github-wrapped-<year>.html)
+  -h, --help              Show this help
+`
+
+interface CliOptions {
+  token: string
+  year: number | null
+  repoGlobs: string[]
+  excludeGlobs: string[]
+  orgs: string[]
+  selectedOnly: boolean
+  includeForks: boolean
+  includeArchived: boolean
+  includeContributed: boolean
+  preferencesPath: string | null
+  authorScope: AuthorScope | null
+  aiProvider: string | null
+  aiModel: string | null
+  noAI: boolean
+  timeZone: string
+  out: string | null
+}
+
+// Progress goes to stderr so stdout stays clean for scripts
+const log = (message: string) => process.stderr.write(`${message}\n`)
+
+function parseOptions(): CliOptions | null {
+  const { values } = parseArgs({
+    options: {
+      token: { type: 'string' },
+      year: { type: 'string' },
+      repo: { type: 'string', multiple: true },
+      exclude: { type: 'string', multiple: true },
+      org: { type: 'string', multiple: true },
+      selected: { type: 'boolean' },
+      'include-forks': { type: 'boolean' },
+      'exclude-archived': { type: 'boolean' },
+      'include-contributed': { type: 'boolean' },
+      preferences: { type: 'string' },
+      'author-scope': { type: 'string' },
+      'ai-provider': { type: 'string' },
+      'ai-model': { type: 'string' },
+      'no-ai': { type: 'boolean' },
+      'time-zone': { type: 'string' },
+      'env-file': { type: 'string' },
+      out: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+
+  if (values.help) return null
+
+  // Load the environment before reading anything from it
+  const envFile = values['env-file'] || (fs.existsSync('.env.local') ? '.env.local' : null)
+  if (envFile) process.loadEnvFile(envFile)
+
+  const token = values.token || process.env.GITHUB_TOKEN
+  if (!token) {
+    throw new Error('A GitHub token is required (--token or GITHUB_TOKEN)')
+  }
+
+  // parseWrappedYear would quietly fall back to this year - a headless run must not
+  const years = getSelectableYears()
+  const year = values.year !== undefined ? Number(values.year.trim()) : null
+  if (year !== null && (!/^\d{4}$/.test(values.year!.trim()) || !years.includes(year))) {
+    throw new Error(`Invalid --year "${values.year}" - expected ${years[years.length - 1]} to ${years[0]}\n\n${HELP}`)
+  }
+
+  const scope = values['author-scope']?.trim()
+  return {
+    token,
+    year,
+    repoGlobs: values.repo || [],
+    excludeGlobs: values.exclude || [],
+    orgs: (values.org || []).map(org => org.toLowerCase()),
+    selectedOnly: !!values.selected,
+    includeForks: !!values['include-forks'],
+    includeArchived: !values['exclude-archived'],
+    includeContributed: !!values['include-contributed'],
+    preferencesPath: values.preferences || null,
+    authorScope: !scope ? null
+      : scope === 'me' || scope === 'all' ? scope
+      : scope.split(',').map(login => login.trim()).filter(Boolean),
+    aiProvider: values['ai-provider'] || null,
+    aiModel: values['ai-model'] || null,
+    noAI: !!values['no-ai'] || process.env.AI_PROVIDER === 'none',
+    timeZone: values['time-zone'] || getLocalTimeZone(),
+    out: values.out || null,
+  }
+}
+
+// Shell-style glob over owner/name: * matches within a segment, ** across them, ? one character
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob
+    .split(/(\*\*|\*|\?)/)
+    .map(part => {
+      if (part === '**') return '.*'
+      if (part === '*') return '[^/]*'
+      if (part === '?') return '[^/]'
+      return part.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    })
+    .join('')
+  return new RegExp(`^${pattern}$`, 'i')
+}
+
+function filterRepositories(
+  repositories: Repository[],
+  options: CliOptions,
+  preferences: RepoPreferences,
+  year: number
+): Repository[] {
+  const include = options.repoGlobs.map(globToRegExp)
+  const exclude = options.excludeGlobs.map(globToRegExp)
+  const yearStart = new Date(getYearRange(year).since).getTime()
+
+  return repositories.filter(repo => {
+    if (options.orgs.length > 0 && !options.orgs.includes(repo.owner.login.toLowerCase())) return false
+    if (include.length > 0 && !include.some(re => re.test(repo.full_name))) return false
+    if (exclude.some(re => re.test(repo.full_name))) return false
+    if (options.selectedOnly && !preferences.repos[repo.full_name]?.selected) return false
+    // Nothing pushed since the year started - it can't have commits in it
+    if (repo.pushed_at && new Date(repo.pushed_at).getTime() < yearStart) return false
+    return true
+  })
+}
+
+// The preferences file, else the copy synced to this server, else defaults
+function loadPreferences(filePath: string | null, login: string): RepoPreferences {
+  if (filePath) {
+    return migratePreferences(JSON.parse(fs.readFileSync(filePath, 'utf8')))
+  }
+
+  const synced = getUserDocument(login, 'preferences')
+  if (synced) {
+    log(`Using the preferences synced for ${login}`)
+    return migratePreferences(synced.data)
+  }
+  return migratePreferences({})
+}
+
+// Snapshots synced from the app, for the year-over-year comparison
+function loadSnapshots(login: string): WrappedSnapshot[] {
+  const synced = getUserDocument<{ wrappedSnapshots?: Record<string, WrappedSnapshot> }>(login, 'wrapped')
+  return Object.values(synced?.data?.wrappedSnapshots || {})
+}
+
+function resolveLLM(options: CliOptions): LLMClient | null {
+  if (options.noAI) return null
+
+  // The CLI runs as the operator, so any model may be picked on the server's keys
+  const config = getServerLLMConfig({ provider: options.aiProvider, model: options.aiModel }, { allowAnyModel: true })
+  if (!config) {
+    throw new Error('No AI provider is configured - set its API key in the environment or pass --no-ai')
+  }
+  if (options.aiProvider && config.provider !== options.aiProvider) {
+    throw new Error(`No credentials for AI provider "${options.aiProvider}" - set its API key in the environment`)
+  }
+  return createLLMClient(config)
+}
+
+// Run an analysis job to completion, logging per-repo progress
+function runAnalysis(request: Parameters<typeof startAnalysisJob>[0]): Promise<AnalysisJobCompleteEvent> {
+  const job = startAnalysisJob(request)
+
+  return new Promise((resolve, reject) => {
+    subscribeToJob(job, 0, (event: AnalysisJobEvent) => {
+      switch (event.type) {
+        case 'repo':
+          if (event.data.stage === 'done') {
+            log(`  [${event.data.completed}/${event.data.total}] ${event.data.fullName} (${event.data.summarySource})`)
+          } else if (event.data.stage === 'error') {
+            log(`  [${event.data.completed}/${event.data.total}] ${event.data.fullName} failed: ${event.data.error}`)
+          }
+          break
+        case 'phase':
+          log(event.data.message)
+          break
+        case 'complete':
+          resolve(event.data)
+          break
+        case 'failed':
+          reject(new Error(event.data.error))
+          break
+        case 'cancelled':
+          reject(new Error('Analysis was cancelled'))
+          break
+      }
+    })
+  })
+}
+
+async function main(): Promise<void> {
+  const options = parseOptions()
+  if (!options) {
+    process.stdout.write(HELP)
+    return
+  }
+
+  const { data: user } = await createGitHubClient(options.token).users.getAuthenticated()
+  const login = user.login
+  const octokit = createGitHubClient(options.token, { login })
+
+  const preferences = loadPreferences(options.preferencesPath, login)
+  const year = options.year ?? preferences.wrappedYear ?? new Date().getFullYear()
+  const authorScope = options.authorScope ?? preferences.authorScope ?? 'me'
+  const llm = resolveLLM(options)
+
+  log(`Generating the ${year} wrapped for ${login}${llm ? ` with ${llm.config.provider} (${llm.config.model})` : ' without AI'}`)
+
+  const discovered = await fetchUserRepositories(octokit, login, {
+    includeForks: options.includeForks,
+    includeArchived: options.includeArchived,
+    includeContributed: options.includeContributed,
+  })
+  const repositories = filterRepositories(discovered, options, preferences, year)
+  if (repositories.length === 0) {
+    throw new Error(`None of your ${discovered.length} repositories match the filters`)
+  }
+  log(`Analyzing ${repositories.length} of ${discovered.length} repositories...`)
+
+  const snapshots = loadSnapshots(login)
+  const previousYear = snapshots
+    .filter(snapshot => snapshot.year < year)
+    .sort((a, b) => b.year - a.year)[0] || null
+
+  const result = await runAnalysis({
+    login,
+    accessToken: options.token,
+    llm,
+    repositories,
+    year,
+    authorScope,
+    userPreferences: preferences,
+    previousYear,
+    timeZone: options.timeZone,
+  })
+  result.failed.forEach(failure => log(`Skipped ${failure.fullName}: ${failure.error}`))
+
+  // The calendar fills in active days for repos that weren't analyzed
+  let contributionData: ContributionData | null = null
+  try {
+    contributionData = await fetchContributionData(octokit, login, year)
+  } catch (error: any) {
+    log(`Couldn't fetch the contribution calendar: ${error.message}`)
+  }
+
+  const analyzed = result.repositories
+  const analysis = result.analysis || {}
+  const stats = computeWrappedTotals(analyzed)
+  const activity = computeActivityMetrics(buildDailyActivity({
+    commitDates: analyzed.flatMap(r => r.stats?.commitDates || []),
+    contributionWeeks: contributionData?.weeks,
+    timeZone: options.timeZone,
+  }))
+  const yearComparison = previousYear
+    ? compareSnapshots(buildWrappedSnapshot({
+        year,
+        repositories: analyzed,
+        repoPreferences: preferences.repos,
+        developmentMode: preferences.defaultMode,
+        timeZone: options.timeZone,
+      }), previousYear)
+    : null
+
+  const html = generateInteractiveHTML({
+    repositories: analyzed,
+    stats,
+    repositoryGroups: analysis.groups || [],
+    impactMetrics: computeImpactMetrics({
+      repositories: analyzed,
+      stats,
+      activity,
+      repoPreferences: preferences.repos,
+      developmentMode: preferences.defaultMode,
+    }),
+    repoPreferences: preferences.repos,
+    customGroups: preferences.customGroups,
+    developmentMode: preferences.defaultMode,
+    aiInsights: analysis.aiInsights || null,
+    achievements: analysis.achievements || [],
+    featuredProjects: analysis.featuredProjects || [],
+    yearNarrative: analysis.yearNarrative || null,
+    exportedAt: new Date().toISOString(),
+    contributionData,
+    timeZone: options.timeZone,
+    year,
+    yearComparison,
+    yearOverYear: analysis.yearOverYear || null,
+  })
+
+  const out = path.resolve(options.out || `github-wrapped-${year}.html`)
+  fs.writeFileSync(out, html)
+  log(`Wrote ${out}`)
+}
+
+main().catch((error: any) => {
+  log(`Error: ${error.message || error}`)
+  process.exit(1)
+})
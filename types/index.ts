@@ -1,3 +1,8 @@
+import type { DateRange } from '@/utils/dateRange'
+
+// How a repository was discovered for the user
+export type RepositorySource = 'owner' | 'collaborator' | 'organization' | 'contributed'
+
 export interface Repository {
   id: number
   name: string
@@ -16,6 +21,10 @@ export interface Repository {
     avatar_url: string
   }
   private: boolean
+  fork?: boolean
+  archived?: boolean
+  source?: RepositorySource
+  topics?: string[]  // Used for grouping related projects
 }
 
 export interface RepositoryStats {
@@ -27,6 +36,28 @@ export interface RepositoryStats {
   readme: string | null
   commitMessages: string[]
   commitDates?: string[]  // ISO date strings for each commit
+  commitMessageStats?: CommitMessageStats  // Aggregates over every in-range commit message
+  commitThemes?: CommitThemes              // Same history, bucketed for offline summaries
+}
+
+// What a repo's in-range commits worked on: conventional types (with the latest subject
+// as an example) and keyword clusters such as testing or performance
+export interface CommitThemes {
+  byType: Record<string, { count: number; example: string }>
+  byTopic: Record<string, number>
+}
+
+// What a repo's commit messages say about how it was built
+export interface CommitMessageStats {
+  total: number
+  merges: number                   // Merge commits (counted, not classified or scored)
+  conventional: number             // Follow the conventional-commit format
+  byType: Record<string, number>   // feat/fix/refactor/docs/chore/... ('other' for unknown types)
+  issueReferences: number          // Mention #123, GH-123, ABC-123 or "closes #123"
+  reverts: number
+  wip: number
+  averageQuality: number           // 0-100, see scoreCommitMessage
+  averageSubjectLength: number
 }
 
 export interface AISummary {
@@ -97,8 +128,14 @@ export interface RepoPreferences {
   // Global default for development style
   defaultMode: DevelopmentMode
   
-  // Per-repo overrides
+  // Per-repo overrides, keyed by full_name (owner/repo)
   repos: {
+    [fullName: string]: RepoPreference
+  }
+  
+  // Overrides saved before v2 under a bare repo name, waiting to be matched to a
+  // full_name (ambiguous when two owners have a repo with that name)
+  legacyRepos?: {
     [repoName: string]: RepoPreference
   }
   
@@ -106,8 +143,265 @@ export interface RepoPreferences {
   customGroups: {
     [groupName: string]: CustomGroup
   }
+  
+  // Calendar year the wrapped covers (undefined = current year)
+  wrappedYear?: number
+  
+  // Whose commits count toward stats (undefined = 'me')
+  authorScope?: AuthorScope
+  
+  // Last local change (ISO date string) - the newer copy wins when syncing with the server
+  updatedAt?: string
+}
+
+// What's actually stored/exported: preferences tagged with their schema version
+export interface PreferencesEnvelope {
+  version: number
+  preferences: RepoPreferences
+  exportedAt?: string  // Set on exported files only
+}
+
+// What importing a preferences file would change for one repo
+export interface RepoPreferenceChange {
+  repoName: string
+  status: 'added' | 'changed'
+  fields: Array<{
+    field: string
+    from: string
+    to: string
+  }>
+}
+
+export interface PreferencesImportPreview {
+  preferences: RepoPreferences  // The imported (migrated) preferences
+  version: number               // Schema version of the file before migration
+  repoChanges: RepoPreferenceChange[]
+  unchangedRepos: number
+  newGroups: string[]
+  defaultModeChange?: { from: DevelopmentMode; to: DevelopmentMode }
+}
+
+// Legacy bare-name preferences that match more than one repo (user picks which)
+export interface RepoKeyCollision {
+  repoName: string
+  preference: RepoPreference
+  candidates: string[]  // full_names of the repos sharing this name
+}
+
+// ============================================
+// Year-over-year Types
+// ============================================
+
+// The headline numbers of one generated wrapped, kept per year for comparisons
+export interface WrappedSnapshot {
+  year: number
+  generatedAt: string
+  totals: {
+    commits: number
+    additions: number
+    deletions: number
+    net: number
+    activeDays: number
+    longestStreak: number
+  }
+  languages: Record<string, number>  // Commits per language (see languageWeights)
+  languageWeights?: 'commits'        // Absent on older snapshots, whose languages are all-time bytes
+  aiAssistedShare: number            // % of repos marked (or defaulting to) AI-assisted
+  projects: Array<{
+    fullName: string
+    name: string
+    commits: number
+    language: string | null
+  }>
+  narrativeTitle?: string
+  yearOverYear?: string  // "What changed" narrative vs the previous snapshot
+}
+
+export interface YearComparisonMetric {
+  key: 'commits' | 'additions' | 'net' | 'activeDays' | 'longestStreak' | 'projects' | 'aiAssistedShare'
+  label: string
+  current: number
+  previous: number
+  delta: number
+  percentChange: number | null  // null when the previous value was 0
+}
+
+export interface YearComparison {
+  year: number
+  previousYear: number
+  metrics: YearComparisonMetric[]
+  languages: Array<{
+    language: string
+    currentShare: number   // % of this year's commits
+    previousShare: number  // % of the previous year's commits
+  }>
+  newLanguages: string[]
+  droppedLanguages: string[]
+  newProjects: string[]        // Active this year, not the previous one
+  retiredProjects: string[]    // Active the previous year, not this one
+  continuingProjects: string[]
+}
+
+// ============================================
+// GitHub API Types
+// ============================================
+
+// Remaining GitHub API quota for one resource, from response headers or /rate_limit
+export interface GitHubRateLimit {
+  resource: string  // 'core', 'graphql', 'search'...
+  limit: number
+  remaining: number
+  used: number
+  resetAt: string   // ISO date string
+}
+
+// ============================================
+// Access Policy Types
+// ============================================
+
+// What put a user on the allowlist: their login, an org or an org/team
+export type AccessGrant = 'user' | 'org' | 'team'
+
+// Whether the server's AI provider is available to the signed-in user (/api/user/access)
+export interface AIAccessStatus {
+  allowlisted: boolean
+  via: AccessGrant | null
+  byokRequired: boolean  // They must bring their own key (or choose offline mode) to run AI
+}
+
+// A BYOK key stored encrypted on the server - what the client may see of it (never the key)
+export interface StoredAIKeyInfo {
+  provider: 'openai' | 'anthropic' | 'azure' | 'openai-compatible'
+  baseURL: string | null
+  keyHint: string    // Last 4 characters
+  createdAt: string
+  updatedAt: string  // Last rotation
+}
+
+// Server-side key storage for the signed-in user (/api/user/ai-key)
+export interface StoredAIKeyStatus {
+  available: boolean  // The server has a master key configured
+  key: StoredAIKeyInfo | null
+}
+
+// ============================================
+// AI Usage Types
+// ============================================
+
+// Tokens and estimated cost over a period
+export interface AIUsageTotals {
+  requests: number
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  costUsd: number
+}
+
+export type AIQuotaPeriod = 'day' | 'month'
+
+// Limits on server-key usage (null = unlimited) and what's been used against them
+export interface AIQuotaStatus {
+  limits: {
+    dailyTokens: number | null
+    monthlyTokens: number | null
+    dailyCostUsd: number | null
+    monthlyCostUsd: number | null
+  }
+  usedToday: AIUsageTotals
+  usedThisMonth: AIUsageTotals
+  exceeded: AIQuotaPeriod | null
+  message: string | null
+  resetsAt: string | null  // When the exceeded period ends (UTC)
 }
 
+// One analysis run's consumption
+export interface AIRunUsage {
+  runId: string
+  requests: number
+  totalTokens: number
+  costUsd: number
+  startedAt: string
+}
+
+// Everything the dashboard shows (/api/user/usage). Today/month include calls made
+// with the user's own key; quotas only count the server's.
+export interface AIUsageSummary {
+  today: AIUsageTotals
+  month: AIUsageTotals
+  quota: AIQuotaStatus
+  recentRuns: AIRunUsage[]
+}
+
+// ============================================
+// Analysis Job Types
+// ============================================
+
+export type AnalysisJobStatus = 'running' | 'complete' | 'failed' | 'cancelled'
+
+// Where a repo's summary came from
+export type SummarySource = 'ai' | 'cached' | 'heuristic' | 'fallback'
+
+export interface AnalysisJobStartEvent {
+  jobId: string
+  year: number | null
+  total: number
+  completed: number  // Repos carried over from an earlier run (not re-analyzed)
+}
+
+// One repo moving through the pipeline: stats -> summary -> done (or error)
+export interface AnalysisJobRepoEvent {
+  fullName: string
+  name: string
+  stage: 'stats' | 'summary' | 'done' | 'error'
+  repository?: AnalyzedRepository  // Set once done
+  summarySource?: SummarySource
+  cacheKey?: string | null
+  error?: string
+  completed: number
+  total: number
+}
+
+export interface AnalysisJobPhaseEvent {
+  phase: 'grouping'
+  message: string
+}
+
+export interface AnalysisJobRepoFailure {
+  fullName: string
+  name: string
+  error: string
+}
+
+export interface AnalysisJobCompleteEvent {
+  repositories: AnalyzedRepository[]  // Carried-over and newly analyzed repos
+  failed: AnalysisJobRepoFailure[]     // Left out of the analysis - can be retried
+  analysis: any  // Same shape as the group route's response
+}
+
+export interface AnalysisJobFailedEvent {
+  error: string
+  failed: AnalysisJobRepoFailure[]
+}
+
+// The job queue was paused or resumed (in-flight repos always finish)
+export interface AnalysisJobQueueEvent {
+  paused: boolean
+}
+
+export interface AnalysisJobCancelledEvent {
+  completed: number  // Repos this job finished before the cancel
+}
+
+export type AnalysisJobEvent =
+  | { id: number; type: 'start'; data: AnalysisJobStartEvent }
+  | { id: number; type: 'repo'; data: AnalysisJobRepoEvent }
+  | { id: number; type: 'phase'; data: AnalysisJobPhaseEvent }
+  | { id: number; type: 'queue'; data: AnalysisJobQueueEvent }
+  | { id: number; type: 'rateLimit'; data: GitHubRateLimit }
+  | { id: number; type: 'complete'; data: AnalysisJobCompleteEvent }
+  | { id: number; type: 'failed'; data: AnalysisJobFailedEvent }
+  | { id: number; type: 'cancelled'; data: AnalysisJobCancelledEvent }
+
 // Available icons for custom groups
 export const GROUP_ICONS = ['📁', '🚀', '🔧', '💡', '🎨', '🔬', '📊', '🌐'] as const
 
@@ -124,9 +418,50 @@ export interface AuthorAnalysis {
   botAuthors: string[]
 }
 
+// Whose work counts toward the stats: the signed-in user, everyone, or specific logins
+export type AuthorScope = 'me' | 'all' | string[]
+
+export interface ContributionTotals {
+  commits: number
+  additions: number
+  deletions: number
+  net: number
+}
+
+// Contributions of one kind to one repository (nameWithOwner)
+export interface RepoContributionCount {
+  repository: string
+  count: number
+}
+
+// Pull request, code review and issue activity from the contribution graph
+export interface CollaborationStats {
+  pullRequests: {
+    opened: number
+    merged: number
+    medianTimeToMergeHours: number | null  // null when nothing was merged
+    byRepository: RepoContributionCount[]
+  }
+  reviews: {
+    given: number
+    byRepository: RepoContributionCount[]  // Most reviewed first
+  }
+  issues: {
+    opened: number
+    byRepository: RepoContributionCount[]
+  }
+}
+
 export interface ExtendedRepositoryStats extends RepositoryStats {
   authorAnalysis?: AuthorAnalysis
   ownerType?: string
   isOrgRepo?: boolean
+  range?: DateRange | null  // Date range the stats were scoped to (null = all-time)
+  authorScope?: AuthorScope
+  authorLogins?: string[] | null  // Logins the scope resolved to (null = all contributors)
+  myShare?: ContributionTotals    // Work by the scoped authors (same as commits/additions/deletions)
+  repoTotal?: ContributionTotals  // Work by every contributor
+  headSha?: string | null         // Default branch head when the stats were fetched
+  incrementalCommits?: boolean    // Only commits since the last scan were listed (the rest came from the cache)
   generatedAt: string
 }
@@ -0,0 +1,232 @@
+/**
+ * Activity Metrics - streaks, active days and busiest periods from real dates
+ *
+ * Works on per-day counts keyed by local calendar date (YYYY-MM-DD), built either
+ * from commit timestamps (converted into the viewer's timezone) or from the
+ * GitHub contribution calendar (already bucketed by day).
+ */
+
+export type DailyCounts = Record<string, number>
+
+export interface CalendarWeek {
+  contributionDays: Array<{ contributionCount: number; date: string }>
+}
+
+export interface ActivityMetrics {
+  activeDays: number
+  longestStreak: number
+  longestStreakStart: string | null
+  longestStreakEnd: string | null
+  currentStreak: number
+  busiestDay: { date: string; count: number } | null
+  busiestWeek: { weekStart: string; count: number } | null   // Weeks start on Sunday, like GitHub's calendar
+  busiestMonth: { month: string; count: number } | null      // YYYY-MM
+  longestGap: { from: string; to: string; days: number } | null  // Idle days between two active days
+}
+
+const MS_PER_DAY = 86400000
+
+// Cache formatters - constructing Intl.DateTimeFormat is relatively expensive
+const dateKeyFormatters: Record<string, Intl.DateTimeFormat> = {}
+
+/**
+ * Get the viewer's timezone (falls back to UTC where Intl can't tell)
+ */
+export function getLocalTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+  } catch {
+    return 'UTC'
+  }
+}
+
+/**
+ * Convert a timestamp to its calendar date (YYYY-MM-DD) in the given timezone
+ */
+export function toDateKey(date: string | number | Date, timeZone: string = 'UTC'): string {
+  if (!dateKeyFormatters[timeZone]) {
+    // en-CA formats dates as YYYY-MM-DD
+    dateKeyFormatters[timeZone] = new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    })
+  }
+  return dateKeyFormatters[timeZone].format(new Date(date))
+}
+
+// Day number since the epoch for a YYYY-MM-DD key (timezone-free arithmetic)
+function toDayNumber(dateKey: string): number {
+  const [year, month, day] = dateKey.split('-').map(Number)
+  return Math.floor(Date.UTC(year, month - 1, day) / MS_PER_DAY)
+}
+
+function fromDayNumber(dayNumber: number): string {
+  return new Date(dayNumber * MS_PER_DAY).toISOString().slice(0, 10)
+}
+
+/**
+ * Count commits per local calendar day
+ */
+export function countCommitsByDay(commitDates: string[], timeZone: string = 'UTC'): DailyCounts {
+  const counts: DailyCounts = {}
+  commitDates.forEach(date => {
+    if (!date || isNaN(Date.parse(date))) return
+    const key = toDateKey(date, timeZone)
+    counts[key] = (counts[key] || 0) + 1
+  })
+  return counts
+}
+
+/**
+ * Count contributions per day from the GitHub contribution calendar
+ */
+export function countContributionsByDay(weeks: CalendarWeek[]): DailyCounts {
+  const counts: DailyCounts = {}
+  weeks.forEach(week => {
+    week.contributionDays.forEach(day => {
+      if (day.contributionCount > 0) {
+        counts[day.date] = (counts[day.date] || 0) + day.contributionCount
+      }
+    })
+  })
+  return counts
+}
+
+/**
+ * Build daily activity for a wrapped: commit timestamps from the analyzed repos when
+ * available, otherwise the contribution calendar
+ */
+export function buildDailyActivity(options: {
+  commitDates?: string[]
+  contributionWeeks?: CalendarWeek[]
+  timeZone?: string
+}): DailyCounts {
+  const { commitDates = [], contributionWeeks = [], timeZone = 'UTC' } = options
+  if (commitDates.length > 0) {
+    return countCommitsByDay(commitDates, timeZone)
+  }
+  return countContributionsByDay(contributionWeeks)
+}
+
+/**
+ * Derive streaks, active days and busiest periods from per-day counts.
+ * `today` (YYYY-MM-DD) anchors the current streak - it counts if the last active day
+ * was today or yesterday.
+ */
+export function computeActivityMetrics(dailyCounts: DailyCounts, today?: string): ActivityMetrics {
+  const activeKeys = Object.keys(dailyCounts)
+    .filter(key => dailyCounts[key] > 0)
+    .sort()
+
+  const metrics: ActivityMetrics = {
+    activeDays: activeKeys.length,
+    longestStreak: 0,
+    longestStreakStart: null,
+    longestStreakEnd: null,
+    currentStreak: 0,
+    busiestDay: null,
+    busiestWeek: null,
+    busiestMonth: null,
+    longestGap: null,
+  }
+
+  if (activeKeys.length === 0) return metrics
+
+  const dayNumbers = activeKeys.map(toDayNumber)
+
+  // Streaks and gaps - walk consecutive active days
+  let streakStart = 0
+  for (let i = 0; i < dayNumbers.length; i++) {
+    if (i > 0) {
+      const diff = dayNumbers[i] - dayNumbers[i - 1]
+      if (diff > 1) {
+        streakStart = i
+        const idleDays = diff - 1
+        if (!metrics.longestGap || idleDays > metrics.longestGap.days) {
+          metrics.longestGap = { from: activeKeys[i - 1], to: activeKeys[i], days: idleDays }
+        }
+      }
+    }
+
+    const streakLength = i - streakStart + 1
+    if (streakLength > metrics.longestStreak) {
+      metrics.longestStreak = streakLength
+      metrics.longestStreakStart = activeKeys[streakStart]
+      metrics.longestStreakEnd = activeKeys[i]
+    }
+  }
+
+  // Current streak - only alive if the last active day is today or yesterday
+  const todayNumber = toDayNumber(today || toDateKey(new Date()))
+  const lastActive = dayNumbers[dayNumbers.length - 1]
+  if (todayNumber - lastActive <= 1) {
+    let current = 1
+    for (let i = dayNumbers.length - 1; i > 0 && dayNumbers[i] - dayNumbers[i - 1] === 1; i--) {
+      current++
+    }
+    metrics.currentStreak = current
+  }
+
+  // Busiest day / week / month
+  const weekCounts: Record<string, number> = {}
+  const monthCounts: Record<string, number> = {}
+
+  activeKeys.forEach((key, i) => {
+    const count = dailyCounts[key]
+    if (!metrics.busiestDay || count > metrics.busiestDay.count) {
+      metrics.busiestDay = { date: key, count }
+    }
+
+    // Epoch day 0 (1970-01-01) was a Thursday - shift so weeks start on Sunday
+    const dayOfWeek = (dayNumbers[i] + 4) % 7
+    const weekStart = fromDayNumber(dayNumbers[i] - dayOfWeek)
+    weekCounts[weekStart] = (weekCounts[weekStart] || 0) + count
+
+    const month = key.slice(0, 7)
+    monthCounts[month] = (monthCounts[month] || 0) + count
+  })
+
+  Object.entries(weekCounts).forEach(([weekStart, count]) => {
+    if (!metrics.busiestWeek || count > metrics.busiestWeek.count) {
+      metrics.busiestWeek = { weekStart, count }
+    }
+  })
+
+  Object.entries(monthCounts).forEach(([month, count]) => {
+    if (!metrics.busiestMonth || count > metrics.busiestMonth.count) {
+      metrics.busiestMonth = { month, count }
+    }
+  })
+
+  return metrics
+}
+
+/**
+ * Format a duration in hours for display, e.g. "40m", "5h" or "2.5d"
+ */
+export function formatDurationHours(hours: number): string {
+  if (hours < 1) return `${Math.max(1, Math.round(hours * 60))}m`
+  if (hours < 48) return `${Math.round(hours)}h`
+  return `${Math.round((hours / 24) * 10) / 10}d`
+}
+
+/**
+ * Format a YYYY-MM-DD (or YYYY-MM) key for display, e.g. "Mar 14" or "March 2025"
+ */
+export function formatActivityDate(key: string): string {
+  if (key.length === 7) {
+    const [year, month] = key.split('-').map(Number)
+    return new Date(Date.UTC(year, month - 1, 1)).toLocaleDateString('en-US', {
+      month: 'long',
+      year: 'numeric',
+      timeZone: 'UTC',
+    })
+  }
+  return new Date(toDayNumber(key) * MS_PER_DAY).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  })
+}
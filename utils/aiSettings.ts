@@ -0,0 +1,160 @@
+import type { LLMProviderId } from '@/lib/llm'
+import type { AIAccessStatus, StoredAIKeyStatus } from '@/types'
+
+/**
+ * AI Settings - client-side BYOK provider, model and key (stored in localStorage, or
+ * with the key kept encrypted on the server and only referenced from here)
+ */
+
+const AI_SETTINGS_KEY = 'ai_settings'
+const LEGACY_API_KEY = 'openai_api_key'
+
+// 'none' = offline mode: no LLM calls, summaries are built heuristically on the server
+export type AIProviderChoice = LLMProviderId | 'none'
+
+export interface AISettings {
+  provider: AIProviderChoice
+  model?: string    // Blank = the provider's default model
+  baseURL?: string  // Azure endpoint or OpenAI-compatible server URL
+  apiKey?: string
+  keyStorage?: 'browser' | 'server'  // 'server' = no apiKey here, the server holds it
+}
+
+export interface AIProviderOption {
+  id: AIProviderChoice
+  label: string
+  keyPlaceholder: string
+  modelPlaceholder: string
+  needsBaseURL: boolean
+  keyRequired: boolean
+}
+
+export const AI_PROVIDER_OPTIONS: AIProviderOption[] = [
+  { id: 'openai', label: 'OpenAI', keyPlaceholder: 'sk-...', modelPlaceholder: 'gpt-4o', needsBaseURL: false, keyRequired: true },
+  { id: 'anthropic', label: 'Anthropic', keyPlaceholder: 'sk-ant-...', modelPlaceholder: 'claude-3-5-sonnet-latest', needsBaseURL: false, keyRequired: true },
+  { id: 'azure', label: 'Azure OpenAI', keyPlaceholder: 'Azure API key', modelPlaceholder: 'Deployment name', needsBaseURL: true, keyRequired: true },
+  { id: 'openai-compatible', label: 'OpenAI-compatible (Ollama, llama.cpp...)', keyPlaceholder: 'Optional', modelPlaceholder: 'llama3.1', needsBaseURL: true, keyRequired: false },
+  { id: 'none', label: 'Offline (no AI - heuristic summaries)', keyPlaceholder: '', modelPlaceholder: '', needsBaseURL: false, keyRequired: false },
+]
+
+/**
+ * Get the provider option metadata for a provider id
+ */
+export function getProviderOption(provider: AIProviderChoice): AIProviderOption {
+  return AI_PROVIDER_OPTIONS.find(o => o.id === provider) || AI_PROVIDER_OPTIONS[0]
+}
+
+/**
+ * Load AI settings from localStorage (falls back to the original OpenAI-only key)
+ */
+export function loadAISettings(): AISettings | null {
+  if (typeof window === 'undefined') return null
+
+  try {
+    const stored = localStorage.getItem(AI_SETTINGS_KEY)
+    if (stored) {
+      const parsed = JSON.parse(stored)
+      if (parsed && AI_PROVIDER_OPTIONS.some(o => o.id === parsed.provider)) {
+        return parsed as AISettings
+      }
+    }
+  } catch (e) {
+    console.error('Failed to load AI settings:', e)
+  }
+
+  const legacyKey = localStorage.getItem(LEGACY_API_KEY)
+  return legacyKey ? { provider: 'openai', apiKey: legacyKey } : null
+}
+
+/**
+ * Save AI settings to localStorage
+ */
+export function saveAISettings(settings: AISettings): void {
+  if (typeof window === 'undefined') return
+  localStorage.setItem(AI_SETTINGS_KEY, JSON.stringify(settings))
+  localStorage.removeItem(LEGACY_API_KEY)
+}
+
+/**
+ * Remove saved AI settings (and any legacy key)
+ */
+export function clearAISettings(): void {
+  if (typeof window === 'undefined') return
+  localStorage.removeItem(AI_SETTINGS_KEY)
+  localStorage.removeItem(LEGACY_API_KEY)
+}
+
+/**
+ * Whether the user has configured their own provider (BYOK)
+ */
+export function hasAISettings(): boolean {
+  const settings = loadAISettings()
+  if (!settings) return false
+  if (settings.provider === 'none' || settings.keyStorage === 'server') return true
+  return !!settings.apiKey || (!getProviderOption(settings.provider).keyRequired && !!settings.baseURL)
+}
+
+/**
+ * Ask the server whether the user can run on its AI provider (by login, org or team)
+ * or has to bring their own key
+ */
+export async function fetchAIAccess(): Promise<AIAccessStatus> {
+  const response = await fetch('/api/user/access')
+  if (!response.ok) {
+    throw new Error('Failed to check AI access')
+  }
+  return response.json()
+}
+
+/**
+ * Get JSON request headers with the user's AI provider settings attached
+ */
+export function getAIHeaders(): HeadersInit {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  const settings = loadAISettings()
+  if (!settings) return headers
+
+  headers['x-ai-provider'] = settings.provider
+  if (settings.model) headers['x-ai-model'] = settings.model
+  if (settings.baseURL) headers['x-ai-base-url'] = settings.baseURL
+  if (settings.apiKey) headers['x-ai-key'] = settings.apiKey
+  if (settings.keyStorage === 'server') headers['x-ai-key-source'] = 'server'
+  return headers
+}
+
+/**
+ * Whether the server can store keys, and the key it holds for the user (hint only)
+ */
+export async function fetchStoredAIKey(): Promise<StoredAIKeyStatus> {
+  const response = await fetch('/api/user/ai-key')
+  if (!response.ok) {
+    throw new Error('Failed to check stored key')
+  }
+  return response.json()
+}
+
+/**
+ * Store (or rotate) the user's key on the server, encrypted
+ */
+export async function storeAIKeyOnServer(entry: { provider: AIProviderChoice; baseURL?: string; apiKey: string }): Promise<StoredAIKeyStatus> {
+  const response = await fetch('/api/user/ai-key', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(entry),
+  })
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.message || data.error || 'Failed to store key')
+  }
+  return data
+}
+
+/**
+ * Delete the user's key from the server
+ */
+export async function revokeStoredAIKey(): Promise<void> {
+  const response = await fetch('/api/user/ai-key', { method: 'DELETE' })
+  if (!response.ok) {
+    throw new Error('Failed to revoke stored key')
+  }
+}
@@ -0,0 +1,73 @@
+import type { AIQuotaStatus, AIUsageSummary } from '@/types'
+
+/**
+ * AI Usage - the user's token consumption and estimated cost as shown on the dashboard
+ */
+
+// Near = this share of any server quota used
+const NEAR_QUOTA_SHARE = 0.8
+
+/**
+ * Fetch today's and this month's usage (null when it can't be read)
+ */
+export async function fetchAIUsage(): Promise<AIUsageSummary | null> {
+  try {
+    const response = await fetch('/api/user/usage')
+    if (!response.ok) return null
+    return await response.json()
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Whether the user is over, or close to, one of the server's AI quotas
+ */
+export function isAIQuotaNear(quota: AIQuotaStatus): boolean {
+  if (quota.exceeded) return true
+  const { limits, usedToday, usedThisMonth } = quota
+  const near = (used: number, limit: number | null) => limit !== null && used >= limit * NEAR_QUOTA_SHARE
+  return near(usedToday.totalTokens, limits.dailyTokens)
+    || near(usedThisMonth.totalTokens, limits.monthlyTokens)
+    || near(usedToday.costUsd, limits.dailyCostUsd)
+    || near(usedThisMonth.costUsd, limits.monthlyCostUsd)
+}
+
+/**
+ * The quota closest to running out, e.g. "80.0k/100.0k tokens today" (null without limits)
+ */
+export function describeQuotaUsage(quota: AIQuotaStatus): string | null {
+  const { limits, usedToday, usedThisMonth } = quota
+  const candidates: Array<{ share: number; text: string }> = []
+  if (limits.dailyTokens) {
+    candidates.push({ share: usedToday.totalTokens / limits.dailyTokens, text: `${formatTokenCount(usedToday.totalTokens)}/${formatTokenCount(limits.dailyTokens)} tokens today` })
+  }
+  if (limits.monthlyTokens) {
+    candidates.push({ share: usedThisMonth.totalTokens / limits.monthlyTokens, text: `${formatTokenCount(usedThisMonth.totalTokens)}/${formatTokenCount(limits.monthlyTokens)} tokens this month` })
+  }
+  if (limits.dailyCostUsd) {
+    candidates.push({ share: usedToday.costUsd / limits.dailyCostUsd, text: `${formatCost(usedToday.costUsd)}/${formatCost(limits.dailyCostUsd)} today` })
+  }
+  if (limits.monthlyCostUsd) {
+    candidates.push({ share: usedThisMonth.costUsd / limits.monthlyCostUsd, text: `${formatCost(usedThisMonth.costUsd)}/${formatCost(limits.monthlyCostUsd)} this month` })
+  }
+  if (candidates.length === 0) return null
+  return candidates.sort((x, y) => y.share - x.share)[0].text
+}
+
+/**
+ * Compact token count, e.g. "950", "12.3k", "1.2M"
+ */
+export function formatTokenCount(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`
+  return String(tokens)
+}
+
+/**
+ * Estimated cost, e.g. "$0.04" (cents aren't enough for a few summaries on small models)
+ */
+export function formatCost(costUsd: number): string {
+  if (costUsd > 0 && costUsd < 0.01) return '<$0.01'
+  return `$${costUsd.toFixed(2)}`
+}
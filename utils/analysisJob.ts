@@ -0,0 +1,217 @@
+import type {
+  AnalyzedRepository,
+  AuthorScope,
+  AnalysisJobStartEvent,
+  AnalysisJobRepoEvent,
+  AnalysisJobPhaseEvent,
+  AnalysisJobCompleteEvent,
+  AnalysisJobFailedEvent,
+  AnalysisJobCancelledEvent,
+  AnalysisJobQueueEvent,
+  GitHubRateLimit,
+} from '@/types'
+import { getAIHeaders } from '@/utils/aiSettings'
+
+/**
+ * Analysis Job - start a server-side analysis, follow its progress over SSE and
+ * keep the run's state (finished and failed repos) so a reloaded dashboard can
+ * reconnect, and an interrupted run can resume or retry without redoing finished repos.
+ */
+
+const RUN_KEY = 'analysisRun'
+
+// running = a job is (or should be) in flight; interrupted = cancelled, failed or lost;
+// complete = grouped, but some repos failed and can be retried
+export type AnalysisRunStatus = 'running' | 'interrupted' | 'complete'
+
+export interface AnalysisRun {
+  jobId: string | null
+  status: AnalysisRunStatus
+  year: number
+  authorScope: AuthorScope
+  repos: string[]                                // full_names selected for the run
+  completed: Record<string, AnalyzedRepository>  // Finished repos, carried into later jobs
+  failed: Record<string, string>                 // full_name -> error
+  message?: string                               // Why the run stopped
+  startedAt: string
+}
+
+export interface AnalysisJobHandlers {
+  onStart?: (data: AnalysisJobStartEvent) => void
+  onRepo?: (data: AnalysisJobRepoEvent) => void
+  onPhase?: (data: AnalysisJobPhaseEvent) => void
+  onQueue?: (data: AnalysisJobQueueEvent) => void
+  onRateLimit?: (data: GitHubRateLimit) => void
+  onComplete: (data: AnalysisJobCompleteEvent) => void
+  onFailed: (data: AnalysisJobFailedEvent) => void
+  onCancelled: (data: AnalysisJobCancelledEvent) => void
+  onLost: () => void  // Job unknown to the server (expired or the server restarted)
+}
+
+/**
+ * Start a job for the given repos and return its id
+ * (throws 'BYOK_REQUIRED' when the user needs to bring an API key, and the quota
+ * message when they've used up the server's AI quota)
+ */
+export async function startAnalysisJob(body: {
+  repositories: unknown[]
+  completedRepositories: unknown[]
+  year: number
+  authorScope: unknown
+  userPreferences: unknown
+  previousYear: unknown
+  timeZone: string
+}): Promise<string> {
+  const response = await fetch('/api/analysis/jobs', {
+    method: 'POST',
+    headers: getAIHeaders(),
+    body: JSON.stringify(body),
+  })
+  const data = await response.json()
+
+  if (response.status === 403 && data.code === 'BYOK_REQUIRED') {
+    throw new Error('BYOK_REQUIRED')
+  }
+  if (response.status === 429 && data.code === 'AI_QUOTA_EXCEEDED') {
+    throw new Error(data.message || data.error)
+  }
+  if (!response.ok || !data.jobId) {
+    throw new Error(data.error || 'Failed to start analysis')
+  }
+  return data.jobId
+}
+
+/**
+ * Ask the server to stop a job (false if it's unknown there, e.g. after a restart).
+ * The job then ends with a 'cancelled' event.
+ */
+export async function cancelAnalysisJob(jobId: string): Promise<boolean> {
+  const response = await fetch(`/api/analysis/jobs/${encodeURIComponent(jobId)}`, { method: 'DELETE' })
+  return response.ok
+}
+
+/**
+ * Pause or resume a job's queue (repos already in flight still finish)
+ */
+export async function setAnalysisJobPaused(jobId: string, paused: boolean): Promise<boolean> {
+  const response = await fetch(`/api/analysis/jobs/${encodeURIComponent(jobId)}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ paused }),
+  })
+  return response.ok
+}
+
+/**
+ * Follow a job's events (earlier ones are replayed first). Returns a function that
+ * closes the stream.
+ */
+export function subscribeToAnalysisJob(jobId: string, handlers: AnalysisJobHandlers): () => void {
+  const source = new EventSource(`/api/analysis/jobs/${encodeURIComponent(jobId)}/events`)
+  let finished = false
+
+  const listen = <T>(type: string, handler: ((data: T) => void) | undefined, terminal = false) => {
+    source.addEventListener(type, event => {
+      if (terminal) {
+        // The server closes the stream after this - don't let EventSource reconnect
+        finished = true
+        source.close()
+      }
+      handler?.(JSON.parse((event as MessageEvent).data))
+    })
+  }
+
+  listen('start', handlers.onStart)
+  listen('repo', handlers.onRepo)
+  listen('phase', handlers.onPhase)
+  listen('queue', handlers.onQueue)
+  listen('rateLimit', handlers.onRateLimit)
+  listen('complete', handlers.onComplete, true)
+  listen('failed', handlers.onFailed, true)
+  listen('cancelled', handlers.onCancelled, true)
+
+  // Dropped connections are retried by EventSource (resuming from Last-Event-ID);
+  // it only gives up when the server refuses the stream, e.g. 404 for an unknown job
+  source.onerror = () => {
+    if (!finished && source.readyState === EventSource.CLOSED) {
+      finished = true
+      handlers.onLost()
+    }
+  }
+
+  return () => {
+    finished = true
+    source.close()
+  }
+}
+
+/**
+ * Start tracking a new run
+ */
+export function createAnalysisRun(year: number, authorScope: AuthorScope, repos: string[]): AnalysisRun {
+  return {
+    jobId: null,
+    status: 'running',
+    year,
+    authorScope,
+    repos,
+    completed: {},
+    failed: {},
+    startedAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * Record a finished or failed repo (other stages don't change the run)
+ */
+export function recordRepoEvent(run: AnalysisRun, event: AnalysisJobRepoEvent): AnalysisRun {
+  if (event.stage === 'done' && event.repository) {
+    const { [event.fullName]: _, ...failed } = run.failed
+    return { ...run, completed: { ...run.completed, [event.fullName]: event.repository }, failed }
+  }
+  if (event.stage === 'error') {
+    return { ...run, failed: { ...run.failed, [event.fullName]: event.error || 'Analysis failed' } }
+  }
+  return run
+}
+
+/**
+ * Repos of the run that haven't finished (including failed ones)
+ */
+export function getPendingRepos(run: AnalysisRun): string[] {
+  return run.repos.filter(fullName => !run.completed[fullName])
+}
+
+/**
+ * Get the stored run (null if none)
+ */
+export function getAnalysisRun(): AnalysisRun | null {
+  if (typeof window === 'undefined') return null
+  try {
+    const stored = localStorage.getItem(RUN_KEY)
+    const parsed = stored ? JSON.parse(stored) : null
+    return parsed && Array.isArray(parsed.repos) && parsed.completed ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Store the run (survives reloads and closed tabs)
+ */
+export function saveAnalysisRun(run: AnalysisRun): void {
+  if (typeof window === 'undefined') return
+  try {
+    localStorage.setItem(RUN_KEY, JSON.stringify(run))
+  } catch (e) {
+    console.error('Failed to save analysis run:', e)
+  }
+}
+
+/**
+ * Forget the run (it finished cleanly or was discarded)
+ */
+export function clearAnalysisRun(): void {
+  if (typeof window === 'undefined') return
+  localStorage.removeItem(RUN_KEY)
+}
@@ -0,0 +1,175 @@
+import type { CommitMessageStats } from '@/types'
+
+/**
+ * Commit Messages - aggregate what a repo's commit history says about how it was built:
+ * conventional-commit types, issue references, reverts, WIP commits and message quality.
+ * Pure functions, shared by the stats/analyze routes, the wrapped page and the export.
+ */
+
+// Types shown in breakdowns; anything else conventional counts as 'other'
+export const CONVENTIONAL_TYPES = ['feat', 'fix', 'refactor', 'docs', 'chore', 'test', 'perf', 'ci', 'build', 'style'] as const
+
+const CONVENTIONAL_PATTERN = /^(\w+)(\([^)]*\))?!?:\s*(.+)$/
+const ISSUE_REFERENCE_PATTERN = /(^|[\s(])(#\d+|GH-\d+|[A-Z][A-Z0-9]+-\d+)\b|\b(close[sd]?|fix(e[sd])?|resolve[sd]?)\s+#\d+/i
+const REVERT_PATTERN = /^revert\b/i
+const WIP_PATTERN = /^(wip\b|\[wip\]|work in progress|tmp\b|temp\b)/i
+const MERGE_PATTERN = /^merge\b/i
+
+// Subjects that say nothing about the change
+const LOW_EFFORT_SUBJECTS = /^(update|updates|fix|fixes|changes|stuff|misc|wip|test|asdf|\.+|-+|commit|save|minor)\.?$/i
+
+/**
+ * Split a conventional commit subject ("feat(ui): add modal") into type and description
+ */
+export function parseConventionalCommit(subject: string): { type: string; description: string } | null {
+  const match = subject.match(CONVENTIONAL_PATTERN)
+  return match ? { type: match[1].toLowerCase(), description: match[3] } : null
+}
+
+/**
+ * Score one commit message 0-100: conventional format, a subject of useful length,
+ * a body, an issue reference, and not a throwaway subject
+ */
+export function scoreCommitMessage(message: string): number {
+  const [subjectLine, ...rest] = (message || '').split('\n')
+  const subject = subjectLine.trim()
+  if (!subject) return 0
+
+  let score = 0
+  if (parseConventionalCommit(subject)) score += 25
+  if (subject.length >= 10 && subject.length <= 72) score += 25
+  else if (subject.length > 72 && subject.length <= 100) score += 10
+  if (rest.join('\n').trim().length > 0) score += 15
+  if (ISSUE_REFERENCE_PATTERN.test(message)) score += 15
+  if (!LOW_EFFORT_SUBJECTS.test(subject) && !WIP_PATTERN.test(subject)) score += 20
+  return score
+}
+
+function emptyStats(): CommitMessageStats {
+  return {
+    total: 0,
+    merges: 0,
+    conventional: 0,
+    byType: {},
+    issueReferences: 0,
+    reverts: 0,
+    wip: 0,
+    averageQuality: 0,
+    averageSubjectLength: 0,
+  }
+}
+
+/**
+ * Aggregate a list of full commit messages (merge commits are counted but not scored)
+ */
+export function summarizeCommitMessages(messages: string[]): CommitMessageStats {
+  const stats = emptyStats()
+  let qualityTotal = 0
+  let subjectLengthTotal = 0
+
+  messages.forEach(message => {
+    const subject = (message || '').split('\n')[0].trim()
+    if (!subject) return
+    stats.total++
+
+    if (MERGE_PATTERN.test(subject)) {
+      stats.merges++
+      return
+    }
+
+    const conventional = parseConventionalCommit(subject)
+    if (conventional) {
+      stats.conventional++
+      const type = (CONVENTIONAL_TYPES as readonly string[]).includes(conventional.type) ? conventional.type : 'other'
+      stats.byType[type] = (stats.byType[type] || 0) + 1
+    }
+    if (ISSUE_REFERENCE_PATTERN.test(message)) stats.issueReferences++
+    if (REVERT_PATTERN.test(subject)) stats.reverts++
+    if (WIP_PATTERN.test(subject)) stats.wip++
+
+    qualityTotal += scoreCommitMessage(message)
+    subjectLengthTotal += subject.length
+  })
+
+  const scored = stats.total - stats.merges
+  stats.averageQuality = scored > 0 ? Math.round(qualityTotal / scored) : 0
+  stats.averageSubjectLength = scored > 0 ? Math.round(subjectLengthTotal / scored) : 0
+  return stats
+}
+
+/**
+ * Combine per-repo stats into one (averages weighted by scored messages)
+ */
+export function mergeCommitMessageStats(list: CommitMessageStats[]): CommitMessageStats {
+  const merged = emptyStats()
+  let qualityTotal = 0
+  let subjectLengthTotal = 0
+
+  list.forEach(stats => {
+    const scored = stats.total - stats.merges
+    merged.total += stats.total
+    merged.merges += stats.merges
+    merged.conventional += stats.conventional
+    merged.issueReferences += stats.issueReferences
+    merged.reverts += stats.reverts
+    merged.wip += stats.wip
+    Object.entries(stats.byType).forEach(([type, count]) => {
+      merged.byType[type] = (merged.byType[type] || 0) + count
+    })
+    qualityTotal += stats.averageQuality * scored
+    subjectLengthTotal += stats.averageSubjectLength * scored
+  })
+
+  const scored = merged.total - merged.merges
+  merged.averageQuality = scored > 0 ? Math.round(qualityTotal / scored) : 0
+  merged.averageSubjectLength = scored > 0 ? Math.round(subjectLengthTotal / scored) : 0
+  return merged
+}
+
+/**
+ * Share of non-merge commits (%), e.g. for "62% conventional"
+ */
+export function commitShare(stats: CommitMessageStats, count: number): number {
+  const scored = stats.total - stats.merges
+  return scored > 0 ? Math.round((count / scored) * 100) : 0
+}
+
+/**
+ * The aggregates as prompt lines (sent to the LLM instead of raw messages)
+ */
+export function formatCommitMessageStatsForPrompt(stats: CommitMessageStats): string {
+  const types = Object.entries(stats.byType)
+    .sort((a, b) => b[1] - a[1])
+    .map(([type, count]) => `${type} ${count}`)
+    .join(', ')
+
+  return [
+    `- Commits analyzed: ${stats.total} (${stats.merges} merges)`,
+    `- Conventional commits: ${commitShare(stats, stats.conventional)}%${types ? ` (${types})` : ''}`,
+    `- Referencing issues: ${commitShare(stats, stats.issueReferences)}%`,
+    `- Reverts: ${stats.reverts}, WIP commits: ${stats.wip}`,
+    `- Average message quality: ${stats.averageQuality}/100 (average subject ${stats.averageSubjectLength} chars)`,
+  ].join('\n')
+}
+
+/**
+ * Overall and per-repo (busiest first) stats for repos that have them, or null if none do
+ */
+export function buildCommitMessageBreakdown(
+  repositories: Array<{ name: string; stats?: { commitMessageStats?: CommitMessageStats } }>
+): { overall: CommitMessageStats; perRepo: Array<{ name: string; stats: CommitMessageStats }> } | null {
+  const perRepo = repositories
+    .filter(repo => (repo.stats?.commitMessageStats?.total || 0) > 0)
+    .map(repo => ({ name: repo.name, stats: repo.stats!.commitMessageStats! }))
+    .sort((a, b) => b.stats.total - a.stats.total)
+  if (perRepo.length === 0) return null
+
+  return { overall: mergeCommitMessageStats(perRepo.map(r => r.stats)), perRepo }
+}
+
+/**
+ * Most common conventional type, e.g. "feat" (null if no conventional commits)
+ */
+export function getTopCommitType(stats: CommitMessageStats): string | null {
+  return Object.entries(stats.byType).sort((a, b) => b[1] - a[1])[0]?.[0] || null
+}
@@ -0,0 +1,111 @@
+/**
+ * Date range helpers - scope stats to a wrapped year or an explicit range
+ */
+
+export interface DateRange {
+  since: string  // ISO date string (inclusive)
+  until: string  // ISO date string (inclusive, to the millisecond)
+}
+
+export interface DateRangeOptions {
+  year?: number | string
+  since?: string
+  until?: string
+}
+
+// GitHub launched in 2008 - nothing to wrap before that
+const FIRST_WRAPPED_YEAR = 2008
+
+/**
+ * Get the full calendar-year range (UTC) for a wrapped year
+ */
+export function getYearRange(year: number): DateRange {
+  return {
+    since: `${year}-01-01T00:00:00Z`,
+    until: `${year}-12-31T23:59:59.999Z`,
+  }
+}
+
+/**
+ * Resolve a date range from a year or explicit since/until values.
+ * Explicit dates win over the year. Returns null when nothing was specified (all-time).
+ */
+export function resolveDateRange(options: DateRangeOptions): DateRange | null {
+  const { year, since, until } = options
+
+  if (since || until) {
+    return {
+      since: since ? toISOStringSafe(since) : new Date(0).toISOString(),
+      until: until ? toISOStringSafe(isDateOnly(until) ? `${until.trim()}T23:59:59.999Z` : until) : new Date().toISOString(),
+    }
+  }
+
+  if (year !== undefined && year !== null && year !== '') {
+    return getYearRange(Number(year))
+  }
+
+  return null
+}
+
+// A bare YYYY-MM-DD `until` means through the end of that day, not its first instant
+function isDateOnly(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value.trim())
+}
+
+// Normalize to ISO, leaving unparseable input as-is so isValidDateRange can reject it
+function toISOStringSafe(value: string): string {
+  const time = Date.parse(value)
+  return isNaN(time) ? value : new Date(time).toISOString()
+}
+
+/**
+ * Check that a range is well-formed (valid dates, since before until)
+ */
+export function isValidDateRange(range: DateRange): boolean {
+  const since = Date.parse(range.since)
+  const until = Date.parse(range.until)
+  return !isNaN(since) && !isNaN(until) && since <= until
+}
+
+/**
+ * Check whether a date falls inside a range (null range = always true)
+ */
+export function isWithinRange(date: string | number | Date, range: DateRange | null): boolean {
+  if (!range) return true
+  const time = new Date(date).getTime()
+  return time >= Date.parse(range.since) && time <= Date.parse(range.until)
+}
+
+/**
+ * Share (0-1) of the window [start, end) in milliseconds that falls inside a range
+ * (null range = 1)
+ */
+export function getRangeOverlapShare(start: number, end: number, range: DateRange | null): number {
+  if (!range) return 1
+  if (end <= start) return isWithinRange(start, range) ? 1 : 0
+  // until is inclusive to the millisecond
+  const overlap = Math.min(end, Date.parse(range.until) + 1) - Math.max(start, Date.parse(range.since))
+  return Math.max(0, Math.min(1, overlap / (end - start)))
+}
+
+/**
+ * Years the user can pick for their wrapped (newest first)
+ */
+export function getSelectableYears(): number[] {
+  const currentYear = new Date().getFullYear()
+  const years: number[] = []
+  for (let year = currentYear; year >= FIRST_WRAPPED_YEAR; year--) {
+    years.push(year)
+  }
+  return years
+}
+
+/**
+ * Parse a wrapped year from a query/body value, falling back to the current year
+ * when it's missing or outside the selectable range
+ */
+export function parseWrappedYear(value: unknown): number {
+  const year = Number(value)
+  const currentYear = new Date().getFullYear()
+  return Number.isInteger(year) && year >= FIRST_WRAPPED_YEAR && year <= currentYear ? year : currentYear
+}
@@ -602,6 +602,10 @@ export function getExportStyles(): string {
       background-clip: text;
     }
     
+    .dev-style-value.small {
+      font-size: 1.3rem;
+    }
+    
     .dev-style-label {
       font-size: 0.9rem;
       margin-bottom: 4px;
@@ -1112,6 +1116,106 @@ export function getExportStyles(): string {
       color: var(--prism-4);
     }
     
+    /* Coding Rhythm Punch Card */
+    .punch-card {
+      display: flex;
+      flex-direction: column;
+      gap: 3px;
+      margin-top: 24px;
+      overflow-x: auto;
+    }
+    
+    .punch-card-row {
+      display: grid;
+      grid-template-columns: 40px repeat(24, 1fr);
+      gap: 3px;
+      align-items: center;
+    }
+    
+    .punch-card-day,
+    .punch-card-hour {
+      font-family: var(--font-mono);
+      font-size: 0.7rem;
+      color: var(--text-dim);
+    }
+    
+    .punch-card-hour {
+      white-space: nowrap;
+    }
+    
+    /* Commit Messages */
+    .message-table {
+      margin-top: 24px;
+      font-size: 0.85rem;
+    }
+    
+    .message-row {
+      display: grid;
+      grid-template-columns: 2fr repeat(4, 1fr);
+      gap: 12px;
+      padding: 8px 0;
+      border-bottom: 1px solid rgba(255, 255, 255, 0.05);
+      font-family: var(--font-mono);
+    }
+    
+    .message-header {
+      font-size: 0.7rem;
+      text-transform: uppercase;
+      letter-spacing: 0.05em;
+      color: var(--text-dim);
+    }
+    
+    .message-repo {
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+    
+    /* Pull Requests & Reviews */
+    .top-reviewed {
+      margin-top: 20px;
+    }
+    
+    .top-reviewed-row {
+      display: flex;
+      justify-content: space-between;
+      padding: 8px 0;
+      border-bottom: 1px solid rgba(255, 255, 255, 0.05);
+      font-size: 0.9rem;
+    }
+    
+    .top-reviewed-count {
+      font-family: var(--font-mono);
+      color: var(--prism-4);
+    }
+    
+    /* Year-over-year Comparison */
+    .compare-row {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      padding: 10px 0;
+      border-bottom: 1px solid rgba(255, 255, 255, 0.05);
+    }
+    
+    .compare-row:last-child {
+      border-bottom: none;
+    }
+    
+    .compare-tag {
+      margin-left: 8px;
+      padding: 2px 8px;
+      background: rgba(0, 184, 255, 0.15);
+      border-radius: 10px;
+      font-size: 0.7rem;
+      color: var(--prism-4);
+    }
+    
+    .compare-shares {
+      font-family: var(--font-mono);
+      color: var(--text-dim);
+    }
+    
     /* Year Narrative Section */
     .year-narrative {
       background: linear-gradient(135deg, rgba(255, 200, 100, 0.05), rgba(255, 150, 50, 0.03)) !important;
@@ -3,6 +3,17 @@
  */
 
 import type { ExportData, RepoDetail } from './types'
+import type { CollaborationStats } from '@/types'
+import {
+  buildDailyActivity,
+  computeActivityMetrics,
+  formatActivityDate,
+  formatDurationHours,
+  type ActivityMetrics,
+} from '@/utils/activityMetrics'
+import { describeComparison, formatMetricChange } from '@/utils/yearComparison'
+import { computeRhythmMetrics, getPunchCardLevel, formatHour, WEEKDAY_NAMES, type RhythmMetrics } from '@/utils/rhythmMetrics'
+import { buildCommitMessageBreakdown, commitShare, getTopCommitType } from '@/utils/commitMessages'
 
 /**
  * Get language-specific CSS class for language bars
@@ -20,7 +31,7 @@ function getLanguageClass(lang: string): string {
  */
 export function generateRepoCardsHTML(
   data: ExportData,
-  isAiAssisted: (repoName: string) => boolean
+  isAiAssisted: (repoKey: string) => boolean
 ): string {
   const { repositories, repoPreferences, repositoryGroups } = data
   
@@ -67,11 +78,11 @@ export function generateRepoCardsHTML(
 function generateRepoCard(
   repo: ExportData['repositories'][0],
   idx: number,
-  isAiAssisted: (name: string) => boolean,
+  isAiAssisted: (repoKey: string) => boolean,
   repoPreferences: ExportData['repoPreferences']
 ): string {
-  const isAi = isAiAssisted(repo.name)
-  const pref = repoPreferences[repo.name]
+  const isAi = isAiAssisted(repo.full_name)
+  const pref = repoPreferences[repo.full_name]
   
   // Format scan date
   const scanDateStr = pref?.lastScanned 
@@ -374,6 +385,250 @@ function generateContributionHeatmapHTML(contributionData: ExportData['contribut
   `
 }
 
+/**
+ * Generate activity streaks HTML (same metrics as the wrapped page)
+ */
+function generateActivityHTML(activity: ActivityMetrics, timeZone: string): string {
+  if (activity.activeDays === 0) return ''
+  
+  return `
+    <div class="glass-card">
+      <h2 class="section-title">🔥 Activity Streaks</h2>
+      <div class="dev-style-grid">
+        <div class="dev-style-card">
+          <div class="dev-style-icon">🔥</div>
+          <div class="dev-style-value">${activity.longestStreak}</div>
+          <div class="dev-style-label">Longest Streak</div>
+          <div class="dev-style-sub">
+            ${activity.longestStreakStart && activity.longestStreakEnd
+              ? `${formatActivityDate(activity.longestStreakStart)} – ${formatActivityDate(activity.longestStreakEnd)}`
+              : 'consecutive days'}
+          </div>
+        </div>
+        <div class="dev-style-card">
+          <div class="dev-style-icon">📅</div>
+          <div class="dev-style-value">${activity.activeDays}</div>
+          <div class="dev-style-label">Active Days</div>
+          <div class="dev-style-sub">
+            ${activity.currentStreak > 0 ? `${activity.currentStreak}-day streak going` : 'days with commits'}
+          </div>
+        </div>
+        ${activity.busiestDay ? `
+          <div class="dev-style-card">
+            <div class="dev-style-icon">⚡</div>
+            <div class="dev-style-value">${activity.busiestDay.count}</div>
+            <div class="dev-style-label">Busiest Day</div>
+            <div class="dev-style-sub">${formatActivityDate(activity.busiestDay.date)}</div>
+          </div>
+        ` : ''}
+        ${activity.longestGap ? `
+          <div class="dev-style-card">
+            <div class="dev-style-icon">🏝️</div>
+            <div class="dev-style-value">${activity.longestGap.days}</div>
+            <div class="dev-style-label">Longest Break</div>
+            <div class="dev-style-sub">${formatActivityDate(activity.longestGap.from)} – ${formatActivityDate(activity.longestGap.to)}</div>
+          </div>
+        ` : ''}
+      </div>
+      ${activity.busiestWeek && activity.busiestMonth ? `
+        <p class="ai-stats-note">
+          Busiest week: week of ${formatActivityDate(activity.busiestWeek.weekStart)} (${activity.busiestWeek.count} commits)
+          · Busiest month: ${formatActivityDate(activity.busiestMonth.month)} (${activity.busiestMonth.count} commits)
+          · Dates in ${timeZone}
+        </p>
+      ` : ''}
+    </div>
+  `
+}
+
+/**
+ * Generate the coding rhythm section (chronotype cards + punch card)
+ */
+function generateRhythmHTML(rhythm: RhythmMetrics): string {
+  if (rhythm.totalCommits === 0) return ''
+  const maxSlot = rhythm.peakSlot?.count || 0
+  
+  return `
+    <div class="glass-card">
+      <h2 class="section-title">🕐 Coding Rhythm</h2>
+      <div class="dev-style-grid">
+        <div class="dev-style-card">
+          <div class="dev-style-icon">${rhythm.chronotypeIcon}</div>
+          <div class="dev-style-value small">${rhythm.chronotypeLabel}</div>
+          <div class="dev-style-label">Chronotype</div>
+          <div class="dev-style-sub">${rhythm.nightShare}% late night · ${rhythm.morningShare}% early</div>
+        </div>
+        ${rhythm.peakHour !== null ? `
+          <div class="dev-style-card">
+            <div class="dev-style-icon">⏰</div>
+            <div class="dev-style-value">${formatHour(rhythm.peakHour)}</div>
+            <div class="dev-style-label">Peak Hour</div>
+            <div class="dev-style-sub">${rhythm.workHoursShare}% in work hours</div>
+          </div>
+        ` : ''}
+        ${rhythm.peakWeekday !== null ? `
+          <div class="dev-style-card">
+            <div class="dev-style-icon">📆</div>
+            <div class="dev-style-value small">${WEEKDAY_NAMES[rhythm.peakWeekday]}</div>
+            <div class="dev-style-label">Peak Day</div>
+            <div class="dev-style-sub">most commits</div>
+          </div>
+        ` : ''}
+        <div class="dev-style-card">
+          <div class="dev-style-icon">🏖️</div>
+          <div class="dev-style-value">${rhythm.weekendShare}%</div>
+          <div class="dev-style-label">Weekend Share</div>
+          <div class="dev-style-sub">commits on Sat/Sun</div>
+        </div>
+      </div>
+      <div class="punch-card">
+        ${rhythm.punchCard.map((hours, weekday) => `
+          <div class="punch-card-row">
+            <span class="punch-card-day">${WEEKDAY_NAMES[weekday].slice(0, 3)}</span>
+            ${hours.map((count, hour) => {
+              const level = getPunchCardLevel(count, maxSlot)
+              return `<div class="heat-cell${level ? ` level${level}` : ''}" title="${WEEKDAY_NAMES[weekday]} ${formatHour(hour)}: ${count} commits"></div>`
+            }).join('')}
+          </div>
+        `).join('')}
+        <div class="punch-card-row">
+          <span class="punch-card-day"></span>
+          ${Array.from({ length: 24 }, (_, hour) => `<span class="punch-card-hour">${hour % 6 === 0 ? formatHour(hour) : ''}</span>`).join('')}
+        </div>
+      </div>
+      <p class="ai-stats-note">Hours in ${rhythm.timeZone}</p>
+    </div>
+  `
+}
+
+/**
+ * Generate the commit message section (overall cards, type bars, per-repo table)
+ */
+function generateCommitMessagesHTML(repositories: ExportData['repositories']): string {
+  const breakdown = buildCommitMessageBreakdown(repositories)
+  if (!breakdown) return ''
+  const { overall, perRepo } = breakdown
+  const types = Object.entries(overall.byType).sort(([, a], [, b]) => b - a)
+  
+  return `
+    <div class="glass-card">
+      <h2 class="section-title">📝 Commit Messages</h2>
+      <div class="dev-style-grid">
+        <div class="dev-style-card">
+          <div class="dev-style-icon">📐</div>
+          <div class="dev-style-value">${commitShare(overall, overall.conventional)}%</div>
+          <div class="dev-style-label">Conventional</div>
+          <div class="dev-style-sub">${overall.conventional} of ${overall.total - overall.merges} commits</div>
+        </div>
+        <div class="dev-style-card">
+          <div class="dev-style-icon">✍️</div>
+          <div class="dev-style-value">${overall.averageQuality}</div>
+          <div class="dev-style-label">Message Quality</div>
+          <div class="dev-style-sub">out of 100 · ${overall.averageSubjectLength}-char subjects</div>
+        </div>
+        <div class="dev-style-card">
+          <div class="dev-style-icon">🔗</div>
+          <div class="dev-style-value">${commitShare(overall, overall.issueReferences)}%</div>
+          <div class="dev-style-label">Reference Issues</div>
+          <div class="dev-style-sub">${overall.issueReferences} commits</div>
+        </div>
+        <div class="dev-style-card">
+          <div class="dev-style-icon">↩️</div>
+          <div class="dev-style-value">${overall.reverts + overall.wip}</div>
+          <div class="dev-style-label">Reverts & WIP</div>
+          <div class="dev-style-sub">${overall.reverts} reverts · ${overall.wip} WIP</div>
+        </div>
+      </div>
+      ${types.length > 0 ? `
+        <div class="language-list" style="margin-top: 24px;">
+          ${types.map(([type, count]) => `
+            <div class="language-item">
+              <span class="language-name">${type}</span>
+              <div class="language-bar-container">
+                <div class="language-bar default" style="width: ${(count / overall.conventional) * 100}%"></div>
+              </div>
+              <span class="language-percent">${count}</span>
+            </div>
+          `).join('')}
+        </div>
+      ` : ''}
+      ${perRepo.length > 1 ? `
+        <div class="message-table">
+          <div class="message-row message-header">
+            <span>Repository</span>
+            <span>Commits</span>
+            <span>Conventional</span>
+            <span>Top Type</span>
+            <span>Quality</span>
+          </div>
+          ${perRepo.slice(0, 8).map(({ name, stats }) => `
+            <div class="message-row">
+              <span class="message-repo">${name}</span>
+              <span>${stats.total}</span>
+              <span>${commitShare(stats, stats.conventional)}%</span>
+              <span>${getTopCommitType(stats) || '—'}</span>
+              <span>${stats.averageQuality}</span>
+            </div>
+          `).join('')}
+        </div>
+      ` : ''}
+    </div>
+  `
+}
+
+/**
+ * Generate the pull request & review section (empty without PR/review/issue activity)
+ */
+function generateCollaborationHTML(collaboration: CollaborationStats | undefined): string {
+  if (!collaboration) return ''
+  const { pullRequests, reviews, issues } = collaboration
+  if (pullRequests.opened + reviews.given + issues.opened === 0) return ''
+  const topReviewed = reviews.byRepository.slice(0, 5)
+  
+  return `
+    <div class="glass-card">
+      <h2 class="section-title">🤝 Pull Requests & Reviews</h2>
+      <div class="dev-style-grid">
+        <div class="dev-style-card">
+          <div class="dev-style-icon">🔀</div>
+          <div class="dev-style-value">${pullRequests.opened}</div>
+          <div class="dev-style-label">PRs Opened</div>
+          <div class="dev-style-sub">${pullRequests.merged} merged</div>
+        </div>
+        <div class="dev-style-card">
+          <div class="dev-style-icon">👀</div>
+          <div class="dev-style-value">${reviews.given}</div>
+          <div class="dev-style-label">Reviews Given</div>
+          <div class="dev-style-sub">across ${reviews.byRepository.length} repos</div>
+        </div>
+        <div class="dev-style-card">
+          <div class="dev-style-icon">⏱️</div>
+          <div class="dev-style-value">${pullRequests.medianTimeToMergeHours !== null ? formatDurationHours(pullRequests.medianTimeToMergeHours) : '—'}</div>
+          <div class="dev-style-label">Median Time to Merge</div>
+          <div class="dev-style-sub">opened → merged</div>
+        </div>
+        <div class="dev-style-card">
+          <div class="dev-style-icon">🐛</div>
+          <div class="dev-style-value">${issues.opened}</div>
+          <div class="dev-style-label">Issues Opened</div>
+          <div class="dev-style-sub">across ${issues.byRepository.length} repos</div>
+        </div>
+      </div>
+      ${topReviewed.length > 0 ? `
+        <div class="top-reviewed">
+          <div class="label">Top Reviewed Repos</div>
+          ${topReviewed.map(r => `
+            <div class="top-reviewed-row">
+              <span>${r.repository}</span>
+              <span class="top-reviewed-count">${r.count} reviews</span>
+            </div>
+          `).join('')}
+        </div>
+      ` : ''}
+    </div>
+  `
+}
+
 /**
  * Generate Impact tab HTML
  */
@@ -381,7 +636,22 @@ export function generateImpactTab(
   data: ExportData,
   achievementsHTML: string
 ): string {
-  const { impactMetrics, aiInsights, stats } = data
+  const { impactMetrics, aiInsights, stats, repositories, contributionData } = data
+  
+  // Derive streaks from the same commit dates the wrapped page used
+  const timeZone = data.timeZone || 'UTC'
+  const activity = computeActivityMetrics(buildDailyActivity({
+    commitDates: repositories.flatMap(r => r.stats?.commitDates || []),
+    contributionWeeks: contributionData?.weeks,
+    timeZone,
+  }))
+  const activityHTML = generateActivityHTML(activity, timeZone)
+  const rhythmHTML = generateRhythmHTML(computeRhythmMetrics(
+    repositories.flatMap(r => r.stats?.commitDates || []),
+    timeZone
+  ))
+  const commitMessagesHTML = generateCommitMessagesHTML(repositories)
+  const collaborationHTML = generateCollaborationHTML(contributionData?.collaboration)
   
   return `
     <h2 class="section-title">Developer Time Impact</h2>
@@ -397,7 +667,7 @@ export function generateImpactTab(
         <div class="vs-badge">VS</div>
         <div class="time-block">
           <div class="time-label">Your Actual Output</div>
-          <div class="time-value highlight">~${impactMetrics.yourActiveDays}</div>
+          <div class="time-value highlight">${impactMetrics.yourActiveDays}</div>
           <div class="subtitle">active development days</div>
         </div>
       </div>
@@ -428,6 +698,14 @@ export function generateImpactTab(
       </div>
     </div>
     
+    ${activityHTML}
+    
+    ${rhythmHTML}
+    
+    ${commitMessagesHTML}
+    
+    ${collaborationHTML}
+    
     <!-- Development Profile -->
     <div class="glass-card">
       <h2 class="section-title">🎯 Your Development Profile</h2>
@@ -531,6 +809,69 @@ export function generateImpactTab(
   `
 }
 
+/**
+ * Generate the year-over-year comparison tab (empty without a previous year)
+ */
+export function generateComparisonTab(data: ExportData): string {
+  const comparison = data.yearComparison
+  if (!comparison) return ''
+  
+  const projectGroups = [
+    { title: `🌱 New in ${comparison.year}`, projects: comparison.newProjects },
+    { title: '🔁 Carried over', projects: comparison.continuingProjects },
+    { title: `🌙 Retired since ${comparison.previousYear}`, projects: comparison.retiredProjects },
+  ]
+  
+  return `
+    <h2 class="section-title">${comparison.year} vs ${comparison.previousYear}</h2>
+    
+    <div class="glass-card">
+      <p class="narrative-intro">${data.yearOverYear || describeComparison(comparison)}</p>
+    </div>
+    
+    <div class="stats-grid">
+      ${comparison.metrics.map(m => `
+        <div class="glass-card">
+          <div class="label">${m.label}</div>
+          <div class="mono-value ${m.delta > 0 ? 'green' : m.delta < 0 ? 'red' : ''}">${formatMetricChange(m)}</div>
+          <div class="subtitle">${m.previous.toLocaleString()} → ${m.current.toLocaleString()}</div>
+        </div>
+      `).join('')}
+    </div>
+    
+    ${comparison.languages.length > 0 ? `
+      <div class="glass-card">
+        <h2 class="section-title">Languages (share of commits)</h2>
+        <div class="compare-list">
+          ${comparison.languages.map(l => `
+            <div class="compare-row">
+              <span>
+                ${l.language}
+                ${comparison.newLanguages.includes(l.language) ? '<span class="compare-tag">new</span>' : ''}
+                ${comparison.droppedLanguages.includes(l.language) ? '<span class="compare-tag">dropped</span>' : ''}
+              </span>
+              <span class="compare-shares">${l.previousShare}% → ${l.currentShare}%</span>
+            </div>
+          `).join('')}
+        </div>
+      </div>
+    ` : ''}
+    
+    <div class="impact-cards-grid">
+      ${projectGroups.map(group => `
+        <div class="impact-card-large cyan">
+          <div class="impact-card-header">${group.title} (${group.projects.length})</div>
+          ${group.projects.length > 0 ? `
+            <ul class="impact-list">
+              ${group.projects.map(name => `<li><span class="arrow cyan">→</span>${name}</li>`).join('')}
+            </ul>
+          ` : '<p class="subtitle">None</p>'}
+        </div>
+      `).join('')}
+    </div>
+  `
+}
+
 /**
  * Generate modal script
  */
@@ -2,7 +2,7 @@
  * Export Types
  */
 
-import type { AnalyzedRepository, RepoPreference, CustomGroup } from '@/types'
+import type { AnalyzedRepository, RepoPreference, CustomGroup, YearComparison, CollaborationStats } from '@/types'
 
 export interface ExportData {
   repositories: AnalyzedRepository[]
@@ -43,6 +43,7 @@ export interface ExportData {
   repoPreferences: Record<string, RepoPreference>
   customGroups: Record<string, CustomGroup>
   developmentMode: 'ai' | 'manual' | 'mixed'
+  year?: number  // Wrapped year (defaults to the current year)
   aiInsights?: {
     headline: string
     description: string
@@ -70,6 +71,7 @@ export interface ExportData {
     context?: string
   } | null
   exportedAt?: string  // ISO date string when the export was generated
+  timeZone?: string    // IANA timezone used to bucket commit dates into days
   contributionData?: {
     year: number
     totalContributions: number
@@ -80,7 +82,10 @@ export interface ExportData {
         date: string
       }>
     }>
+    collaboration?: CollaborationStats  // Missing from data cached before PR/review stats existed
   } | null
+  yearComparison?: YearComparison | null  // vs the most recent earlier snapshot
+  yearOverYear?: string | null            // "What changed" narrative for the comparison
 }
 
 export interface RepoDetail {
@@ -13,6 +13,7 @@ import {
   generateLanguageBarsHTML,
   generateOverviewTab,
   generateImpactTab,
+  generateComparisonTab,
   generateModalScript
 } from './export/templates'
 import type { ExportData, RepoDetail } from './export/types'
@@ -24,7 +25,7 @@ export type { ExportData } from './export/types'
  * Generate a complete interactive HTML export
  */
 export function generateInteractiveHTML(data: ExportData): string {
-  const year = new Date().getFullYear()
+  const year = data.year ?? new Date().getFullYear()
   const {
     repositories,
     stats,
@@ -52,8 +53,8 @@ export function generateInteractiveHTML(data: ExportData): string {
       })
 
   // Helper to check if repo is AI-assisted
-  const isAiAssisted = (repoName: string): boolean => {
-    const pref = repoPreferences[repoName]
+  const isAiAssisted = (repoKey: string): boolean => {
+    const pref = repoPreferences[repoKey]
     if (pref?.aiAssisted !== undefined) return pref.aiAssisted
     return developmentMode === 'ai'
   }
@@ -67,6 +68,7 @@ export function generateInteractiveHTML(data: ExportData): string {
   // Generate tab content
   const overviewTab = generateOverviewTab(data, languageBarsHTML, featuredHTML)
   const impactTab = generateImpactTab(data, achievementsHTML)
+  const comparisonTab = generateComparisonTab(data)
   
   // Generate repo details for modal
   const repoDetails: RepoDetail[] = repositories.map((repo, idx) => {
@@ -81,7 +83,7 @@ export function generateInteractiveHTML(data: ExportData): string {
       description: repo.description,
       language: repo.language,
       languages,
-      isAi: isAiAssisted(repo.name),
+      isAi: isAiAssisted(repo.full_name),
       stats: repo.stats ? {
         commits: repo.stats.commits,
         additions: repo.stats.additions,
@@ -93,13 +95,13 @@ export function generateInteractiveHTML(data: ExportData): string {
         ai_integration: repo.aiSummary.ai_integration,
         development_highlights: repo.aiSummary.development_highlights,
       } : undefined,
-      narrative: repoPreferences[repo.name]?.narrative,
-      deploymentUrls: repoPreferences[repo.name]?.deploymentUrls?.map(u => ({
+      narrative: repoPreferences[repo.full_name]?.narrative,
+      deploymentUrls: repoPreferences[repo.full_name]?.deploymentUrls?.map(u => ({
         url: u.url,
         label: u.label,
         autoDetected: u.autoDetected,
       })),
-      lastScanned: repoPreferences[repo.name]?.lastScanned,
+      lastScanned: repoPreferences[repo.full_name]?.lastScanned,
     }
   })
   
@@ -132,6 +134,7 @@ export function generateInteractiveHTML(data: ExportData): string {
       <button class="nav-tab active" data-tab="overview">Overview</button>
       <button class="nav-tab" data-tab="impact">Impact</button>
       <button class="nav-tab" data-tab="repositories">Repositories</button>
+      ${comparisonTab ? `<button class="nav-tab" data-tab="compare">vs ${data.yearComparison?.previousYear}</button>` : ''}
     </div>
     <div class="mode-indicator">
       ${developmentMode === 'ai' ? '🤖 AI-Assisted' : developmentMode === 'manual' ? '👤 Manual' : '🔀 Mixed'}
@@ -156,6 +159,13 @@ export function generateInteractiveHTML(data: ExportData): string {
       </div>
       ${repoCardsHTML}
     </div>
+    
+    ${comparisonTab ? `
+    <!-- Year-over-year Tab -->
+    <div id="tab-compare" class="tab-content">
+      ${comparisonTab}
+    </div>
+    ` : ''}
   </main>
   
   <footer class="footer">
@@ -184,10 +194,9 @@ export function generateInteractiveHTML(data: ExportData): string {
 }
 
 /**
- * Trigger download of HTML file
+ * Trigger download of HTML file (named after the wrapped year)
  */
-export function downloadHTML(html: string, filename?: string): void {
-  const year = new Date().getFullYear()
+export function downloadHTML(html: string, year: number = new Date().getFullYear(), filename?: string): void {
   const blob = new Blob([html], { type: 'text/html' })
   const url = URL.createObjectURL(blob)
   const a = document.createElement('a')
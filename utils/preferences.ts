@@ -1,4 +1,6 @@
-import type { RepoPreferences, RepoPreference, DevelopmentMode, DeploymentUrl, CustomGroup } from '@/types'
+import type { RepoPreferences, RepoPreference, DevelopmentMode, DeploymentUrl, CustomGroup, AuthorScope, PreferencesImportPreview, RepoPreferenceChange, RepoKeyCollision } from '@/types'
+import { schedulePush, syncDocument } from '@/utils/serverSync'
+import { migratePreferences, toPreferencesEnvelope, getPreferencesVersion, getRepoPreferenceKey } from '@/utils/preferencesSchema'
 
 const PREFERENCES_KEY = 'githubWrapped_preferences'
 
@@ -30,50 +32,95 @@ export function loadPreferences(): RepoPreferences {
       return DEFAULT_PREFERENCES
     }
     
-    const parsed = JSON.parse(stored)
-    // Ensure all required fields exist (migration safety)
-    return {
-      defaultMode: parsed.defaultMode || 'mixed',
-      repos: parsed.repos || {},
-      customGroups: parsed.customGroups || {},
-    }
+    // Upgrades older (including unversioned) shapes to the current schema
+    return migratePreferences(JSON.parse(stored))
   } catch (error) {
     console.error('Error loading preferences:', error)
     return DEFAULT_PREFERENCES
   }
 }
 
+// Write preferences as-is (no timestamp bump) - used for local saves and server copies
+function writePreferences(prefs: RepoPreferences): void {
+  try {
+    localStorage.setItem(PREFERENCES_KEY, JSON.stringify(toPreferencesEnvelope(prefs)))
+  } catch (error) {
+    console.error('Error saving preferences:', error)
+  }
+}
+
+// Preferences saved before syncing existed, combined with the server copy: the server's
+// settings win, repos and groups only saved here are kept
+function mergePreferences(local: RepoPreferences, remote: RepoPreferences): RepoPreferences {
+  return {
+    ...local,
+    ...remote,
+    repos: { ...local.repos, ...remote.repos },
+    customGroups: { ...local.customGroups, ...remote.customGroups },
+  }
+}
+
+// How the sync layer reads/writes the local copy (the server stores the versioned envelope)
+const preferencesStore = {
+  read: () => {
+    if (localStorage.getItem(PREFERENCES_KEY) === null) return null
+    const prefs = loadPreferences()
+    return { data: toPreferencesEnvelope(prefs) as unknown, updatedAt: prefs.updatedAt || null }
+  },
+  write: ({ data, updatedAt }: { data: unknown; updatedAt: string }) => {
+    try {
+      writePreferences({ ...migratePreferences(data), updatedAt })
+    } catch (error) {
+      console.error('Error applying synced preferences:', error)
+    }
+  },
+  merge: (local: unknown, remote: unknown): unknown => {
+    try {
+      return toPreferencesEnvelope(mergePreferences(migratePreferences(local), migratePreferences(remote)))
+    } catch (error) {
+      // The server copy can't be read by this build - keep what's here
+      console.error('Error merging synced preferences:', error)
+      return local
+    }
+  },
+}
+
 /**
- * Save all preferences to localStorage
+ * Save all preferences to localStorage (and sync them to the server in the background)
  */
 export function savePreferences(prefs: RepoPreferences): void {
   if (typeof window === 'undefined') {
     return
   }
   
-  try {
-    localStorage.setItem(PREFERENCES_KEY, JSON.stringify(prefs))
-  } catch (error) {
-    console.error('Error saving preferences:', error)
-  }
+  writePreferences({ ...prefs, updatedAt: new Date().toISOString() })
+  schedulePush('preferences', preferencesStore)
+}
+
+/**
+ * Reconcile local preferences with the server copy (newer wins).
+ * Returns true if the local copy was replaced.
+ */
+export function syncPreferences(): Promise<boolean> {
+  return syncDocument('preferences', preferencesStore)
 }
 
 /**
- * Get preference for a specific repo
+ * Get preference for a specific repo (keyed by full_name - see getRepoPreferenceKey)
  */
-export function getRepoPreference(repoName: string): RepoPreference {
+export function getRepoPreference(repoKey: string): RepoPreference {
   const prefs = loadPreferences()
-  return prefs.repos[repoName] || { ...DEFAULT_REPO_PREFERENCE }
+  return prefs.repos[repoKey] || { ...DEFAULT_REPO_PREFERENCE }
 }
 
 /**
- * Set preference for a specific repo (partial update)
+ * Set preference for a specific repo (partial update, keyed by full_name)
  */
-export function setRepoPreference(repoName: string, update: Partial<RepoPreference>): void {
+export function setRepoPreference(repoKey: string, update: Partial<RepoPreference>): void {
   const prefs = loadPreferences()
-  const existing = prefs.repos[repoName] || { ...DEFAULT_REPO_PREFERENCE }
+  const existing = prefs.repos[repoKey] || { ...DEFAULT_REPO_PREFERENCE }
   
-  prefs.repos[repoName] = {
+  prefs.repos[repoKey] = {
     ...existing,
     ...update,
   }
@@ -98,19 +145,55 @@ export function getDefaultMode(): DevelopmentMode {
   return prefs.defaultMode
 }
 
+/**
+ * Set the calendar year the wrapped covers
+ */
+export function setWrappedYear(year: number): void {
+  const prefs = loadPreferences()
+  prefs.wrappedYear = year
+  savePreferences(prefs)
+}
+
+/**
+ * Get the calendar year the wrapped covers (defaults to the current year)
+ */
+export function getWrappedYear(): number {
+  const prefs = loadPreferences()
+  return prefs.wrappedYear ?? new Date().getFullYear()
+}
+
+/**
+ * Set whose commits count toward stats
+ */
+export function setAuthorScope(scope: AuthorScope): void {
+  const prefs = loadPreferences()
+  prefs.authorScope = scope
+  savePreferences(prefs)
+}
+
+/**
+ * Get whose commits count toward stats (defaults to the signed-in user)
+ */
+export function getAuthorScope(): AuthorScope {
+  const prefs = loadPreferences()
+  // An empty custom list (saved by older versions) names nobody - fall back to the default
+  if (Array.isArray(prefs.authorScope) && prefs.authorScope.length === 0) return 'me'
+  return prefs.authorScope ?? 'me'
+}
+
 /**
  * Toggle AI-assisted status for a repo (creates explicit override)
  * Takes into account the global default when determining current effective value
  */
-export function toggleAiAssisted(repoName: string): boolean {
+export function toggleAiAssisted(repoKey: string): boolean {
   const prefs = loadPreferences()
-  const existing = prefs.repos[repoName] || { ...DEFAULT_REPO_PREFERENCE }
+  const existing = prefs.repos[repoKey] || { ...DEFAULT_REPO_PREFERENCE }
   
   // Determine current effective value (explicit or inherited from global)
   const currentValue = existing.aiAssisted ?? (prefs.defaultMode === 'ai')
   const newValue = !currentValue
   
-  prefs.repos[repoName] = {
+  prefs.repos[repoKey] = {
     ...existing,
     aiAssisted: newValue,
   }
@@ -122,11 +205,11 @@ export function toggleAiAssisted(repoName: string): boolean {
 /**
  * Mark a repo as scanned (updates lastScanned timestamp and increments scanCount)
  */
-export function markRepoScanned(repoName: string): void {
+export function markRepoScanned(repoKey: string): void {
   const prefs = loadPreferences()
-  const existing = prefs.repos[repoName] || { ...DEFAULT_REPO_PREFERENCE }
+  const existing = prefs.repos[repoKey] || { ...DEFAULT_REPO_PREFERENCE }
   
-  prefs.repos[repoName] = {
+  prefs.repos[repoKey] = {
     ...existing,
     lastScanned: new Date().toISOString(),
     scanCount: (existing.scanCount || 0) + 1,
@@ -138,13 +221,13 @@ export function markRepoScanned(repoName: string): void {
 /**
  * Mark multiple repos as scanned
  */
-export function markReposScanned(repoNames: string[]): void {
+export function markReposScanned(repoKeys: string[]): void {
   const prefs = loadPreferences()
   const now = new Date().toISOString()
   
-  repoNames.forEach(repoName => {
-    const existing = prefs.repos[repoName] || { ...DEFAULT_REPO_PREFERENCE }
-    prefs.repos[repoName] = {
+  repoKeys.forEach(repoKey => {
+    const existing = prefs.repos[repoKey] || { ...DEFAULT_REPO_PREFERENCE }
+    prefs.repos[repoKey] = {
       ...existing,
       lastScanned: now,
       scanCount: (existing.scanCount || 0) + 1,
@@ -157,15 +240,15 @@ export function markReposScanned(repoNames: string[]): void {
 /**
  * Add a deployment URL to a repo
  */
-export function addDeploymentUrl(repoName: string, url: DeploymentUrl): void {
+export function addDeploymentUrl(repoKey: string, url: DeploymentUrl): void {
   const prefs = loadPreferences()
-  const existing = prefs.repos[repoName] || { ...DEFAULT_REPO_PREFERENCE }
+  const existing = prefs.repos[repoKey] || { ...DEFAULT_REPO_PREFERENCE }
   
   // Avoid duplicates
   const exists = existing.deploymentUrls.some(u => u.url === url.url)
   if (!exists) {
     existing.deploymentUrls.push(url)
-    prefs.repos[repoName] = existing
+    prefs.repos[repoKey] = existing
     savePreferences(prefs)
   }
 }
@@ -173,13 +256,13 @@ export function addDeploymentUrl(repoName: string, url: DeploymentUrl): void {
 /**
  * Remove a deployment URL from a repo
  */
-export function removeDeploymentUrl(repoName: string, url: string): void {
+export function removeDeploymentUrl(repoKey: string, url: string): void {
   const prefs = loadPreferences()
-  const existing = prefs.repos[repoName]
+  const existing = prefs.repos[repoKey]
   
   if (existing) {
     existing.deploymentUrls = existing.deploymentUrls.filter(u => u.url !== url)
-    prefs.repos[repoName] = existing
+    prefs.repos[repoKey] = existing
     savePreferences(prefs)
   }
 }
@@ -187,8 +270,8 @@ export function removeDeploymentUrl(repoName: string, url: string): void {
 /**
  * Set narrative for a repo
  */
-export function setNarrative(repoName: string, narrative: string): void {
-  setRepoPreference(repoName, { narrative })
+export function setNarrative(repoKey: string, narrative: string): void {
+  setRepoPreference(repoKey, { narrative })
 }
 
 /**
@@ -208,9 +291,9 @@ export function deleteCustomGroup(name: string): void {
   delete prefs.customGroups[name]
   
   // Also remove this group from any repos that reference it
-  for (const repoName in prefs.repos) {
-    if (prefs.repos[repoName].customGroup === name) {
-      prefs.repos[repoName] = { ...prefs.repos[repoName], customGroup: undefined }
+  for (const repoKey in prefs.repos) {
+    if (prefs.repos[repoKey].customGroup === name) {
+      prefs.repos[repoKey] = { ...prefs.repos[repoKey], customGroup: undefined }
     }
   }
   
@@ -228,21 +311,56 @@ export function getCustomGroups(): Record<string, CustomGroup> {
 /**
  * Assign a repo to a custom group
  */
-export function assignRepoToGroup(repoName: string, groupName: string | undefined): void {
-  setRepoPreference(repoName, { customGroup: groupName })
+export function assignRepoToGroup(repoKey: string, groupName: string | undefined): void {
+  setRepoPreference(repoKey, { customGroup: groupName })
+}
+
+// Overlay incoming fields on a repo preference (undefined fields are skipped, URLs unioned)
+function overlayRepoPreference(existing: RepoPreference | undefined, incoming: Partial<RepoPreference>): RepoPreference {
+  const base = existing || { ...DEFAULT_REPO_PREFERENCE }
+  const defined: Partial<RepoPreference> = Object.fromEntries(
+    Object.entries(incoming).filter(([, value]) => value !== undefined)
+  )
+  
+  const knownUrls = new Set(base.deploymentUrls.map(u => u.url))
+  return {
+    ...base,
+    ...defined,
+    deploymentUrls: [
+      ...base.deploymentUrls,
+      ...(incoming.deploymentUrls || []).filter(u => !knownUrls.has(u.url)),
+    ],
+  }
 }
 
 /**
  * Merge new repos with existing preferences (used on re-scan)
- * Preserves existing preferences, applies defaults to new repos
+ * Preserves existing preferences, applies defaults to new repos, and moves legacy
+ * bare-name preferences to the full_name of the only repo with that name
  */
 export function mergeWithExistingPreferences(
-  newRepos: Array<{ name: string; homepage?: string | null }>
+  newRepos: Array<{ name: string; full_name: string; homepage?: string | null }>
 ): RepoPreferences {
   const prefs = loadPreferences()
   
+  if (prefs.legacyRepos) {
+    for (const [repoName, legacyPref] of Object.entries(prefs.legacyRepos)) {
+      const matches = newRepos.filter(repo => repo.name === repoName)
+      // Ambiguous (or not discovered yet) - left for getRepoKeyCollisions / a later scan
+      if (matches.length !== 1) continue
+      
+      const key = getRepoPreferenceKey(matches[0])
+      prefs.repos[key] = overlayRepoPreference(prefs.repos[key], legacyPref)
+      delete prefs.legacyRepos[repoName]
+    }
+    if (Object.keys(prefs.legacyRepos).length === 0) {
+      prefs.legacyRepos = undefined
+    }
+  }
+  
   for (const repo of newRepos) {
-    if (!prefs.repos[repo.name]) {
+    const key = getRepoPreferenceKey(repo)
+    if (!prefs.repos[key]) {
       // New repo - apply defaults based on defaultMode
       const aiAssisted = prefs.defaultMode === 'ai' ? true : 
                          prefs.defaultMode === 'manual' ? false : 
@@ -254,14 +372,14 @@ export function mergeWithExistingPreferences(
         autoDetected: true,
       }] : []
       
-      prefs.repos[repo.name] = {
+      prefs.repos[key] = {
         aiAssisted,
         selected: false,
         deploymentUrls,
       }
     } else {
       // Existing repo - update auto-detected URLs only if not already present
-      const existing = prefs.repos[repo.name]
+      const existing = prefs.repos[key]
       if (repo.homepage) {
         const hasAutoUrl = existing.deploymentUrls.some(u => u.autoDetected && u.url === repo.homepage)
         if (!hasAutoUrl) {
@@ -285,6 +403,42 @@ export function mergeWithExistingPreferences(
   return prefs
 }
 
+/**
+ * Legacy bare-name preferences that now match several repos (e.g. acme/api and me/api)
+ */
+export function getRepoKeyCollisions(repos: Array<{ name: string; full_name: string }>): RepoKeyCollision[] {
+  const prefs = loadPreferences()
+  
+  return Object.entries(prefs.legacyRepos || {})
+    .map(([repoName, preference]) => ({
+      repoName,
+      preference,
+      candidates: repos.filter(repo => repo.name === repoName).map(getRepoPreferenceKey),
+    }))
+    .filter(collision => collision.candidates.length > 1)
+}
+
+/**
+ * Apply a legacy bare-name preference to the chosen repos (none = discard it)
+ */
+export function resolveRepoKeyCollision(repoName: string, fullNames: string[]): RepoPreferences {
+  const prefs = loadPreferences()
+  const legacyPref = prefs.legacyRepos?.[repoName]
+  
+  if (prefs.legacyRepos && legacyPref) {
+    fullNames.forEach(key => {
+      prefs.repos[key] = overlayRepoPreference(prefs.repos[key], legacyPref)
+    })
+    delete prefs.legacyRepos[repoName]
+    if (Object.keys(prefs.legacyRepos).length === 0) {
+      prefs.legacyRepos = undefined
+    }
+    savePreferences(prefs)
+  }
+  
+  return prefs
+}
+
 /**
  * Reset all preferences to defaults
  */
@@ -330,6 +484,8 @@ export function hasExistingPreferences(): boolean {
   
   try {
     const parsed = JSON.parse(stored)
+    // Versioned envelopes always have a defaultMode; legacy bare objects may not
+    if (getPreferencesVersion(parsed) > 0) return true
     // Has preferences if defaultMode is set OR has any repo preferences
     return parsed.defaultMode !== undefined || Object.keys(parsed.repos || {}).length > 0
   } catch {
@@ -340,10 +496,10 @@ export function hasExistingPreferences(): boolean {
 /**
  * Bulk update AI-assisted status for multiple repos
  */
-export function bulkSetAiAssisted(repoNames: string[], aiAssisted: boolean): void {
+export function bulkSetAiAssisted(repoKeys: string[], aiAssisted: boolean): void {
   const prefs = loadPreferences()
   
-  for (const name of repoNames) {
+  for (const name of repoKeys) {
     const existing = prefs.repos[name] || { ...DEFAULT_REPO_PREFERENCE }
     prefs.repos[name] = {
       ...existing,
@@ -357,10 +513,10 @@ export function bulkSetAiAssisted(repoNames: string[], aiAssisted: boolean): voi
 /**
  * Bulk update selection status for multiple repos
  */
-export function bulkSetSelected(repoNames: string[], selected: boolean): void {
+export function bulkSetSelected(repoKeys: string[], selected: boolean): void {
   const prefs = loadPreferences()
   
-  for (const name of repoNames) {
+  for (const name of repoKeys) {
     const existing = prefs.repos[name] || { ...DEFAULT_REPO_PREFERENCE }
     prefs.repos[name] = {
       ...existing,
@@ -370,3 +526,145 @@ export function bulkSetSelected(repoNames: string[], selected: boolean): void {
   
   savePreferences(prefs)
 }
+
+// ============================================
+// Export / Import
+// ============================================
+
+// Repo fields an import can change (scan tracking stays local)
+const IMPORTED_REPO_FIELDS: Array<{ key: keyof RepoPreference; label: string }> = [
+  { key: 'selected', label: 'Selected' },
+  { key: 'aiAssisted', label: 'AI-assisted' },
+  { key: 'customGroup', label: 'Group' },
+  { key: 'narrative', label: 'Narrative' },
+  { key: 'deploymentUrls', label: 'Deployment URLs' },
+]
+
+// Human-readable value for the import preview
+function describePreferenceValue(value: RepoPreference[keyof RepoPreference]): string {
+  if (value === undefined || value === null || value === '') return '—'
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  if (Array.isArray(value)) return value.length > 0 ? value.map(u => u.url).join(', ') : '—'
+  const text = String(value)
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text
+}
+
+// Overlay each imported repo's shared fields (not scan tracking) on the current map
+function mergeImportedRepos(
+  current: Record<string, RepoPreference> = {},
+  imported: Record<string, RepoPreference> = {}
+): Record<string, RepoPreference> {
+  const repos = { ...current }
+  for (const [repoKey, importedPref] of Object.entries(imported)) {
+    const { lastScanned, scanCount, ...shared } = importedPref
+    repos[repoKey] = overlayRepoPreference(current[repoKey], shared)
+  }
+  return repos
+}
+
+/**
+ * Merge imported preferences into the current ones.
+ * Imported repo fields and groups win; local-only repos, scan history and personal
+ * settings (wrapped year, author scope) are kept. Deployment URLs are unioned.
+ * Bare-name repos from older files stay in legacyRepos until matched on the next scan.
+ */
+function mergeImportedPreferences(current: RepoPreferences, imported: RepoPreferences): RepoPreferences {
+  const legacyRepos = mergeImportedRepos(current.legacyRepos, imported.legacyRepos)
+  
+  return {
+    ...current,
+    defaultMode: imported.defaultMode,
+    repos: mergeImportedRepos(current.repos, imported.repos),
+    legacyRepos: Object.keys(legacyRepos).length > 0 ? legacyRepos : undefined,
+    customGroups: { ...current.customGroups, ...imported.customGroups },
+  }
+}
+
+/**
+ * Serialize the current preferences as a versioned JSON file
+ */
+export function exportPreferences(): string {
+  const { updatedAt, ...prefs } = loadPreferences()
+  return JSON.stringify(toPreferencesEnvelope(prefs, new Date().toISOString()), null, 2)
+}
+
+/**
+ * Download the current preferences as a JSON file
+ */
+export function downloadPreferences(filename: string = 'github-wrapped-preferences.json'): void {
+  const blob = new Blob([exportPreferences()], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Parse an exported preferences file (any schema version) and work out what importing
+ * it would change, per repo. Throws if the file isn't valid preferences.
+ */
+export function previewPreferencesImport(fileContents: string): PreferencesImportPreview {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(fileContents)
+  } catch {
+    throw new Error('Not a valid JSON file')
+  }
+
+  const imported = migratePreferences(parsed)
+  const current = loadPreferences()
+  const merged = mergeImportedPreferences(current, imported)
+
+  const repoChanges: RepoPreferenceChange[] = []
+  let unchangedRepos = 0
+  
+  const diffRepos = (
+    before: Record<string, RepoPreference> = {},
+    after: Record<string, RepoPreference> = {},
+    keys: string[]
+  ) => {
+    for (const repoKey of keys.sort()) {
+      const fields = IMPORTED_REPO_FIELDS
+        .map(({ key, label }) => ({
+          field: label,
+          from: describePreferenceValue(before[repoKey]?.[key]),
+          to: describePreferenceValue(after[repoKey][key]),
+        }))
+        .filter(change => change.from !== change.to)
+      
+      if (!before[repoKey]) {
+        repoChanges.push({ repoName: repoKey, status: 'added', fields })
+      } else if (fields.length > 0) {
+        repoChanges.push({ repoName: repoKey, status: 'changed', fields })
+      } else {
+        unchangedRepos++
+      }
+    }
+  }
+  
+  diffRepos(current.repos, merged.repos, Object.keys(imported.repos))
+  // Bare names from pre-v2 files - matched to a full_name on the next scan
+  diffRepos(current.legacyRepos, merged.legacyRepos, Object.keys(imported.legacyRepos || {}))
+
+  return {
+    preferences: imported,
+    version: getPreferencesVersion(parsed),
+    repoChanges,
+    unchangedRepos,
+    newGroups: Object.keys(imported.customGroups).filter(name => !current.customGroups[name]),
+    defaultModeChange: imported.defaultMode !== current.defaultMode
+      ? { from: current.defaultMode, to: imported.defaultMode }
+      : undefined,
+  }
+}
+
+/**
+ * Merge previewed preferences into the saved ones and return the result
+ */
+export function applyPreferencesImport(imported: RepoPreferences): RepoPreferences {
+  const merged = mergeImportedPreferences(loadPreferences(), imported)
+  savePreferences(merged)
+  return merged
+}
@@ -0,0 +1,107 @@
+import type { RepoPreferences, PreferencesEnvelope, DevelopmentMode } from '@/types'
+
+/**
+ * Preferences Schema - versioning and migrations for stored/exported preferences.
+ *
+ * Preferences are stored as a PreferencesEnvelope ({ version, preferences }).
+ * Anything older (including the bare, unversioned object) is upgraded one step at
+ * a time through MIGRATIONS. To change the shape, append a migration - never edit
+ * an existing one - and PREFERENCES_VERSION follows automatically.
+ */
+
+type Migration = (preferences: any) => any
+
+const DEVELOPMENT_MODES: DevelopmentMode[] = ['ai', 'manual', 'mixed']
+
+const MIGRATIONS: Migration[] = [
+  // 0 -> 1: Unversioned preferences - fill in fields older builds didn't write
+  (preferences) => ({
+    ...preferences,
+    defaultMode: DEVELOPMENT_MODES.includes(preferences.defaultMode) ? preferences.defaultMode : 'mixed',
+    repos: Object.fromEntries(
+      Object.entries(preferences.repos || {}).map(([name, pref]: [string, any]) => [
+        name,
+        { ...pref, deploymentUrls: Array.isArray(pref?.deploymentUrls) ? pref.deploymentUrls : [] },
+      ])
+    ),
+    customGroups: preferences.customGroups || {},
+    wrappedYear: typeof preferences.wrappedYear === 'number' ? preferences.wrappedYear : undefined,
+  }),
+  // 1 -> 2: Repos are keyed by full_name. Bare-name keys can't be resolved without the
+  // repo list, so they move to legacyRepos until mergeWithExistingPreferences matches them
+  (preferences) => {
+    const repos: Record<string, unknown> = {}
+    const legacyRepos: Record<string, unknown> = { ...preferences.legacyRepos }
+    Object.entries(preferences.repos || {}).forEach(([key, pref]) => {
+      if (key.includes('/')) {
+        repos[key] = pref
+      } else {
+        legacyRepos[key] = pref
+      }
+    })
+    return { ...preferences, repos, legacyRepos }
+  },
+]
+
+export const PREFERENCES_VERSION = MIGRATIONS.length
+
+/**
+ * Schema version of a stored or imported value (0 = unversioned bare preferences)
+ */
+export function getPreferencesVersion(value: any): number {
+  return isEnvelope(value) ? value.version : 0
+}
+
+function isEnvelope(value: any): value is PreferencesEnvelope {
+  return !!value && typeof value === 'object' && typeof value.version === 'number' && typeof value.preferences === 'object'
+}
+
+/**
+ * Upgrade any stored/imported preferences (envelope or bare object) to the current shape.
+ * Throws if the value comes from a newer build.
+ */
+export function migratePreferences(value: unknown): RepoPreferences {
+  if (!value || typeof value !== 'object') {
+    throw new Error('Preferences must be a JSON object')
+  }
+
+  const version = getPreferencesVersion(value)
+  if (version > PREFERENCES_VERSION) {
+    throw new Error(`These preferences were saved by a newer version of GitHub Wrapped (schema v${version}, this build reads up to v${PREFERENCES_VERSION})`)
+  }
+
+  let preferences: any = isEnvelope(value) ? value.preferences : value
+  for (let step = version; step < PREFERENCES_VERSION; step++) {
+    preferences = MIGRATIONS[step](preferences)
+  }
+
+  // Ensure all required fields exist even if a file was hand-edited
+  return {
+    defaultMode: DEVELOPMENT_MODES.includes(preferences.defaultMode) ? preferences.defaultMode : 'mixed',
+    repos: preferences.repos || {},
+    customGroups: preferences.customGroups || {},
+    legacyRepos: preferences.legacyRepos && Object.keys(preferences.legacyRepos).length > 0
+      ? preferences.legacyRepos
+      : undefined,
+    wrappedYear: preferences.wrappedYear,
+    authorScope: preferences.authorScope,
+    updatedAt: preferences.updatedAt,
+  }
+}
+
+/**
+ * Key a repo's preferences by full_name, so same-named repos under different owners
+ * don't share a narrative, AI flag or group
+ */
+export function getRepoPreferenceKey(repo: { name: string; full_name?: string }): string {
+  return repo.full_name || repo.name
+}
+
+/**
+ * Wrap preferences in a current-version envelope
+ */
+export function toPreferencesEnvelope(preferences: RepoPreferences, exportedAt?: string): PreferencesEnvelope {
+  return exportedAt
+    ? { version: PREFERENCES_VERSION, exportedAt, preferences }
+    : { version: PREFERENCES_VERSION, preferences }
+}
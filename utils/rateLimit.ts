@@ -0,0 +1,39 @@
+import type { GitHubRateLimit } from '@/types'
+
+/**
+ * Rate Limit - the user's GitHub API quota as shown on the dashboard
+ */
+
+// Low = under this share of the hourly limit, or under MIN_REQUESTS_LEFT requests
+const LOW_QUOTA_SHARE = 0.1
+const MIN_REQUESTS_LEFT = 200
+
+/**
+ * Fetch the current quota (null when it can't be read)
+ */
+export async function fetchRateLimit(): Promise<GitHubRateLimit | null> {
+  try {
+    const response = await fetch('/api/github/rate-limit')
+    if (!response.ok) return null
+    return await response.json()
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Whether the quota is low enough that an analysis might run out part-way
+ */
+export function isRateLimitLow(rateLimit: GitHubRateLimit): boolean {
+  return rateLimit.remaining < Math.max(MIN_REQUESTS_LEFT, rateLimit.limit * LOW_QUOTA_SHARE)
+}
+
+/**
+ * When the quota resets, e.g. "3:45 PM (in 12 min)"
+ */
+export function formatRateLimitReset(rateLimit: GitHubRateLimit): string {
+  const resetAt = new Date(rateLimit.resetAt)
+  const minutes = Math.max(0, Math.ceil((resetAt.getTime() - Date.now()) / 60000))
+  const time = resetAt.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })
+  return `${time} (in ${minutes} min)`
+}
@@ -0,0 +1,166 @@
+/**
+ * Rhythm Metrics - when commits happen: hour-of-day x weekday punch card and
+ * the coding habits derived from it
+ *
+ * Commit timestamps are converted into the viewer's timezone first, so peaks
+ * reflect local clock time rather than UTC.
+ */
+
+export type Chronotype = 'early-bird' | 'nine-to-five' | 'night-owl' | 'around-the-clock'
+
+export interface RhythmMetrics {
+  punchCard: number[][]  // [weekday 0 (Sunday)..6][hour 0..23] commit counts
+  totalCommits: number
+  chronotype: Chronotype
+  chronotypeLabel: string
+  chronotypeIcon: string
+  nightShare: number     // % of commits between 22:00 and 04:59
+  morningShare: number   // % of commits between 05:00 and 08:59
+  workHoursShare: number // % of commits between 09:00 and 17:59
+  weekendShare: number   // % of commits on Saturday or Sunday
+  peakHour: number | null
+  peakWeekday: number | null
+  peakSlot: { weekday: number; hour: number; count: number } | null
+  timeZone: string
+}
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+// A chronotype needs this share of commits in its window (checked in this order)
+const NIGHT_OWL_SHARE = 25
+const EARLY_BIRD_SHARE = 20
+const NINE_TO_FIVE_SHARE = 60
+
+const CHRONOTYPES: Record<Chronotype, { label: string; icon: string }> = {
+  'night-owl': { label: 'Night Owl', icon: '🦉' },
+  'early-bird': { label: 'Early Bird', icon: '🐦' },
+  'nine-to-five': { label: 'Nine-to-Five', icon: '💼' },
+  'around-the-clock': { label: 'Around the Clock', icon: '🔄' },
+}
+
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 }
+
+// Cache formatters - constructing Intl.DateTimeFormat is relatively expensive
+const slotFormatters: Record<string, Intl.DateTimeFormat> = {}
+
+function toLocalSlot(date: string, timeZone: string): { weekday: number; hour: number } | null {
+  if (!slotFormatters[timeZone]) {
+    slotFormatters[timeZone] = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      weekday: 'short',
+      hour: '2-digit',
+      hourCycle: 'h23',
+    })
+  }
+  const parsed = new Date(date)
+  if (isNaN(parsed.getTime())) return null
+
+  const parts = slotFormatters[timeZone].formatToParts(parsed)
+  const weekday = WEEKDAY_INDEX[parts.find(p => p.type === 'weekday')?.value || '']
+  const hour = Number(parts.find(p => p.type === 'hour')?.value)
+  if (weekday === undefined || isNaN(hour)) return null
+  return { weekday, hour: hour % 24 }
+}
+
+/**
+ * Check an untrusted timezone name (falls back to UTC when Intl doesn't know it)
+ */
+export function resolveTimeZone(value: unknown): string {
+  if (typeof value !== 'string' || !value) return 'UTC'
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value })
+    return value
+  } catch {
+    return 'UTC'
+  }
+}
+
+function share(count: number, total: number): number {
+  return total > 0 ? Math.round((count / total) * 100) : 0
+}
+
+/**
+ * Build the punch card and rhythm classification from commit timestamps
+ */
+export function computeRhythmMetrics(commitDates: string[], timeZone: string = 'UTC'): RhythmMetrics {
+  const punchCard = WEEKDAY_NAMES.map(() => new Array<number>(24).fill(0))
+  let totalCommits = 0
+
+  commitDates.forEach(date => {
+    const slot = toLocalSlot(date, timeZone)
+    if (!slot) return
+    punchCard[slot.weekday][slot.hour]++
+    totalCommits++
+  })
+
+  const hourTotals = new Array<number>(24).fill(0)
+  const weekdayTotals = punchCard.map(hours => hours.reduce((sum, count) => sum + count, 0))
+  let peakSlot: RhythmMetrics['peakSlot'] = null
+  punchCard.forEach((hours, weekday) => {
+    hours.forEach((count, hour) => {
+      hourTotals[hour] += count
+      if (count > 0 && (!peakSlot || count > peakSlot.count)) peakSlot = { weekday, hour, count }
+    })
+  })
+
+  const inHours = (from: number, to: number) => hourTotals.slice(from, to).reduce((sum, count) => sum + count, 0)
+  const nightShare = share(inHours(22, 24) + inHours(0, 5), totalCommits)
+  const morningShare = share(inHours(5, 9), totalCommits)
+  const workHoursShare = share(inHours(9, 18), totalCommits)
+  const weekendShare = share(weekdayTotals[0] + weekdayTotals[6], totalCommits)
+
+  const chronotype: Chronotype = nightShare >= NIGHT_OWL_SHARE ? 'night-owl'
+    : morningShare >= EARLY_BIRD_SHARE ? 'early-bird'
+    : workHoursShare >= NINE_TO_FIVE_SHARE ? 'nine-to-five'
+    : 'around-the-clock'
+
+  const indexOfMax = (values: number[]) => values.indexOf(Math.max(...values))
+
+  return {
+    punchCard,
+    totalCommits,
+    chronotype,
+    chronotypeLabel: CHRONOTYPES[chronotype].label,
+    chronotypeIcon: CHRONOTYPES[chronotype].icon,
+    nightShare,
+    morningShare,
+    workHoursShare,
+    weekendShare,
+    peakHour: totalCommits > 0 ? indexOfMax(hourTotals) : null,
+    peakWeekday: totalCommits > 0 ? indexOfMax(weekdayTotals) : null,
+    peakSlot,
+    timeZone,
+  }
+}
+
+/**
+ * Intensity level (0-4) of a punch card cell relative to the busiest cell
+ */
+export function getPunchCardLevel(count: number, max: number): number {
+  if (count === 0 || max === 0) return 0
+  return Math.min(4, Math.ceil((count / max) * 4))
+}
+
+/**
+ * Format an hour of the day for display, e.g. "9am" or "11pm"
+ */
+export function formatHour(hour: number): string {
+  const suffix = hour < 12 ? 'am' : 'pm'
+  return `${hour % 12 === 0 ? 12 : hour % 12}${suffix}`
+}
+
+/**
+ * One-line summary of the rhythm (used in prompts and offline narratives)
+ */
+export function describeRhythm(rhythm: RhythmMetrics): string {
+  if (rhythm.totalCommits === 0) return 'No commit timestamps available'
+  const peak = rhythm.peakSlot
+    ? `busiest slot ${WEEKDAY_NAMES[rhythm.peakSlot.weekday]}s around ${formatHour(rhythm.peakSlot.hour)}`
+    : ''
+  return [
+    rhythm.chronotypeLabel,
+    `${rhythm.nightShare}% of commits late at night (10pm-5am), ${rhythm.morningShare}% early morning (5-9am), ${rhythm.workHoursShare}% in work hours (9am-6pm)`,
+    `${rhythm.weekendShare}% on weekends`,
+    peak,
+  ].filter(Boolean).join('; ') + ` (${rhythm.timeZone})`
+}
@@ -0,0 +1,157 @@
+/**
+ * Server Sync - mirrors localStorage documents to /api/user/* so they follow the
+ * user between browsers. Conflicts resolve by last-modified timestamp; local data
+ * saved before syncing existed has none, so it's merged with the server copy once.
+ *
+ * All functions are best-effort: when the server is unreachable (or the user is
+ * signed out) localStorage simply remains the source of truth. Failed pushes are
+ * reported to subscribeToSyncErrors listeners so the UI can say so.
+ */
+
+export type SyncedDocumentKind = 'preferences' | 'wrapped'
+
+export interface SyncedDocument<T> {
+  data: T
+  updatedAt: string
+}
+
+// updatedAt is null for data saved before syncing existed
+export interface LocalDocument<T> {
+  data: T
+  updatedAt: string | null
+}
+
+interface LocalDocumentStore<T> {
+  read: () => LocalDocument<T> | null   // Current local copy (null = nothing saved yet)
+  write: (document: SyncedDocument<T>) => void  // Replace the local copy without re-stamping it
+  merge: (local: T, remote: T) => T  // Combine unstamped local data with the server copy
+}
+
+// Wait this long after the last change before pushing (batches rapid edits)
+const PUSH_DELAY_MS = 1000
+
+// Browsers refuse keepalive requests over 64 KiB in total - larger documents (wrapped
+// results with READMEs and snapshots) are sent as normal requests
+const KEEPALIVE_MAX_BYTES = 60 * 1024
+
+export interface SyncError {
+  kind: SyncedDocumentKind
+  message: string
+}
+
+const syncErrorListeners = new Set<(error: SyncError) => void>()
+
+const pendingPushes: Partial<Record<SyncedDocumentKind, ReturnType<typeof setTimeout>>> = {}
+
+function isNewer(a: string | null | undefined, b: string | null | undefined): boolean {
+  if (!a) return false
+  if (!b) return true
+  return Date.parse(a) > Date.parse(b)
+}
+
+/**
+ * Get told when a document couldn't be saved to the server; returns an unsubscribe function
+ */
+export function subscribeToSyncErrors(listener: (error: SyncError) => void): () => void {
+  syncErrorListeners.add(listener)
+  return () => {
+    syncErrorListeners.delete(listener)
+  }
+}
+
+function reportSyncError(kind: SyncedDocumentKind, message: string): void {
+  console.error(`Error saving ${kind} to the server: ${message}`)
+  syncErrorListeners.forEach(listener => listener({ kind, message }))
+}
+
+async function pushDocument<T>(kind: SyncedDocumentKind, document: SyncedDocument<T>): Promise<SyncedDocument<T> | null> {
+  const body = JSON.stringify(document)
+  try {
+    const response = await fetch(`/api/user/${kind}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+      // Small documents (preferences) survive the tab closing right after an edit
+      keepalive: new Blob([body]).size <= KEEPALIVE_MAX_BYTES,
+    })
+    if (!response.ok) {
+      // Signed out - nothing to sync to, localStorage stays the source of truth
+      if (response.status === 401) return null
+      const result = await response.json().catch(() => null)
+      reportSyncError(kind, result?.error || `Server responded ${response.status}`)
+      return null
+    }
+    const result = await response.json()
+    return { data: result.data, updatedAt: result.updatedAt }
+  } catch (error: any) {
+    reportSyncError(kind, error?.message || 'Network error')
+    return null
+  }
+}
+
+/**
+ * Push the local copy to the server shortly after a change
+ */
+export function schedulePush<T>(kind: SyncedDocumentKind, store: LocalDocumentStore<T>): void {
+  if (typeof window === 'undefined') return
+
+  clearTimeout(pendingPushes[kind])
+  pendingPushes[kind] = setTimeout(async () => {
+    delete pendingPushes[kind]
+    const local = store.read()
+    if (!local?.updatedAt) return
+
+    const stored = await pushDocument(kind, { data: local.data, updatedAt: local.updatedAt })
+    // The server kept a newer copy (edited elsewhere) - adopt it
+    if (stored && isNewer(stored.updatedAt, local.updatedAt)) {
+      store.write(stored)
+    }
+  }, PUSH_DELAY_MS)
+}
+
+/**
+ * Reconcile the local copy with the server: the newer side wins.
+ * Returns true if the local copy was replaced with the server's.
+ */
+export async function syncDocument<T>(kind: SyncedDocumentKind, store: LocalDocumentStore<T>): Promise<boolean> {
+  if (typeof window === 'undefined') return false
+
+  try {
+    const response = await fetch(`/api/user/${kind}`)
+    if (!response.ok) return false
+    const remote: { data: T | null; updatedAt: string | null } = await response.json()
+    const local = store.read()
+
+    // Saved before syncing existed - neither side can be said to be newer, so keep both,
+    // stamp the result and push it
+    if (local && !local.updatedAt) {
+      const merged = {
+        data: remote.data !== null ? store.merge(local.data, remote.data) : local.data,
+        updatedAt: new Date().toISOString(),
+      }
+      store.write(merged)
+      const stored = await pushDocument(kind, merged)
+      if (stored && isNewer(stored.updatedAt, merged.updatedAt)) {
+        store.write(stored)
+        return true
+      }
+      return remote.data !== null
+    }
+
+    if (remote.data !== null && remote.updatedAt && isNewer(remote.updatedAt, local?.updatedAt)) {
+      store.write({ data: remote.data, updatedAt: remote.updatedAt })
+      return true
+    }
+
+    if (local?.updatedAt && isNewer(local.updatedAt, remote.updatedAt)) {
+      const stored = await pushDocument(kind, { data: local.data, updatedAt: local.updatedAt })
+      if (stored && isNewer(stored.updatedAt, local.updatedAt)) {
+        store.write(stored)
+        return true
+      }
+    }
+  } catch (error) {
+    console.error(`Error syncing ${kind}:`, error)
+  }
+  return false
+}
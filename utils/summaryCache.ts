@@ -0,0 +1,94 @@
+import type { AISummary } from '@/types'
+import type { DateRange } from '@/utils/dateRange'
+
+/**
+ * Summary Cache - keys shared by the server cache (lib/summaryCache.ts) and the
+ * client-side localStorage mirror, so an unchanged repo never re-hits the LLM.
+ */
+
+// Bump whenever the analyze prompt changes so old summaries are regenerated
+export const SUMMARY_PROMPT_VERSION = 3
+
+const MIRROR_KEY = 'summaryCache'
+const MAX_MIRRORED_SUMMARIES = 500
+
+export interface SummaryCacheKeyInput {
+  login: string  // Verified GitHub login - prompt inputs come from the client, so summaries are never shared
+  owner: string
+  repo: string
+  headSha: string
+  narrative?: string
+  range?: DateRange | null
+  authorLogins?: string[] | null  // Resolved logins, not 'me'
+}
+
+interface MirroredSummary {
+  summary: AISummary
+  cachedAt: string
+}
+
+/**
+ * Fast non-cryptographic string hash (FNV-1a, 32-bit hex) - only used to shorten keys
+ */
+export function hashString(value: string): string {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+/**
+ * Build the cache key for a repo summary: the user's owner/repo at a head SHA, plus a
+ * hash of everything else that feeds the prompt (narrative, date range, author logins)
+ */
+export function buildSummaryCacheKey(input: SummaryCacheKeyInput): string {
+  const context = JSON.stringify([
+    input.narrative?.trim() || '',
+    input.range ? [input.range.since, input.range.until] : null,
+    input.authorLogins ? [...input.authorLogins].map(l => l.toLowerCase()).sort() : null,
+  ])
+  return `${input.login}:${input.owner}/${input.repo}@${input.headSha}:${hashString(context)}:v${SUMMARY_PROMPT_VERSION}`.toLowerCase()
+}
+
+function loadMirror(): Record<string, MirroredSummary> {
+  try {
+    const stored = localStorage.getItem(MIRROR_KEY)
+    return stored ? JSON.parse(stored) : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Get a summary from the client-side mirror (null on miss)
+ */
+export function getMirroredSummary(cacheKey: string): AISummary | null {
+  if (typeof window === 'undefined') return null
+  return loadMirror()[cacheKey]?.summary || null
+}
+
+/**
+ * Store a summary in the client-side mirror (oldest entries are evicted past the cap)
+ */
+export function mirrorSummary(cacheKey: string, summary: AISummary): void {
+  if (typeof window === 'undefined') return
+
+  const mirror = loadMirror()
+  mirror[cacheKey] = { summary, cachedAt: new Date().toISOString() }
+
+  const keys = Object.keys(mirror)
+  if (keys.length > MAX_MIRRORED_SUMMARIES) {
+    keys
+      .sort((a, b) => mirror[a].cachedAt.localeCompare(mirror[b].cachedAt))
+      .slice(0, keys.length - MAX_MIRRORED_SUMMARIES)
+      .forEach(key => delete mirror[key])
+  }
+
+  try {
+    localStorage.setItem(MIRROR_KEY, JSON.stringify(mirror))
+  } catch (e) {
+    console.error('Failed to mirror summary:', e)
+  }
+}
@@ -0,0 +1,164 @@
+import type { AnalyzedRepository, DevelopmentMode, RepoPreference } from '@/types'
+import type { ActivityMetrics } from '@/utils/activityMetrics'
+import type { ExportData } from '@/utils/exportHTML'
+
+/**
+ * Wrapped Metrics - the totals and impact numbers shown on the wrapped page and in
+ * the HTML export. Pure functions, shared by the wrapped page and the CLI.
+ */
+
+export type WrappedTotals = ExportData['stats']
+export type ImpactMetrics = ExportData['impactMetrics']
+
+/**
+ * Aggregate commits, LOC and language bytes across analyzed repos
+ */
+export function computeWrappedTotals(repositories: AnalyzedRepository[]): WrappedTotals {
+  return repositories.reduce(
+    (acc, repo) => {
+      if (repo.stats) {
+        acc.totalCommits += repo.stats.commits || 0
+        acc.totalAdditions += repo.stats.additions || 0
+        acc.totalDeletions += repo.stats.deletions || 0
+        acc.totalNet += repo.stats.net || 0
+        
+        Object.entries(repo.stats.languages || {}).forEach(([lang, bytes]) => {
+          acc.languages[lang] = (acc.languages[lang] || 0) + bytes
+        })
+      }
+      return acc
+    },
+    {
+      totalCommits: 0,
+      totalAdditions: 0,
+      totalDeletions: 0,
+      totalNet: 0,
+      languages: {} as Record<string, number>,
+    }
+  )
+}
+
+/**
+ * Time-saved estimates, streaks and the self-reported AI vs manual breakdown
+ */
+export function computeImpactMetrics(input: {
+  repositories: AnalyzedRepository[]
+  stats: WrappedTotals
+  activity: ActivityMetrics
+  repoPreferences: Record<string, RepoPreference>
+  developmentMode: DevelopmentMode
+}): ImpactMetrics {
+  const { repositories, stats, activity, repoPreferences, developmentMode } = input
+
+  const avgCommitsPerRepo = repositories.length > 0 
+    ? Math.round(stats.totalCommits / repositories.length) 
+    : 0
+  
+  // YOUR actual coding days - distinct local dates with at least one commit
+  const yourActiveDays = activity.activeDays
+  const yourHours = yourActiveDays * 8
+  
+  // How long would a TRADITIONAL developer take at 300 lines/day?
+  const traditionalDays = Math.round(stats.totalAdditions / 300)
+  const traditionalHours = traditionalDays * 8
+  
+  // Productivity multiplier: traditional time / your time
+  const productivityMultiplier = yourActiveDays > 0 
+    ? Math.round((traditionalDays / yourActiveDays) * 10) / 10
+    : 1.0
+  
+  // Lines per day YOU achieved
+  const yourLinesPerDay = yourActiveDays > 0 
+    ? Math.round(stats.totalAdditions / yourActiveDays)
+    : 0
+  
+  // Longest run of consecutive active days
+  const longestStreak = activity.longestStreak
+  
+  // Count AI-enhanced projects - check if aiSummary exists and has meaningful AI integration
+  const aiEnhancedProjects = repositories.filter(r => {
+    if (!r.aiSummary?.ai_integration) return false
+    
+    // If it's an object with properties, it's AI-enhanced
+    if (typeof r.aiSummary.ai_integration === 'object') {
+      return Object.keys(r.aiSummary.ai_integration).length > 0
+    }
+    
+    // If it's a string, check if it indicates AI usage (not "None", "N/A", etc.)
+    const aiText = String(r.aiSummary.ai_integration).toLowerCase()
+    const negativeIndicators = ['none', 'n/a', 'no ai', 'not applicable', 'no integration']
+    return !negativeIndicators.some(neg => aiText.includes(neg))
+  }).length
+  
+  // === SELF-REPORTED METRICS ===
+  
+  // Check AI status with inheritance (repo-level preference -> global default)
+  const checkAiAssisted = (repoKey: string): boolean => {
+    const pref = repoPreferences[repoKey]
+    if (pref?.aiAssisted !== undefined) return pref.aiAssisted
+    return developmentMode === 'ai'
+  }
+  
+  // Count repos by self-reported status (respects inheritance)
+  const aiAssistedRepos = repositories.filter(r => checkAiAssisted(r.full_name)).length
+  const manualRepos = repositories.length - aiAssistedRepos
+  const selfReportedAiPercentage = repositories.length > 0 
+    ? Math.round((aiAssistedRepos / repositories.length) * 100)
+    : 0
+  
+  // Calculate lines of code by development style (respects inheritance)
+  const aiAssistedLOC = repositories
+    .filter(r => checkAiAssisted(r.full_name))
+    .reduce((sum, r) => sum + (r.stats?.additions || 0), 0)
+  const manualLOC = stats.totalAdditions - aiAssistedLOC
+  
+  // Count repos with deployment URLs
+  const deployedRepos = repositories.filter(r => 
+    repoPreferences[r.full_name]?.deploymentUrls?.length > 0
+  ).length
+  
+  // Count repos with narratives
+  const documentedRepos = repositories.filter(r => 
+    repoPreferences[r.full_name]?.narrative
+  ).length
+  
+  // Get languages used in AI-assisted vs manual repos (respects inheritance)
+  const aiLanguages: Record<string, number> = {}
+  const manualLanguages: Record<string, number> = {}
+  
+  repositories.forEach(r => {
+    if (r.stats?.languages) {
+      const target = checkAiAssisted(r.full_name) ? aiLanguages : manualLanguages
+      Object.entries(r.stats.languages).forEach(([lang, bytes]) => {
+        target[lang] = (target[lang] || 0) + bytes
+      })
+    }
+  })
+  
+  // Top AI-assisted language
+  const topAiLanguage = Object.entries(aiLanguages).sort(([,a], [,b]) => b - a)[0]?.[0] || null
+  const topManualLanguage = Object.entries(manualLanguages).sort(([,a], [,b]) => b - a)[0]?.[0] || null
+  
+  return {
+    avgCommitsPerRepo,
+    yourActiveDays,
+    yourHours,
+    traditionalDays,
+    traditionalHours,
+    productivityMultiplier,
+    yourLinesPerDay,
+    longestStreak,
+    totalProjects: repositories.length,
+    aiEnhancedProjects,
+    // Self-reported metrics
+    aiAssistedRepos,
+    manualRepos,
+    selfReportedAiPercentage,
+    aiAssistedLOC,
+    manualLOC,
+    deployedRepos,
+    documentedRepos,
+    topAiLanguage,
+    topManualLanguage,
+  }
+}
@@ -0,0 +1,137 @@
+import type { WrappedSnapshot } from '@/types'
+import { schedulePush, syncDocument } from '@/utils/serverSync'
+
+/**
+ * Wrapped Storage - the analysis results the dashboard produces and the wrapped page
+ * renders. Kept in localStorage (one key per field) and synced to the server.
+ */
+
+// localStorage keys, one per field of WrappedResults
+export const WRAPPED_STORAGE_KEYS = [
+  'analyzedRepositories',
+  'repositoryGroups',
+  'featuredProjects',
+  'yearNarrative',
+  'aiInsights',
+  'achievements',
+  'developmentPattern',
+  'detectedStats',
+  'wrappedYear',  // Year the results cover (the preference may have changed since)
+  'yearOverYear',  // "What changed" narrative vs the previous year's snapshot
+  'wrappedSnapshots',  // Per-year snapshots (survive regenerating another year)
+] as const
+
+export type WrappedStorageKey = typeof WRAPPED_STORAGE_KEYS[number]
+
+export type WrappedResults = Partial<Record<WrappedStorageKey, unknown>>
+
+const UPDATED_AT_KEY = 'wrappedUpdatedAt'
+
+/**
+ * Load every stored result field (missing fields are left out)
+ */
+export function loadWrappedResults(): WrappedResults {
+  const results: WrappedResults = {}
+  if (typeof window === 'undefined') return results
+
+  WRAPPED_STORAGE_KEYS.forEach(key => {
+    const stored = localStorage.getItem(key)
+    if (stored === null) return
+    try {
+      results[key] = JSON.parse(stored)
+    } catch {
+      // Ignore corrupt entries - they'll be overwritten on the next analysis
+    }
+  })
+  return results
+}
+
+// Write fields as-is (no timestamp bump)
+function writeWrappedResults(results: WrappedResults, updatedAt: string): void {
+  try {
+    Object.entries(results).forEach(([key, value]) => {
+      localStorage.setItem(key, JSON.stringify(value ?? null))
+    })
+    localStorage.setItem(UPDATED_AT_KEY, updatedAt)
+  } catch (error) {
+    console.error('Error saving wrapped results:', error)
+  }
+}
+
+// Results saved before syncing existed, combined with the server copy: the current
+// results come from one side as a whole (the server's when it has any, mixing would
+// pair one year's repos with another's narrative) and per-year snapshots from both
+function mergeWrappedResults(local: WrappedResults, remote: WrappedResults): WrappedResults {
+  const hasResults = (results: WrappedResults) =>
+    WRAPPED_STORAGE_KEYS.some(key => key !== 'wrappedSnapshots' && results[key] !== undefined)
+  const current = hasResults(remote) ? remote : local
+  return {
+    ...current,
+    wrappedSnapshots: {
+      ...(local.wrappedSnapshots as Record<string, WrappedSnapshot> | undefined),
+      ...(remote.wrappedSnapshots as Record<string, WrappedSnapshot> | undefined),
+    },
+  }
+}
+
+// How the sync layer reads/writes the local copy
+const wrappedStore = {
+  read: () => {
+    const data = loadWrappedResults()
+    const updatedAt = localStorage.getItem(UPDATED_AT_KEY)
+    if (!updatedAt && Object.keys(data).length === 0) return null
+    return { data, updatedAt }
+  },
+  // The incoming copy is the whole document - fields it lacks are removed here too
+  write: ({ data, updatedAt }: { data: WrappedResults; updatedAt: string }) => {
+    WRAPPED_STORAGE_KEYS.forEach(key => {
+      if (data[key] === undefined) localStorage.removeItem(key)
+    })
+    writeWrappedResults(data, updatedAt)
+  },
+  merge: mergeWrappedResults,
+}
+
+/**
+ * Save some or all result fields (and sync them to the server in the background)
+ */
+export function saveWrappedResults(results: WrappedResults): void {
+  if (typeof window === 'undefined') return
+
+  writeWrappedResults(results, new Date().toISOString())
+  schedulePush('wrapped', wrappedStore)
+}
+
+/**
+ * Reconcile local results with the server copy (newer wins).
+ * Returns true if the local copy was replaced.
+ */
+export function syncWrappedResults(): Promise<boolean> {
+  return syncDocument('wrapped', wrappedStore)
+}
+
+/**
+ * All stored per-year snapshots, keyed by year
+ */
+export function loadSnapshots(): Record<string, WrappedSnapshot> {
+  return (loadWrappedResults().wrappedSnapshots as Record<string, WrappedSnapshot> | undefined) || {}
+}
+
+/**
+ * The most recent snapshot from before a year (null if none)
+ */
+export function getPreviousSnapshot(year: number): WrappedSnapshot | null {
+  const earlier = Object.values(loadSnapshots())
+    .filter(snapshot => snapshot.year < year)
+    .sort((a, b) => b.year - a.year)
+  return earlier[0] || null
+}
+
+/**
+ * Store (or replace) the snapshot for its year
+ */
+export function saveSnapshot(snapshot: WrappedSnapshot): void {
+  saveWrappedResults({
+    wrappedSnapshots: { ...loadSnapshots(), [snapshot.year]: snapshot },
+  })
+}
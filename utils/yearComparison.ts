@@ -0,0 +1,240 @@
+import type { WrappedSnapshot, YearComparison, YearComparisonMetric, DevelopmentMode, RepoPreference } from '@/types'
+import { buildDailyActivity, computeActivityMetrics } from '@/utils/activityMetrics'
+import { getRepoPreferenceKey } from '@/utils/preferencesSchema'
+
+/**
+ * Year Comparison - condense a wrapped into a per-year snapshot and diff two of them.
+ * Pure functions, shared by the wrapped page, the dashboard and the group route.
+ */
+
+// Languages under this share in both years are left out of the comparison
+const MIN_LANGUAGE_SHARE = 2
+
+export interface SnapshotRepo {
+  name: string
+  full_name?: string
+  language?: string | null
+  stats?: {
+    commits?: number
+    additions?: number
+    deletions?: number
+    net?: number
+    languages?: Record<string, number>
+    commitDates?: string[]
+  }
+}
+
+export interface SnapshotInput {
+  year: number
+  repositories: SnapshotRepo[]
+  repoPreferences?: Record<string, Pick<RepoPreference, 'aiAssisted'>>
+  developmentMode?: DevelopmentMode
+  timeZone?: string
+  narrativeTitle?: string
+  yearOverYear?: string
+}
+
+// The repo's in-range commits split across its languages by their byte shares.
+// GitHub only reports all-time bytes per repo, so weighting by the year's commits is
+// what makes a repo nobody touched this year drop out of the year's language mix.
+function getCommitsByLanguage(repo: SnapshotRepo): Record<string, number> {
+  const commits = repo.stats?.commits || 0
+  if (commits === 0) return {}
+
+  const bytes = repo.stats?.languages || {}
+  const totalBytes = Object.values(bytes).reduce((sum, value) => sum + value, 0)
+  if (totalBytes === 0) return repo.language ? { [repo.language]: commits } : {}
+
+  const byLanguage: Record<string, number> = {}
+  Object.entries(bytes).forEach(([lang, value]) => {
+    byLanguage[lang] = commits * value / totalBytes
+  })
+  return byLanguage
+}
+
+/**
+ * Build the snapshot for a wrapped year from its analyzed repositories
+ */
+export function buildWrappedSnapshot(input: SnapshotInput): WrappedSnapshot {
+  const { year, repositories, repoPreferences = {}, developmentMode = 'mixed', timeZone = 'UTC' } = input
+
+  const totals = { commits: 0, additions: 0, deletions: 0, net: 0 }
+  const languages: Record<string, number> = {}
+  repositories.forEach(repo => {
+    totals.commits += repo.stats?.commits || 0
+    totals.additions += repo.stats?.additions || 0
+    totals.deletions += repo.stats?.deletions || 0
+    totals.net += repo.stats?.net || 0
+    Object.entries(getCommitsByLanguage(repo)).forEach(([lang, commits]) => {
+      languages[lang] = (languages[lang] || 0) + commits
+    })
+  })
+
+  // Commit timestamps only, so snapshots built with and without the calendar agree
+  const activity = computeActivityMetrics(buildDailyActivity({
+    commitDates: repositories.flatMap(r => r.stats?.commitDates || []),
+    timeZone,
+  }))
+
+  // Same inheritance as the wrapped page: repo setting, else the global default
+  const aiAssistedRepos = repositories.filter(repo => {
+    const pref = repoPreferences[getRepoPreferenceKey(repo)]
+    return pref?.aiAssisted ?? developmentMode === 'ai'
+  }).length
+
+  return {
+    year,
+    generatedAt: new Date().toISOString(),
+    totals: {
+      ...totals,
+      activeDays: activity.activeDays,
+      longestStreak: activity.longestStreak,
+    },
+    languages,
+    languageWeights: 'commits',
+    aiAssistedShare: repositories.length > 0 ? Math.round((aiAssistedRepos / repositories.length) * 100) : 0,
+    // Repos without stats (not yet analyzed) still count as projects for the year
+    projects: repositories
+      .filter(repo => !repo.stats || (repo.stats.commits || 0) > 0)
+      .map(repo => ({
+        fullName: getRepoPreferenceKey(repo),
+        name: repo.name,
+        commits: repo.stats?.commits || 0,
+        language: repo.language || null,
+      })),
+    narrativeTitle: input.narrativeTitle,
+    yearOverYear: input.yearOverYear,
+  }
+}
+
+function toShares(languages: Record<string, number>): Record<string, number> {
+  const total = Object.values(languages).reduce((sum, weight) => sum + weight, 0)
+  const shares: Record<string, number> = {}
+  Object.entries(languages).forEach(([lang, weight]) => {
+    shares[lang] = total > 0 ? Math.round((weight / total) * 1000) / 10 : 0
+  })
+  return shares
+}
+
+function metric(
+  key: YearComparisonMetric['key'],
+  label: string,
+  current: number,
+  previous: number
+): YearComparisonMetric {
+  return {
+    key,
+    label,
+    current,
+    previous,
+    delta: current - previous,
+    percentChange: previous !== 0 ? Math.round(((current - previous) / Math.abs(previous)) * 100) : null,
+  }
+}
+
+/**
+ * Compare a year's snapshot with an earlier one
+ */
+export function compareSnapshots(current: WrappedSnapshot, previous: WrappedSnapshot): YearComparison {
+  // Older snapshots hold all-time bytes, which say nothing about either year - languages
+  // are only compared when both sides are weighted by that year's commits
+  const comparableLanguages = current.languageWeights === 'commits' && previous.languageWeights === 'commits'
+  const currentShares = comparableLanguages ? toShares(current.languages) : {}
+  const previousShares = comparableLanguages ? toShares(previous.languages) : {}
+
+  const languages = [...new Set([...Object.keys(currentShares), ...Object.keys(previousShares)])]
+    .map(language => ({
+      language,
+      currentShare: currentShares[language] || 0,
+      previousShare: previousShares[language] || 0,
+    }))
+    .filter(l => l.currentShare >= MIN_LANGUAGE_SHARE || l.previousShare >= MIN_LANGUAGE_SHARE)
+    .sort((a, b) => b.currentShare - a.currentShare || b.previousShare - a.previousShare)
+
+  const previousProjects = new Set(previous.projects.map(p => p.fullName))
+  const currentProjects = new Set(current.projects.map(p => p.fullName))
+
+  return {
+    year: current.year,
+    previousYear: previous.year,
+    metrics: [
+      metric('commits', 'Commits', current.totals.commits, previous.totals.commits),
+      metric('additions', 'Lines Added', current.totals.additions, previous.totals.additions),
+      metric('net', 'Net Lines', current.totals.net, previous.totals.net),
+      metric('activeDays', 'Active Days', current.totals.activeDays, previous.totals.activeDays),
+      metric('longestStreak', 'Longest Streak', current.totals.longestStreak, previous.totals.longestStreak),
+      metric('projects', 'Projects', current.projects.length, previous.projects.length),
+      metric('aiAssistedShare', 'AI-Assisted Share (%)', current.aiAssistedShare, previous.aiAssistedShare),
+    ],
+    languages,
+    newLanguages: languages.filter(l => l.previousShare === 0).map(l => l.language),
+    droppedLanguages: languages.filter(l => l.currentShare === 0).map(l => l.language),
+    newProjects: current.projects.filter(p => !previousProjects.has(p.fullName)).map(p => p.name),
+    retiredProjects: previous.projects.filter(p => !currentProjects.has(p.fullName)).map(p => p.name),
+    continuingProjects: current.projects.filter(p => previousProjects.has(p.fullName)).map(p => p.name),
+  }
+}
+
+/**
+ * Format a metric change for display, e.g. "+23%" or "+12" (when there's no baseline)
+ */
+export function formatMetricChange(m: YearComparisonMetric): string {
+  if (m.delta === 0) return '±0'
+  if (m.percentChange === null || m.key === 'aiAssistedShare') {
+    return `${m.delta > 0 ? '+' : ''}${m.delta.toLocaleString()}${m.key === 'aiAssistedShare' ? ' pts' : ''}`
+  }
+  return `${m.percentChange > 0 ? '+' : ''}${m.percentChange}%`
+}
+
+/**
+ * Deterministic "what changed" narrative (used when no LLM is available)
+ */
+export function describeComparison(comparison: YearComparison): string {
+  const { year, previousYear } = comparison
+  const byKey = Object.fromEntries(comparison.metrics.map(m => [m.key, m]))
+  const sentences: string[] = []
+
+  const commits = byKey.commits
+  if (commits.delta === 0) {
+    sentences.push(`Commit volume held steady at ${commits.current.toLocaleString()} compared to ${previousYear}.`)
+  } else {
+    const change = commits.percentChange !== null ? `${Math.abs(commits.percentChange)}%` : Math.abs(commits.delta).toLocaleString()
+    sentences.push(`${commits.current.toLocaleString()} commits in ${year}, ${commits.delta > 0 ? 'up' : 'down'} ${change} from ${commits.previous.toLocaleString()} in ${previousYear}.`)
+  }
+
+  const days = byKey.activeDays
+  if (days.delta !== 0) {
+    sentences.push(`Coded on ${days.current} days (${days.delta > 0 ? '+' : ''}${days.delta}).`)
+  }
+
+  const projectParts = [
+    comparison.newProjects.length > 0 ? `${comparison.newProjects.length} new` : '',
+    comparison.retiredProjects.length > 0 ? `${comparison.retiredProjects.length} retired` : '',
+    comparison.continuingProjects.length > 0 ? `${comparison.continuingProjects.length} carried over` : '',
+  ].filter(Boolean)
+  if (projectParts.length > 0) {
+    sentences.push(`Projects: ${projectParts.join(', ')}.`)
+  }
+
+  if (comparison.newLanguages.length > 0) {
+    sentences.push(`New languages: ${comparison.newLanguages.join(', ')}.`)
+  }
+
+  const ai = byKey.aiAssistedShare
+  if (ai.delta !== 0) {
+    sentences.push(`AI-assisted share ${ai.delta > 0 ? 'rose' : 'fell'} from ${ai.previous}% to ${ai.current}%.`)
+  }
+
+  return sentences.join(' ')
+}
+
+/**
+ * Check that an untrusted value (e.g. a request body field) looks like a snapshot
+ */
+export function isWrappedSnapshot(value: any): value is WrappedSnapshot {
+  return !!value
+    && typeof value.year === 'number'
+    && !!value.totals && typeof value.totals.commits === 'number'
+    && !!value.languages && typeof value.languages === 'object'
+    && Array.isArray(value.projects)
+}